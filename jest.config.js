@@ -8,4 +8,7 @@ module.exports = {
     transform: {
         ...tsJestTransformCfg,
     },
+    moduleNameMapper: {
+        "^vscode$": "<rootDir>/tests/__mocks__/vscode.ts",
+    },
 };
@@ -1,33 +1,46 @@
-import { AudioContext, AudioBuffer, AudioBufferSourceNode, GainNode } from 'node-web-audio-api';
 import { isMelodic } from './charTypeChecks';
-import { settings } from './settings/pluginSettings';
+import type { PluginSettings } from './settings/pluginSettings';
 import getAudioData from './get/audioData';
-
-// Channel tracking for managing overlapping sounds
-const activeChannels: Map<number, { source: AudioBufferSourceNode; gainNode: GainNode }> = new Map();
+import { ToneLayer } from './themes/types';
+import { AudioEngine } from './engine/types';
+import { addVoice, makeRoomForVoice } from './mixer';
+import type { Intonation } from './intonation';
+
+export interface PlaybackOptions {
+    /** Stereo position of the sound, from -1 (left) to 1 (right). */
+    pan?: number;
+    /** Intonation decided by the intonation engine, replacing the usual pitch calculation. */
+    intonation?: Intonation;
+}
 
 /**
  * ### Calculates the pitch detune value in cents based on settings and key type.
  * @param key The keyboard input character.
+ * @param pluginSettings The settings to calculate the pitch with, which may differ from the global settings when a voice profile applies.
+ * @param random The random number generator used for pitch variation. Pass a seeded generator for reproducible results.
  * @returns {number} The pitch detune value in cents.
  */
-export function calculatePitch(key: string): number {
-    const pitchShiftCents = settings.intonation_pitchShift * 100;
+export function calculatePitch(
+    key: string,
+    pluginSettings: PluginSettings,
+    random: () => number = Math.random
+): number {
+    const pitchShiftCents = pluginSettings.intonation_pitchShift * 100;
 
     if (isMelodic(key)) {
         return pitchShiftCents;
     }
 
     // Random pitch variation for non-melodic keys
-    const randomVariation = Math.random() * settings.intonation_pitchVariation * 2 -
-        settings.intonation_pitchVariation;
+    const randomVariation = random() * pluginSettings.intonation_pitchVariation * 2 -
+        pluginSettings.intonation_pitchVariation;
 
     // Uppercase letters get additional pitch boost
-    if (settings.intonation_louderUppercase > 0 && /^[A-Z]$/.test(key)) {
+    if (pluginSettings.intonation_louderUppercase > 0 && /^[A-Z]$/.test(key)) {
         return pitchShiftCents +
             1.5 *
-            settings.intonation_pitchVariation *
-            (1 + settings.intonation_louderUppercase / 100);
+            pluginSettings.intonation_pitchVariation *
+            (1 + pluginSettings.intonation_louderUppercase / 100);
     }
 
     return pitchShiftCents + randomVariation;
@@ -36,145 +49,107 @@ export function calculatePitch(key: string): number {
 /**
  * ### Calculates the volume level based on settings and key type.
  * @param key The keyboard input character.
+ * @param pluginSettings The settings to calculate the volume with, which may differ from the global settings when a voice profile applies.
  * @returns {number} The volume level as a value between 0 and 1.
  */
-export function calculateVolume(key: string): number {
-    let audioVolume = settings.volume;
+export function calculateVolume(
+    key: string,
+    pluginSettings: PluginSettings
+): number {
+    let audioVolume = pluginSettings.volume;
 
     // Uppercase letters get volume boost
-    if (settings.intonation_louderUppercase > 0 && /^[A-Z]$/.test(key)) {
-        audioVolume = audioVolume * (1 + settings.intonation_louderUppercase / 100);
+    if (pluginSettings.intonation_louderUppercase > 0 && /^[A-Z]$/.test(key)) {
+        audioVolume = audioVolume * (1 + pluginSettings.intonation_louderUppercase / 100);
     }
 
     return audioVolume / 100; // Convert percentage to 0-1 range
 }
 
 /**
- * ### Configures the gain node with volume level and applies natural falloff for melodic sounds.
- * @param gainNode The gain node to configure.
- * @param audioContext The audio context for timing calculations.
- * @param volume The volume level (0-1) to set.
- * @param key The keyboard input character to determine if falloff should be applied.
- */
-export function setupVolumeAndFalloff(
-    gainNode: GainNode,
-    audioContext: AudioContext,
-    volume: number,
-    key: string
-): void {
-    gainNode.gain.setValueAtTime(volume, audioContext.currentTime);
-
-    // Always apply natural falloff to melodic/harmonic sounds (numbers, -, =)
-
-    if (isMelodic(key)) {
-        const falloffTime = 0.5; // 500ms natural falloff for melodic sounds
-        const endTime = audioContext.currentTime + falloffTime;
-        gainNode.gain.exponentialRampToValueAtTime(1e-5, endTime);
-    }
-}
-
-/**
- * ### Creates and configures an audio source node.
- * @param audioContext The audio context to create the source in.
- * @param audioBuffer The audio buffer to play.
- * @param pitchCents The pitch detune value in cents.
- * @returns {AudioBufferSourceNode} The configured audio source node.
- */
-export function createAudioSource(
-    audioContext: AudioContext,
-    audioBuffer: AudioBuffer,
-    pitchCents: number
-): AudioBufferSourceNode {
-    const source = audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.detune.value = pitchCents;
-    return source;
-}
-
-/**
- * ### Cuts off the currently playing sound on a channel with a fade-out.
- * @param channel The channel number to cut off.
- * @param fadeDuration The duration of the fade-out in seconds (default: 0.025).
+ * ### Gets how long a sound takes to fade out naturally, based on the key type.
+ * Melodic/harmonic sounds (numbers, -, =) always fall off, while every other sound rings out.
+ * @param key The keyboard input character.
+ * @returns {number | null} The falloff time in seconds, or `null` if the sound should not fall off.
  */
-function cutOffAudioOnChannel(channel: number, fadeDuration: number = 0.025): void {
-    const active = activeChannels.get(channel);
-    if (!active) {
-        return;
-    }
-
-    const { source, gainNode } = active;
-
-    const currentVolume = gainNode.gain.value;
-    const currentTime = gainNode.context.currentTime;
-
-
-    gainNode.gain.linearRampToValueAtTime(0, currentTime + fadeDuration);
-
-    setTimeout(() => {
-        try {
-            source.stop();
-        } catch (e) {
-
-        }
-        activeChannels.delete(channel);
-    }, fadeDuration * 1000);
+export function getFalloffTime(key: string): number | null {
+    return isMelodic(key) ? 0.5 : null; // 500ms natural falloff for melodic sounds
 }
 
 /**
- * ### Plays an audio buffer through the audio context.
- * @param audioContext The audio context to play the audio in.
+ * ### Plays an audio file through the audio engine.
+ * @param engine The audio engine to play the audio in.
  * @param filePath The path to the audio file to play.
  * @param key The keyboard input character that triggered this playback.
- * @param channel Optional channel number for managing overlapping sounds (voice sounds use channel 1).
+ * @param channel Channel number for managing overlapping sounds (voice sounds use channel 1), or `undefined` to overlap everything.
+ * @param pluginSettings The settings to play the audio with, which may differ from the global settings when a voice profile applies.
+ * @param options Where to place the sound, and the intonation to play it with.
  */
 export async function playAudio(
-    audioContext: AudioContext,
+    engine: AudioEngine,
     filePath: string,
     key: string,
-    channel?: number
+    channel: number | undefined,
+    pluginSettings: PluginSettings,
+    { pan = 0, intonation }: PlaybackOptions = {}
 ): Promise<void> {
-
-    if (channel !== undefined) {
-        cutOffAudioOnChannel(channel);
-    }
-
-    const { audioBuffer, delay } = await getAudioData(filePath, audioContext);
-
-    const pitchCents = calculatePitch(key);
-    const volume = calculateVolume(key);
-
-    const source = createAudioSource(audioContext, audioBuffer, pitchCents);
-    const gainNode = audioContext.createGain();
-
-    setupVolumeAndFalloff(gainNode, audioContext, volume, key);
-
-    source.connect(gainNode);
-    gainNode.connect(audioContext.destination);
-    source.start(0, delay);
-
-
-    if (channel !== undefined) {
-        activeChannels.set(channel, { source, gainNode });
-    }
-
-    source.onended = () => {
-        if (channel !== undefined) {
-            activeChannels.delete(channel);
-        }
-    };
+    const { audioBuffer, delay } = await getAudioData(filePath, engine);
+
+    const startTime = engine.currentTime;
+    const volume = calculateVolume(key, pluginSettings) * (intonation?.volumeMultiplier ?? 1);
+    const falloff = getFalloffTime(key);
+    const fadeIn = makeRoomForVoice(channel, key, startTime, pluginSettings);
+
+    const handle = engine.playBuffer({
+        buffer: audioBuffer,
+        startTime,
+        offset: delay,
+        detune: intonation?.detune ?? calculatePitch(key, pluginSettings),
+        volume,
+        falloff,
+        fadeIn,
+        duration: intonation?.duration ?? null,
+        pan,
+    });
+    addVoice(channel, { key, handle, startTime, volume, falloff });
 }
 
-export function cleanupChannels(): void {
-    activeChannels.forEach(({ source, gainNode }, channel) => {
-        try {
-            gainNode.gain.cancelScheduledValues(gainNode.context.currentTime);
-            gainNode.gain.setValueAtTime(0, gainNode.context.currentTime);
-            source.stop();
-        } catch (e) {
-            // Source may have already stopped
-        }
-        activeChannels.delete(channel);
+/**
+ * ### Plays a synthesized sound made of decaying oscillator and noise layers.
+ * Only the fixed pitch shift is applied, so themes built on scales stay in tune.
+ * @param engine The audio engine to play the sound in.
+ * @param layers The layers making up the sound.
+ * @param key The keyboard input character that triggered this playback.
+ * @param channel Channel number for managing overlapping sounds, or `undefined` to overlap everything.
+ * @param pluginSettings The settings to play the sound with, which may differ from the global settings when a voice profile applies.
+ * @param options Where to place the sound. Intonation is ignored, so themes built on scales stay in tune.
+ */
+export function playTone(
+    engine: AudioEngine,
+    layers: ToneLayer[],
+    key: string,
+    channel: number | undefined,
+    pluginSettings: PluginSettings,
+    { pan = 0 }: PlaybackOptions = {}
+): void {
+    if (!layers.length) return;
+
+    const startTime = engine.currentTime;
+    const volume = calculateVolume(key, pluginSettings);
+    makeRoomForVoice(channel, key, startTime, pluginSettings);
+
+    const handle = engine.playTone({
+        layers,
+        startTime,
+        detune: pluginSettings.intonation_pitchShift * 100,
+        volume,
+        pan,
+    });
+    addVoice(channel, {
+        key,
+        handle,
+        startTime,
+        volume,
+        falloff: Math.max(...layers.map((layer) => layer.duration)),
     });
-    activeChannels.clear();
 }
-
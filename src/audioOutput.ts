@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { DEFAULT_SETTINGS, PluginSettings } from './settings/pluginSettings';
+import { onDidChangeSettings, watchSettings } from './settings/settingsEvents';
+import { closeAudioEngine, getAudioEngine, hasAudioEngine } from './engine/engineState';
+import { listOutputDevices } from './engine/outputDevice';
+import { getOutputDeviceChange, OutputDevice } from './engine/outputOptions';
+import { invalidateAudioData } from './get/audioData';
+import { cleanupChannels } from './mixer';
+import { stopSpeaking } from './speech';
+import { preloadVoice } from './samplePreload';
+import { logMessage } from './outputChannel';
+
+// How often the output devices and the audio clock are checked, in milliseconds.
+const OUTPUT_CHECK_INTERVAL = 5000;
+// After this many restarts in a row that didn't get the clock moving, wait for the devices to change before trying again.
+const MAX_STALLED_RESTARTS = 3;
+
+// The settings as of the last change, kept up to date by `trackAudioOutput`.
+let outputSettings: Readonly<PluginSettings> = DEFAULT_SETTINGS;
+let knownDevices: OutputDevice[] | null = null;
+let lastEngineTime: number | null = null;
+let stalledRestarts = 0;
+let restarting: Promise<void> | null = null;
+// A restart asked for while another was running, which starts once that one is done.
+let queuedRestart: Promise<void> | null = null;
+
+/**
+ * ### Gets the shared audio engine, restarting the audio output if the engine fails.
+ * @param extensionPath The path of the extension, used to preload the voice again after a restart.
+ */
+function watchAudioEngine(extensionPath: string): void {
+    getAudioEngine().onFailure((reason) =>
+        restartAudioOutput(extensionPath, reason).catch((e) =>
+            logMessage(`Could not restart the audio output: ${(e as Error).message}`)
+        )
+    );
+}
+
+/**
+ * ### Throws away the audio engine and everything decoded with it, then sets it up again with the current output settings.
+ * The running restart may have read the settings before they changed, so a restart asked for during it runs once more afterwards. Any further requests share that one.
+ * @param extensionPath The path of the extension, used to preload the voice again.
+ * @param reason Why the output is restarted, for the log.
+ */
+export function restartAudioOutput(extensionPath: string, reason: string): Promise<void> {
+    if (restarting) {
+        queuedRestart ??= restarting
+            .catch(() => {
+                // The queued restart replaces whatever the failed one left behind.
+            })
+            .then(() => {
+                queuedRestart = null;
+                return restartAudioOutput(extensionPath, reason);
+            });
+        return queuedRestart;
+    }
+
+    restarting = (async () => {
+        logMessage(`Restarting the audio output, as ${reason}.`);
+        stopSpeaking();
+        cleanupChannels();
+        try {
+            await closeAudioEngine();
+        } catch (e) {
+            // The old output is already broken, which is why it is being replaced.
+        }
+        invalidateAudioData();
+        lastEngineTime = null;
+
+        watchAudioEngine(extensionPath);
+        await preloadVoice(extensionPath, outputSettings);
+    })().finally(() => {
+        restarting = null;
+    });
+    return restarting;
+}
+
+/**
+ * ### Restarts the audio output if the output devices changed in a way that matters, or the audio clock stopped.
+ * @param extensionPath The path of the extension, used to preload the voice again after a restart.
+ */
+async function checkAudioOutput(extensionPath: string): Promise<void> {
+    if (restarting) return;
+
+    const devices = await listOutputDevices();
+    const change = getOutputDeviceChange(knownDevices, devices, outputSettings.output_device);
+    knownDevices = devices;
+    // Without an engine there is nothing to restart, and checking its clock would open an output while nothing plays.
+    if (!hasAudioEngine()) return;
+    if (change) {
+        stalledRestarts = 0;
+        await restartAudioOutput(extensionPath, change);
+        return;
+    }
+
+    // A context whose clock stopped moving has lost its device without saying so.
+    const engineTime = getAudioEngine().currentTime;
+    if (lastEngineTime !== null && engineTime <= lastEngineTime) {
+        if (stalledRestarts >= MAX_STALLED_RESTARTS) return;
+        stalledRestarts++;
+        await restartAudioOutput(extensionPath, 'the audio output stopped responding');
+        return;
+    }
+    stalledRestarts = 0;
+    lastEngineTime = engineTime;
+}
+
+/**
+ * ### Starts watching the audio output, so sounds come back by themselves after the output device disappears or changes, or the output settings change.
+ * @param context The extension context, used to locate the bundled sounds.
+ * @returns {vscode.Disposable[]} The watchers, which should be disposed of when the extension deactivates.
+ */
+export function trackAudioOutput(context: vscode.ExtensionContext): vscode.Disposable[] {
+    watchAudioEngine(context.extensionPath);
+    const interval = setInterval(
+        () =>
+            checkAudioOutput(context.extensionPath).catch((e) =>
+                logMessage(`Could not check the audio output: ${(e as Error).message}`)
+            ),
+        OUTPUT_CHECK_INTERVAL
+    );
+    return [
+        watchSettings((newSettings) => (outputSettings = newSettings)),
+        onDidChangeSettings((event) => {
+            if (!event.affects('output')) return;
+            restartAudioOutput(context.extensionPath, 'the output settings changed').catch((e) =>
+                logMessage(`Could not restart the audio output: ${(e as Error).message}`)
+            );
+        }),
+        new vscode.Disposable(() => clearInterval(interval)),
+    ];
+}
@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
+import { updateStatusBarItem } from '../statusBar';
+import { getActiveMuteRules, getMutingRule, MuteConditions, MuteRule } from './muteRules';
+
+// How often quiet hours are checked, in milliseconds.
+const QUIET_HOURS_INTERVAL = 30000;
+// Debug adapter requests that resume a paused session.
+const RESUME_REQUESTS = ['continue', 'next', 'stepIn', 'stepOut', 'stepBack', 'reverseContinue', 'restart'];
+
+const conditions: MuteConditions = {
+    debugState: 'none',
+    terminalFocused: false,
+    webviewFocused: false,
+    windowFocused: true,
+    snoozedUntil: null,
+};
+const pausedSessions = new Set<string>();
+
+// The settings the rules are checked against, kept up to date once `trackAutoMute` runs.
+let muteSettings: Readonly<PluginSettings> | null = null;
+let activeRules: MuteRule[] = [];
+// Set when sounds are turned back on by hand while a rule applies. Cleared as soon as the rules change.
+let overridden = false;
+let snoozeTimeout: NodeJS.Timeout | null = null;
+
+/**
+ * ### Works out which mute rules apply now. Any change to them cancels a manual override.
+ */
+export function updateAutoMute(): void {
+    if (!muteSettings) return;
+    if (conditions.snoozedUntil !== null && conditions.snoozedUntil <= Date.now()) {
+        conditions.snoozedUntil = null;
+    }
+
+    const rules = getActiveMuteRules(conditions, muteSettings, new Date());
+    if (rules.join() === activeRules.join()) return;
+
+    activeRules = rules;
+    overridden = false;
+    updateStatusBarItem();
+}
+
+/**
+ * ### Gets why sounds are muted automatically.
+ * @param exemptRules Rules to leave out, for sounds that play despite them.
+ * @returns {MuteRule | null} The most important rule that applies, or `null` if sounds aren't muted automatically or were turned back on by hand.
+ */
+export function getMuteReason(exemptRules: MuteRule[] = []): MuteRule | null {
+    return overridden ? null : getMutingRule(activeRules, exemptRules);
+}
+
+/**
+ * ### Checks whether sounds were turned back on by hand while a mute rule applies.
+ */
+export function isAutoMuteOverridden(): boolean {
+    return overridden;
+}
+
+/**
+ * ### Plays sounds despite the mute rules that apply now, until they change.
+ */
+export function overrideAutoMute(): void {
+    overridden = activeRules.length > 0;
+    updateStatusBarItem();
+}
+
+/**
+ * ### Lets the mute rules that apply now silence sounds again.
+ */
+export function clearAutoMuteOverride(): void {
+    overridden = false;
+    updateStatusBarItem();
+}
+
+/**
+ * ### Turns sounds off for a while. Unlike disabling, this isn't remembered across window reloads.
+ * @param minutes How long to stay muted for.
+ */
+export function snooze(minutes: number): void {
+    if (snoozeTimeout) clearTimeout(snoozeTimeout);
+
+    conditions.snoozedUntil = Date.now() + minutes * 60000;
+    snoozeTimeout = setTimeout(() => {
+        snoozeTimeout = null;
+        updateAutoMute();
+    }, minutes * 60000);
+    updateAutoMute();
+}
+
+/**
+ * ### Ends a snooze early.
+ */
+export function cancelSnooze(): void {
+    if (snoozeTimeout) clearTimeout(snoozeTimeout);
+    snoozeTimeout = null;
+    conditions.snoozedUntil = null;
+    updateAutoMute();
+}
+
+/**
+ * ### Gets when the current snooze ends.
+ * @returns {Date | null} The end of the snooze, or `null` if not snoozed.
+ */
+export function getSnoozedUntil(): Date | null {
+    return conditions.snoozedUntil === null ? null : new Date(conditions.snoozedUntil);
+}
+
+/**
+ * ### Works out whether any debug session is running, and whether one is stopped at a breakpoint.
+ */
+function updateDebugState(): void {
+    conditions.debugState = pausedSessions.size ? 'paused' : vscode.debug.activeDebugSession ? 'running' : 'none';
+    updateAutoMute();
+}
+
+/**
+ * ### Works out whether a webview or custom editor has focus.
+ * Webviews don't count as text editors, so one has focus when there is no active text editor and the active tab shows a webview.
+ */
+function updateWebviewFocus(): void {
+    const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+    conditions.webviewFocused =
+        !vscode.window.activeTextEditor &&
+        (input instanceof vscode.TabInputWebview || input instanceof vscode.TabInputCustom);
+    updateAutoMute();
+}
+
+/**
+ * ### Records whether the terminal or an editor was used last.
+ * VS Code doesn't report which part of the window has focus, so the terminal counts as focused from the moment it is selected or typed in until an editor is used again.
+ * @param focused Whether the terminal has focus.
+ */
+function setTerminalFocused(focused: boolean): void {
+    conditions.terminalFocused = focused;
+    updateAutoMute();
+}
+
+/**
+ * ### Starts following the debugger, focus and the clock, so sounds are muted whenever a rule applies.
+ * @returns {vscode.Disposable[]} The listeners, which should be disposed of when the extension deactivates.
+ */
+export function trackAutoMute(): vscode.Disposable[] {
+    const settingsWatcher = watchSettings((newSettings) => {
+        muteSettings = newSettings;
+        updateAutoMute();
+    });
+    conditions.windowFocused = vscode.window.state.focused;
+    updateDebugState();
+    updateWebviewFocus();
+    const quietHoursInterval = setInterval(updateAutoMute, QUIET_HOURS_INTERVAL);
+
+    return [
+        settingsWatcher,
+        vscode.debug.onDidStartDebugSession(updateDebugState),
+        vscode.debug.onDidTerminateDebugSession((session) => {
+            pausedSessions.delete(session.id);
+            updateDebugState();
+        }),
+        vscode.debug.registerDebugAdapterTrackerFactory('*', {
+            createDebugAdapterTracker: (session) => ({
+                onDidSendMessage: (message) => {
+                    if (message.type !== 'event') return;
+                    if (message.event === 'stopped') pausedSessions.add(session.id);
+                    else if (message.event === 'continued') pausedSessions.delete(session.id);
+                    else return;
+                    updateDebugState();
+                },
+                onWillReceiveMessage: (message) => {
+                    if (message.type !== 'request' || !RESUME_REQUESTS.includes(message.command)) return;
+                    pausedSessions.delete(session.id);
+                    updateDebugState();
+                },
+                onExit: () => {
+                    pausedSessions.delete(session.id);
+                    updateDebugState();
+                },
+            }),
+        }),
+        vscode.window.onDidChangeWindowState((state) => {
+            conditions.windowFocused = state.focused;
+            updateAutoMute();
+        }),
+        vscode.window.onDidChangeActiveTerminal((terminal) => setTerminalFocused(!!terminal)),
+        vscode.window.onDidChangeTerminalState((terminal) => {
+            if (terminal === vscode.window.activeTerminal) setTerminalFocused(true);
+        }),
+        vscode.window.onDidStartTerminalShellExecution((event) => {
+            if (event.terminal === vscode.window.activeTerminal) setTerminalFocused(true);
+        }),
+        vscode.window.onDidChangeActiveTextEditor((editor) => {
+            if (editor) conditions.terminalFocused = false;
+            updateWebviewFocus();
+        }),
+        vscode.window.onDidChangeTextEditorSelection((event) => {
+            // Selections changed by other extensions don't mean the editor has focus.
+            if (event.kind !== undefined && conditions.terminalFocused) setTerminalFocused(false);
+        }),
+        vscode.window.tabGroups.onDidChangeTabs(updateWebviewFocus),
+        vscode.window.tabGroups.onDidChangeTabGroups(updateWebviewFocus),
+        new vscode.Disposable(() => {
+            clearInterval(quietHoursInterval);
+            if (snoozeTimeout) clearTimeout(snoozeTimeout);
+        }),
+    ];
+}
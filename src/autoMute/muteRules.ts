@@ -0,0 +1,106 @@
+import type { PluginSettings } from '../settings/pluginSettings';
+
+/** A reason for sounds to be muted automatically, most important first. */
+export type MuteRule = 'snooze' | 'quietHours' | 'debugging' | 'terminal' | 'webview' | 'windowUnfocused';
+
+export type DebugMuteMode = 'off' | 'active' | 'paused';
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/** What is going on in the window, as far as the mute rules are concerned. */
+export interface MuteConditions {
+    /** Whether a debug session is running, and whether it is stopped at a breakpoint. */
+    debugState: 'none' | 'running' | 'paused';
+    terminalFocused: boolean;
+    webviewFocused: boolean;
+    windowFocused: boolean;
+    /** When a snooze ends, in milliseconds since the epoch, or `null` if not snoozed. */
+    snoozedUntil: number | null;
+}
+
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export const MUTE_RULE_LABELS: Record<MuteRule, string> = {
+    snooze: 'snoozed',
+    quietHours: 'during quiet hours',
+    debugging: 'while debugging',
+    terminal: 'while the terminal is focused',
+    webview: 'while a webview is focused',
+    windowUnfocused: 'while the window is in the background',
+};
+
+/**
+ * ### Parses a time of day.
+ * @param time The time, as `HH:MM` in 24-hour format.
+ * @returns {number} The minutes since midnight.
+ */
+function parseTimeOfDay(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+/**
+ * ### Checks whether a time falls within quiet hours.
+ * Quiet hours that end before they start run overnight, and belong to the day they start on. If they start and end at the same time, they last all day.
+ * @param start When quiet hours start, as `HH:MM`.
+ * @param end When quiet hours end, as `HH:MM`.
+ * @param days The days quiet hours start on.
+ * @param date The time to check, in local time.
+ * @returns {boolean} Whether the time falls within quiet hours.
+ */
+export function isInQuietHours(start: string, end: string, days: Weekday[], date: Date): boolean {
+    const startMinutes = parseTimeOfDay(start);
+    const endMinutes = parseTimeOfDay(end);
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    const today = WEEKDAYS[date.getDay()];
+    const yesterday = WEEKDAYS[(date.getDay() + 6) % 7];
+
+    if (startMinutes === endMinutes) return days.includes(today);
+    if (startMinutes < endMinutes) {
+        return days.includes(today) && minutes >= startMinutes && minutes < endMinutes;
+    }
+    return (days.includes(today) && minutes >= startMinutes) || (days.includes(yesterday) && minutes < endMinutes);
+}
+
+/**
+ * ### Gets every mute rule that currently applies.
+ * @param conditions What is going on in the window.
+ * @param pluginSettings Settings of the plugin, deciding which rules are turned on.
+ * @param now The current time.
+ * @returns {MuteRule[]} The rules that apply, most important first.
+ */
+export function getActiveMuteRules(
+    conditions: MuteConditions,
+    pluginSettings: PluginSettings,
+    now: Date
+): MuteRule[] {
+    const debugMode = pluginSettings.autoMute_debugging;
+    const active: Record<MuteRule, boolean> = {
+        snooze: conditions.snoozedUntil !== null && conditions.snoozedUntil > now.getTime(),
+        quietHours:
+            pluginSettings.autoMute_quietHours_enabled &&
+            isInQuietHours(
+                pluginSettings.autoMute_quietHours_start,
+                pluginSettings.autoMute_quietHours_end,
+                pluginSettings.autoMute_quietHours_days,
+                now
+            ),
+        debugging:
+            (debugMode === 'active' && conditions.debugState !== 'none') ||
+            (debugMode === 'paused' && conditions.debugState === 'paused'),
+        terminal: pluginSettings.autoMute_terminalFocus && conditions.terminalFocused,
+        webview: pluginSettings.autoMute_webviewFocus && conditions.webviewFocused,
+        windowUnfocused: pluginSettings.autoMute_windowUnfocused && !conditions.windowFocused,
+    };
+    return (Object.keys(MUTE_RULE_LABELS) as MuteRule[]).filter((rule) => active[rule]);
+}
+
+/**
+ * ### Picks the rule that mutes a sound, leaving out the rules that sound doesn't follow.
+ * @param activeRules The rules that apply, most important first.
+ * @param exemptRules The rules the sound plays despite.
+ * @returns {MuteRule | null} The most important rule that mutes the sound, or `null` if none does.
+ */
+export function getMutingRule(activeRules: MuteRule[], exemptRules: MuteRule[] = []): MuteRule | null {
+    return activeRules.find((rule) => !exemptRules.includes(rule)) ?? null;
+}
@@ -0,0 +1,88 @@
+import type { PluginSettings } from './settings/pluginSettings';
+import { isAlphabetical } from './charTypeChecks';
+import {
+    ASCII_SOUND_MAP,
+    HANGUL_INITIALS,
+    HANGUL_VOWELS,
+    KANA_ROMANIZATION,
+    LATIN_LETTERS,
+} from './constants/characterMap';
+
+const HIRAGANA_START = 0x3041;
+const KATAKANA_START = 0x30a1;
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+const HANGUL_VOWEL_COUNT = 21;
+const HANGUL_FINAL_COUNT = 28;
+
+/**
+ * ### Romanizes a kana or hangul syllable to the letter it starts with.
+ * @param codePoint The code point of the character.
+ * @returns {string | null} The lowercase letter, or `null` if the character is neither kana nor hangul.
+ */
+function romanize(codePoint: number): string | null {
+    for (const start of [HIRAGANA_START, KATAKANA_START]) {
+        if (codePoint >= start && codePoint < start + KANA_ROMANIZATION.length) {
+            return KANA_ROMANIZATION[codePoint - start];
+        }
+    }
+
+    if (codePoint >= HANGUL_START && codePoint <= HANGUL_END) {
+        const index = codePoint - HANGUL_START;
+        const initial = Math.floor(index / (HANGUL_VOWEL_COUNT * HANGUL_FINAL_COUNT));
+        const vowel = Math.floor(index / HANGUL_FINAL_COUNT) % HANGUL_VOWEL_COUNT;
+        return HANGUL_INITIALS[initial] || HANGUL_VOWELS[vowel];
+    }
+
+    return null;
+}
+
+/**
+ * ### Picks a letter for a character of any other script, so the same character always sounds the same while neighbouring characters sound different.
+ * @param codePoint The code point of the character.
+ * @returns {string} A lowercase letter.
+ */
+function hashToLetter(codePoint: number): string {
+    const hash = Math.imul(codePoint, 0x9e3779b1) >>> 0; // Knuth's multiplicative hash
+    return String.fromCharCode(97 + (hash % 26));
+}
+
+/**
+ * ### Works out which key's sound a typed character should play.
+ * User overrides come first, then the printable ASCII table. Accented Latin letters play their base letter, kana and hangul play the letter they are romanized with, and letters of other scripts play a letter picked by hashing them.
+ * Keys that aren't single characters, such as `tab` or `backspace`, are left as they are.
+ * @param key The typed key.
+ * @param pluginSettings Settings of the plugin, containing the user's overrides.
+ * @returns {string} The key whose sound should be played.
+ */
+export function mapCharacter(key: string, pluginSettings: PluginSettings): string {
+    const override = pluginSettings.characterMap[key];
+    if (override) return override;
+
+    const codePoints = [...key];
+    if (codePoints.length !== 1 || key === '\n') return key;
+    if (key in ASCII_SOUND_MAP) return ASCII_SOUND_MAP[key];
+
+    // Full-width forms and ligatures become their plain counterparts, and accents are split off from their letters.
+    const normalized = key.normalize('NFKD').replace(/\p{M}/gu, '');
+    if (normalized.length === 1 && normalized in ASCII_SOUND_MAP) return ASCII_SOUND_MAP[normalized];
+    if (normalized in LATIN_LETTERS) return LATIN_LETTERS[normalized];
+
+    const codePoint = key.codePointAt(0)!;
+    const romanized = romanize(codePoint);
+    if (romanized) return romanized;
+
+    return /\p{L}/u.test(key) ? hashToLetter(codePoint) : key;
+}
+
+/**
+ * ### Treats a non-ASCII letter as the Latin letter it maps to, so it is pitched, themed and mixed like that letter too.
+ * @param key The typed key.
+ * @param pluginSettings Settings of the plugin, containing the user's overrides.
+ * @returns {string} The Latin letter, or the key itself if it is ASCII or doesn't map to a letter.
+ */
+export function transliterateKey(key: string, pluginSettings: PluginSettings): string {
+    if (key in ASCII_SOUND_MAP || !/^\p{L}$/u.test(key)) return key;
+    const mappedKey = mapCharacter(key, pluginSettings);
+    return isAlphabetical(mappedKey) ? mappedKey : key;
+}
@@ -0,0 +1,21 @@
+import * as vscode from 'vscode';
+import { deleteTypingStats } from '../stats/statsStore';
+
+export function getDeleteTypingStatsCommand() {
+    const deleteTypingStatsCmd = vscode.commands.registerCommand(
+        'vscode-animalese.deleteTypingStats',
+        async () => {
+            const choice = await vscode.window.showWarningMessage(
+                'Delete every recorded typing statistic? This cannot be undone.',
+                { modal: true },
+                'Delete'
+            );
+            if (!choice) return;
+
+            await deleteTypingStats();
+            vscode.window.showInformationMessage('Typing statistics deleted.');
+        }
+    );
+
+    return deleteTypingStatsCmd;
+}
@@ -1,15 +1,22 @@
 import * as vscode from 'vscode';
 import { setExtensionEnabled } from '../extension';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
 import { disablingText } from '../constants/popupText';
 
 export function getDisableCommand() {
+    let pluginSettings: Readonly<PluginSettings>;
+    const settingsWatcher = watchSettings((newSettings) => (pluginSettings = newSettings));
+
     const disableCmd = vscode.commands.registerCommand(
         'vscode-animalese.disable',
         () => {
             setExtensionEnabled(false);
-            vscode.window.showInformationMessage(disablingText);
+            if (pluginSettings.showNotifications) {
+                vscode.window.showInformationMessage(disablingText);
+            }
         }
     );
 
-    return disableCmd;
+    return vscode.Disposable.from(settingsWatcher, disableCmd);
 }
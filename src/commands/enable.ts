@@ -1,15 +1,22 @@
 import * as vscode from 'vscode';
-import { setExtensionEnabled } from '../extension';
+import { setSoundOn } from '../extension';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
 import { enablingText } from '../constants/popupText';
 
 export function getEnableCommand() {
+    let pluginSettings: Readonly<PluginSettings>;
+    const settingsWatcher = watchSettings((newSettings) => (pluginSettings = newSettings));
+
     const enableCmd = vscode.commands.registerCommand(
         'vscode-animalese.enable',
         () => {
-            setExtensionEnabled(true);
-            vscode.window.showInformationMessage(enablingText);
+            setSoundOn(true);
+            if (pluginSettings.showNotifications) {
+                vscode.window.showInformationMessage(enablingText);
+            }
         }
     );
 
-    return enableCmd;
+    return vscode.Disposable.from(settingsWatcher, enableCmd);
 }
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { getTypingStats } from '../stats/statsStore';
+import { typingStatsToCsv } from '../stats/typingStats';
+
+export function getExportTypingStatsCommand() {
+    const exportTypingStatsCmd = vscode.commands.registerCommand(
+        'vscode-animalese.exportTypingStats',
+        async () => {
+            const stats = getTypingStats();
+            if (!Object.keys(stats.days).length) {
+                vscode.window.showWarningMessage('There are no typing statistics to export yet.');
+                return;
+            }
+
+            const format = await vscode.window.showQuickPick(
+                [
+                    { label: 'JSON', extension: 'json', description: 'Every statistic, as recorded' },
+                    { label: 'CSV', extension: 'csv', description: 'One row per day, for spreadsheets' },
+                ],
+                { title: 'Export Format' }
+            );
+            if (!format) return;
+
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+            const uri = await vscode.window.showSaveDialog({
+                title: 'Export Typing Statistics',
+                filters: { [format.label]: [format.extension] },
+                defaultUri: workspaceFolder
+                    ? vscode.Uri.joinPath(workspaceFolder.uri, `typing-stats.${format.extension}`)
+                    : undefined,
+            });
+            if (!uri) return;
+
+            await fs.promises.writeFile(
+                uri.fsPath,
+                format.extension === 'json' ? JSON.stringify(stats, null, 2) : typingStatsToCsv(stats)
+            );
+            vscode.window.showInformationMessage(
+                `Successfully exported typing statistics to ${uri.fsPath}.`
+            );
+        }
+    );
+
+    return exportTypingStatsCmd;
+}
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
+import { resolveProfileSettings } from '../settings/profiles';
+import { renderUtterance } from '../render';
+import { RENDER_SAMPLE_RATES } from '../constants/sampleRates';
+import { encodeWav } from '../wav';
+
+export function getRenderToWavCommand(context: vscode.ExtensionContext) {
+    let pluginSettings: Readonly<PluginSettings>;
+    const settingsWatcher = watchSettings((newSettings) => (pluginSettings = newSettings));
+
+    const renderToWavCmd = vscode.commands.registerCommand(
+        'vscode-animalese.renderToWav',
+        async () => {
+            const editor = vscode.window.activeTextEditor;
+            const selectedText =
+                editor && !editor.selection.isEmpty
+                    ? editor.document.getText(editor.selection)
+                    : '';
+            const text =
+                selectedText ||
+                (await vscode.window.showInputBox({
+                    title: 'Render Animalese to WAV',
+                    prompt: 'What should be said? Select text in an editor beforehand to render it instead.',
+                }));
+            if (!text) return;
+
+            // The configured sample rate is listed first, so it can be picked by pressing Enter.
+            const sampleRates = [
+                pluginSettings.render_sampleRate,
+                ...RENDER_SAMPLE_RATES.filter((rate) => rate !== pluginSettings.render_sampleRate),
+            ];
+            const sampleRate = await vscode.window.showQuickPick(
+                sampleRates.map((rate) => ({ label: `${rate} Hz`, rate })),
+                { title: 'Sample Rate' }
+            );
+            if (!sampleRate) return;
+
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+            const uri = await vscode.window.showSaveDialog({
+                title: 'Save Animalese Clip',
+                filters: { 'WAV Audio': ['wav'] },
+                defaultUri: workspaceFolder
+                    ? vscode.Uri.joinPath(workspaceFolder.uri, 'animalese.wav')
+                    : undefined,
+            });
+            if (!uri) return;
+
+            try {
+                const audioBuffer = await renderUtterance(
+                    context.extensionPath,
+                    text,
+                    sampleRate.rate,
+                    editor ? resolveProfileSettings(editor.document) : pluginSettings
+                );
+                if (!audioBuffer) {
+                    vscode.window.showWarningMessage(
+                        'The given text has no letters to speak.'
+                    );
+                    return;
+                }
+
+                await fs.promises.writeFile(uri.fsPath, encodeWav(audioBuffer));
+            } catch (e) {
+                vscode.window.showErrorMessage(
+                    `Could not save the Animalese clip: ${(e as Error).message}`
+                );
+                return;
+            }
+            vscode.window.showInformationMessage(
+                `Successfully saved Animalese clip to ${uri.fsPath}.`
+            );
+        }
+    );
+
+    return vscode.Disposable.from(settingsWatcher, renderToWavCmd);
+}
@@ -0,0 +1,46 @@
+import * as vscode from 'vscode';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
+import { setConfig } from '../settings/configState';
+import { listOutputDevices } from '../engine/outputDevice';
+import { LATENCY_CATEGORIES, LatencyCategory } from '../engine/outputOptions';
+
+export function getSelectAudioOutputCommand() {
+    let pluginSettings: Readonly<PluginSettings>;
+    const settingsWatcher = watchSettings((newSettings) => (pluginSettings = newSettings));
+
+    const selectAudioOutputCmd = vscode.commands.registerCommand(
+        'vscode-animalese.selectAudioOutput',
+        async () => {
+            const devices = await listOutputDevices();
+            const device = await vscode.window.showQuickPick(
+                [{ label: 'System Default', deviceId: '' }, ...devices].map((d) => ({
+                    label: d.label,
+                    description: d.deviceId === pluginSettings.output_device ? 'current' : undefined,
+                    deviceId: d.deviceId,
+                })),
+                { title: 'Play Animalese Sounds Through' }
+            );
+            if (!device) return;
+
+            const latency = await vscode.window.showQuickPick(
+                (Object.entries(LATENCY_CATEGORIES) as [LatencyCategory, string][]).map(([category, detail]) => ({
+                    label: category,
+                    description: category === pluginSettings.output_latency ? 'current' : undefined,
+                    detail,
+                })),
+                { title: 'Audio Latency' }
+            );
+            if (!latency) return;
+
+            // Devices differ between machines, so the choice is only saved in the user settings.
+            await setConfig('output_device', device.deviceId);
+            await setConfig('output_latency', latency.label);
+            vscode.window.showInformationMessage(
+                `Playing sounds through ${device.label} with ${latency.label} latency.`
+            );
+        }
+    );
+
+    return vscode.Disposable.from(settingsWatcher, selectAudioOutputCmd);
+}
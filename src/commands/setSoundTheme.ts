@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
+import { setConfig } from '../settings/configState';
+import { getSoundTheme, SOUND_THEMES } from '../themes/soundThemes';
+import { pickSettingsScope } from '../settings/settingsScope';
+
+export function getSetSoundThemeCommand() {
+    let pluginSettings: Readonly<PluginSettings>;
+    const settingsWatcher = watchSettings((newSettings) => (pluginSettings = newSettings));
+
+    const setSoundThemeCmd = vscode.commands.registerCommand(
+        'vscode-animalese.setSoundTheme',
+        async () => {
+            const oldTheme = getSoundTheme(pluginSettings.soundTheme);
+            const theme = await vscode.window.showQuickPick(
+                SOUND_THEMES.map((t) => ({
+                    label: t.label,
+                    detail: t.description,
+                    id: t.id,
+                })),
+                {
+                    title: 'Set Sound Theme',
+                    placeHolder: oldTheme.label,
+                }
+            );
+            if (!theme) return;
+
+            const scope = await pickSettingsScope('Use This Sound Theme In');
+            if (!scope) return;
+
+            try {
+                await setConfig('soundTheme', theme.id, scope.target, scope.document, scope.overrideInLanguage);
+            } catch (e) {
+                vscode.window.showErrorMessage(`Could not save the sound theme: ${(e as Error).message}`);
+                return;
+            }
+            vscode.window.showInformationMessage(
+                `Successfully set sound theme to ${theme.label}.`
+            );
+        }
+    );
+
+    return vscode.Disposable.from(settingsWatcher, setSoundThemeCmd);
+}
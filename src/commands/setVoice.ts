@@ -1,26 +1,152 @@
 import * as vscode from 'vscode';
-import { settings } from '../settings/pluginSettings';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
 import { setConfig } from '../settings/configState';
 import { VOICE_LIST } from '../constants/voiceList';
+import { getLoadedVoicePacks, getVoicePack, loadVoicePack, VOICE_PACK_MANIFEST } from '../voicePack';
+import { getAudioEngine } from '../engine/engineState';
+import { getDocumentSettings } from '../settings/loadSettings';
+import { pickSettingsScope, SettingsScopeName } from '../settings/settingsScope';
+
+const ADD_VOICE_PACK_LABEL = '$(folder-opened) Add Voice Pack...';
+
+interface VoiceQuickPickItem extends vscode.QuickPickItem {
+    voicePackDirectory?: string;
+}
+
+interface SetVoiceArgs {
+    /** The built-in voice, or the name or directory of a loaded voice pack, skipping the voice picker. */
+    voice?: string;
+    /** Where to save the voice, skipping the scope picker. */
+    scope?: SettingsScopeName;
+}
+
+/**
+ * ### Asks the user for a folder containing a voice pack manifest.
+ * @returns The selected directory, or `undefined` if the dialog was cancelled.
+ */
+async function pickVoicePackDirectory(): Promise<string | undefined> {
+    const folders = await vscode.window.showOpenDialog({
+        title: `Select a folder containing ${VOICE_PACK_MANIFEST}`,
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+    });
+    return folders?.[0]?.fsPath;
+}
+
+/**
+ * ### Saves the voice to the scope the user picks. A voice pack is saved in place of the built-in voice, and added to the list of voice packs if it isn't on it yet. A built-in voice clears the voice pack of the same scope.
+ * @param label The name of the voice, shown in the confirmation.
+ * @param voice The built-in voice, or `undefined` when picking a voice pack.
+ * @param voicePackDirectory The directory of the voice pack, or `undefined` when picking a built-in voice.
+ * @param pluginSettings Settings of the plugin, giving the list of voice packs and the voice pack used when the voice isn't saved for a document.
+ * @param scopeName The scope to save to, if given to the command.
+ */
+async function saveVoice(
+    label: string,
+    voice: string | undefined,
+    voicePackDirectory: string | undefined,
+    pluginSettings: PluginSettings,
+    scopeName?: SettingsScopeName
+): Promise<void> {
+    const scope = await pickSettingsScope('Use This Voice In', scopeName);
+    if (!scope) return;
+
+    const { target, document, overrideInLanguage } = scope;
+    try {
+        if (voicePackDirectory) {
+            // The list of voice packs is always global, so every workspace can pick from it.
+            if (!pluginSettings.voicePacks.includes(voicePackDirectory)) {
+                await setConfig('voicePacks', [...pluginSettings.voicePacks, voicePackDirectory]);
+            }
+            await setConfig('voicePack', voicePackDirectory, target, document, overrideInLanguage);
+        } else {
+            await setConfig('voice', voice, target, document, overrideInLanguage);
+            if ((document ? getDocumentSettings(document) : pluginSettings).voicePack) {
+                await setConfig('voicePack', '', target, document, overrideInLanguage);
+            }
+        }
+    } catch (e) {
+        vscode.window.showErrorMessage(`Could not save the voice: ${(e as Error).message}`);
+        return;
+    }
+    vscode.window.showInformationMessage(
+        `Successfully set voice to ${label} for ${scope.label.toLowerCase()}.`
+    );
+}
 
 export function getSetVoiceCommand() {
+    let pluginSettings: Readonly<PluginSettings>;
+    const settingsWatcher = watchSettings((newSettings) => (pluginSettings = newSettings));
+
     const setVoiceCmd = vscode.commands.registerCommand(
         'vscode-animalese.setVoice',
-        () => {
-            const oldVoice = settings.voice ?? 'Female Voice 1 (Sweet)';
-            vscode.window
-                .showQuickPick(VOICE_LIST, {
-                    title: 'Set Voice',
-                    placeHolder: oldVoice,
-                })
-                .then((v) => {
-                    if (!v) return;
-                    vscode.window.showInformationMessage(
-                        `Successfully set voice to ${v}.`
+        async (args: SetVoiceArgs = {}) => {
+            if (args.voice !== undefined) {
+                const voicePack = getLoadedVoicePacks().find(
+                    (pack) => pack.name === args.voice || pack.directory === args.voice
+                );
+                if (voicePack) {
+                    await saveVoice(voicePack.name, undefined, voicePack.directory, pluginSettings, args.scope);
+                } else if (VOICE_LIST.includes(args.voice)) {
+                    await saveVoice(args.voice, args.voice, undefined, pluginSettings, args.scope);
+                } else {
+                    vscode.window.showErrorMessage(
+                        `${args.voice} is neither a built-in voice nor a loaded voice pack.`
+                    );
+                }
+                return;
+            }
+
+            const document = vscode.window.activeTextEditor?.document;
+            const currentSettings = document ? getDocumentSettings(document) : pluginSettings;
+            const oldVoice =
+                getVoicePack(currentSettings.voicePack)?.name ??
+                currentSettings.voice ??
+                'Female Voice 1 (Sweet)';
+
+            const items: VoiceQuickPickItem[] = [
+                ...VOICE_LIST.map((label) => ({ label })),
+                { label: 'Voice Packs', kind: vscode.QuickPickItemKind.Separator },
+                ...getLoadedVoicePacks().map((voicePack) => ({
+                    label: voicePack.name,
+                    description: voicePack.directory,
+                    voicePackDirectory: voicePack.directory,
+                })),
+                { label: ADD_VOICE_PACK_LABEL },
+            ];
+
+            const v = await vscode.window.showQuickPick(items, {
+                title: 'Set Voice',
+                placeHolder: oldVoice,
+            });
+            if (!v) return;
+
+            if (v.label === ADD_VOICE_PACK_LABEL) {
+                const directory = await pickVoicePackDirectory();
+                if (!directory) return;
+
+                // The pack is checked before it is saved, so a broken one never replaces the current voice.
+                const { voicePack, problems } = await loadVoicePack(directory, getAudioEngine());
+                if (!voicePack) {
+                    vscode.window.showErrorMessage(
+                        `The voice pack at "${directory}" could not be loaded. ${problems.join(' ')}`
                     );
-                    setConfig('voice', v);
-                });
+                    return;
+                }
+                await saveVoice(voicePack.name, undefined, directory, pluginSettings, args.scope);
+                return;
+            }
+
+            await saveVoice(
+                v.label,
+                v.voicePackDirectory ? undefined : v.label,
+                v.voicePackDirectory,
+                pluginSettings,
+                args.scope
+            );
         }
     );
-    return setVoiceCmd;
+    return vscode.Disposable.from(settingsWatcher, setVoiceCmd);
 }
@@ -1,13 +1,57 @@
 import * as vscode from 'vscode';
-import { settings } from '../settings/pluginSettings';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
 import { setConfig } from '../settings/configState';
+import { getDocumentSettings } from '../settings/loadSettings';
+import { pickSettingsScope, SettingsScopeName } from '../settings/settingsScope';
+
+interface SetVolumeArgs {
+    /** The volume to set, skipping the input box. */
+    volume?: number;
+    /** Where to save the volume, skipping the scope picker. */
+    scope?: SettingsScopeName;
+}
+
+/**
+ * ### Saves the volume to the scope the user picks.
+ * @param percentage The volume, in percent.
+ * @param scopeName The scope to save to, if given to the command.
+ */
+async function saveVolume(percentage: number, scopeName?: SettingsScopeName): Promise<void> {
+    const scope = await pickSettingsScope('Use This Volume In', scopeName);
+    if (!scope) return;
+
+    try {
+        await setConfig('volume', percentage, scope.target, scope.document, scope.overrideInLanguage);
+    } catch (e) {
+        vscode.window.showErrorMessage(`Could not save the volume: ${(e as Error).message}`);
+        return;
+    }
+    vscode.window.showInformationMessage(
+        `Successfully set volume to ${percentage}% for ${scope.label.toLowerCase()}.`
+    );
+}
 
 export function getSetVolumeCommand() {
+    let pluginSettings: Readonly<PluginSettings>;
+    const settingsWatcher = watchSettings((newSettings) => (pluginSettings = newSettings));
+
     const setVolumeCmd = vscode.commands.registerCommand(
         'vscode-animalese.setVolume',
-        () => {
-            const oldVolume = settings.volume ?? 50;
-            vscode.window
+        (args: SetVolumeArgs = {}) => {
+            if (args.volume !== undefined) {
+                if (!Number.isInteger(args.volume) || args.volume < 0 || args.volume > 100) {
+                    vscode.window.showErrorMessage(
+                        'The volume should be an integer within 0-100.'
+                    );
+                    return;
+                }
+                return saveVolume(args.volume, args.scope);
+            }
+
+            const document = vscode.window.activeTextEditor?.document;
+            const oldVolume = (document ? getDocumentSettings(document) : pluginSettings).volume ?? 50;
+            return vscode.window
                 .showInputBox({
                     title: 'Set Volume',
                     prompt: 'What would you like the volume % to be? The response should be an integer within 0-100.',
@@ -44,14 +88,10 @@ export function getSetVolumeCommand() {
                 })
                 .then((v) => {
                     if (!v) return;
-                    const percentage = parseInt(v);
-                    vscode.window.showInformationMessage(
-                        `Successfully set volume to ${percentage}%.`
-                    );
-                    setConfig('volume', percentage);
+                    return saveVolume(parseInt(v), args.scope);
                 });
         }
     );
 
-    return setVolumeCmd;
+    return vscode.Disposable.from(settingsWatcher, setVolumeCmd);
 }
@@ -0,0 +1,29 @@
+import * as vscode from 'vscode';
+import { isSoundOn } from '../extension';
+
+export function getShowMenuCommand() {
+    const showMenuCmd = vscode.commands.registerCommand(
+        'vscode-animalese.showMenu',
+        async () => {
+            const action = await vscode.window.showQuickPick(
+                [
+                    {
+                        label: isSoundOn()
+                            ? '$(mute) Disable Sounds'
+                            : '$(unmute) Enable Sounds',
+                        command: 'vscode-animalese.toggle',
+                    },
+                    { label: '$(person) Change Voice', command: 'vscode-animalese.setVoice' },
+                    { label: '$(settings) Change Volume', command: 'vscode-animalese.setVolume' },
+                    { label: '$(clock) Snooze for...', command: 'vscode-animalese.snooze' },
+                ],
+                { title: 'Animalese' }
+            );
+            if (!action) return;
+
+            vscode.commands.executeCommand(action.command);
+        }
+    );
+
+    return showMenuCmd;
+}
@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import { getSampleCacheStats } from '../get/audioData';
+
+/**
+ * ### Formats a number of bytes as megabytes.
+ * @param bytes The number of bytes.
+ * @returns {string} The size in megabytes, with one decimal.
+ */
+function toMegabytes(bytes: number): string {
+    return (bytes / 1024 / 1024).toFixed(1);
+}
+
+export function getShowSampleCacheStatsCommand() {
+    const showSampleCacheStatsCmd = vscode.commands.registerCommand(
+        'vscode-animalese.showSampleCacheStats',
+        () => {
+            const { samples, memory, budget, hits, misses } = getSampleCacheStats();
+            const requests = hits + misses;
+            const hitRate = requests
+                ? `${Math.round((hits / requests) * 100)}% (${hits} of ${requests} sounds were already loaded)`
+                : 'n/a (no sounds played yet)';
+
+            vscode.window.showInformationMessage(
+                `${samples} samples loaded, using ${toMegabytes(memory)} MB of ${toMegabytes(budget)} MB. Hit rate: ${hitRate}.`
+            );
+        }
+    );
+
+    return showSampleCacheStatsCmd;
+}
@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
+import { setConfig } from '../settings/configState';
+import { getTypingStats } from '../stats/statsStore';
+import { toDateKey } from '../stats/typingStats';
+import { showRecapPanel } from '../stats/recapPanel';
+
+export function getShowTypingRecapCommand(context: vscode.ExtensionContext) {
+    let pluginSettings: Readonly<PluginSettings>;
+    const settingsWatcher = watchSettings((newSettings) => (pluginSettings = newSettings));
+
+    const showTypingRecapCmd = vscode.commands.registerCommand(
+        'vscode-animalese.showTypingRecap',
+        async () => {
+            const today = getTypingStats().days[toDateKey(Date.now())];
+            if (today) {
+                showRecapPanel(context.extensionPath, today, pluginSettings);
+                return;
+            }
+
+            if (pluginSettings.stats_enabled) {
+                vscode.window.showInformationMessage(
+                    'Nothing has been typed today yet. Come back after some typing!'
+                );
+                return;
+            }
+            const choice = await vscode.window.showInformationMessage(
+                'Typing statistics are turned off. They are only ever stored on this machine.',
+                'Turn On'
+            );
+            if (choice) setConfig('stats_enabled', true);
+        }
+    );
+
+    return vscode.Disposable.from(settingsWatcher, showTypingRecapCmd);
+}
@@ -0,0 +1,38 @@
+import * as vscode from 'vscode';
+import { snooze } from '../autoMute/autoMuteState';
+
+interface SnoozeArgs {
+    /** How many minutes to snooze for, skipping the duration picker. */
+    minutes?: number;
+}
+
+const SNOOZE_DURATIONS = [5, 15, 30, 60, 120]; // In minutes
+
+export function getSnoozeCommand() {
+    const snoozeCmd = vscode.commands.registerCommand(
+        'vscode-animalese.snooze',
+        async (args: SnoozeArgs = {}) => {
+            if (args.minutes !== undefined) {
+                if (!(args.minutes > 0)) {
+                    vscode.window.showErrorMessage('The snooze length should be a positive number of minutes.');
+                    return;
+                }
+                snooze(args.minutes);
+                return;
+            }
+
+            const duration = await vscode.window.showQuickPick(
+                SNOOZE_DURATIONS.map((minutes) => ({
+                    label: minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`,
+                    minutes,
+                })),
+                { title: 'Snooze Animalese Sounds For' }
+            );
+            if (!duration) return;
+
+            snooze(duration.minutes);
+        }
+    );
+
+    return snoozeCmd;
+}
@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { speakText } from '../speech';
+import { resolveProfileSettings } from '../settings/profiles';
+
+export function getSpeakSelectionCommand(context: vscode.ExtensionContext) {
+    const speakSelectionCmd = vscode.commands.registerCommand(
+        'vscode-animalese.speakSelection',
+        () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showWarningMessage(
+                    'Open a file and select some text to speak.'
+                );
+                return;
+            }
+
+            // Without a selection, speak the line the cursor is on.
+            const text = editor.selection.isEmpty
+                ? editor.document.lineAt(editor.selection.active.line).text
+                : editor.document.getText(editor.selection);
+
+            speakText(
+                context.extensionPath,
+                text,
+                resolveProfileSettings(editor.document)
+            ).catch((e) => {
+                vscode.window.showErrorMessage(
+                    `Could not speak the selection: ${(e as Error).message}`
+                );
+            });
+        }
+    );
+
+    return speakSelectionCmd;
+}
@@ -0,0 +1,13 @@
+import * as vscode from 'vscode';
+import { stopSpeaking } from '../speech';
+
+export function getStopSpeakingCommand() {
+    const stopSpeakingCmd = vscode.commands.registerCommand(
+        'vscode-animalese.stopSpeaking',
+        () => {
+            stopSpeaking();
+        }
+    );
+
+    return stopSpeakingCmd;
+}
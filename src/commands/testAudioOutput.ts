@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
+import { listOutputDevices } from '../engine/outputDevice';
+import { getAudioEngine } from '../engine/engineState';
+import { playTone } from '../audio';
+import { CHANNEL_MAP } from '../constants/channels';
+import { ToneLayer } from '../themes/types';
+import { getOutputChannel, logMessage } from '../outputChannel';
+
+// A short two-note chime, A5 then E6, that is easy to recognize on any device.
+const TEST_TONE: ToneLayer[] = [
+    { waveform: 'sine', detune: 1200, duration: 0.6, gain: 0.5 },
+    { waveform: 'sine', detune: 1900, duration: 0.9, gain: 0.35 },
+];
+
+export function getTestAudioOutputCommand() {
+    let pluginSettings: Readonly<PluginSettings>;
+    const settingsWatcher = watchSettings((newSettings) => (pluginSettings = newSettings));
+
+    const testAudioOutputCmd = vscode.commands.registerCommand(
+        'vscode-animalese.testAudioOutput',
+        async () => {
+            const devices = await listOutputDevices();
+            const chosenDevice = pluginSettings.output_device;
+            const lines = devices.map(
+                ({ deviceId, label }) => `  ${deviceId === chosenDevice ? '*' : ' '} ${label} (${deviceId})`
+            );
+            if (chosenDevice && !devices.some((device) => device.deviceId === chosenDevice)) {
+                lines.push(`  * ${chosenDevice} (not connected, so the system default is used)`);
+            }
+
+            logMessage(
+                [
+                    `Audio output devices${chosenDevice ? '' : ', playing through the system default'}:`,
+                    ...(lines.length ? lines : ['  (none found)']),
+                    `Latency: ${pluginSettings.output_latency}. Sample rate: ${pluginSettings.output_sampleRate || "the device's own"}.`,
+                ].join('\n')
+            );
+            getOutputChannel().show(true);
+
+            playTone(getAudioEngine(), TEST_TONE, 'test', CHANNEL_MAP.sfx, { ...pluginSettings, intonation_pitchShift: 0 });
+        }
+    );
+
+    return vscode.Disposable.from(settingsWatcher, testAudioOutputCmd);
+}
@@ -1,16 +1,23 @@
 import * as vscode from 'vscode';
-import { extensionEnabled, setExtensionEnabled } from '../extension';
+import { isSoundOn, setSoundOn } from '../extension';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
 import { disablingText, enablingText } from '../constants/popupText';
 
 export function getToggleCommand() {
+    let pluginSettings: Readonly<PluginSettings>;
+    const settingsWatcher = watchSettings((newSettings) => (pluginSettings = newSettings));
+
     const toggleCmd = vscode.commands.registerCommand(
         'vscode-animalese.toggle',
         () => {
-            setExtensionEnabled(!extensionEnabled);
-            vscode.window.showInformationMessage(
-                extensionEnabled ? enablingText : disablingText
-            );
+            setSoundOn(!isSoundOn());
+            if (pluginSettings.showNotifications) {
+                vscode.window.showInformationMessage(
+                    isSoundOn() ? enablingText : disablingText
+                );
+            }
         }
     );
-    return toggleCmd;
+    return vscode.Disposable.from(settingsWatcher, toggleCmd);
 }
@@ -0,0 +1,23 @@
+import * as vscode from 'vscode';
+import { toggleActiveTerminalSounds } from '../terminal/terminalSounds';
+
+export function getToggleTerminalSoundsCommand() {
+    const toggleTerminalSoundsCmd = vscode.commands.registerCommand(
+        'vscode-animalese.toggleTerminalSounds',
+        () => {
+            const name = vscode.window.activeTerminal?.name;
+            const muted = toggleActiveTerminalSounds();
+            if (muted === null) {
+                vscode.window.showErrorMessage('There is no active terminal.');
+                return;
+            }
+            vscode.window.showInformationMessage(
+                muted
+                    ? `Commands in the "${name}" terminal won't make sounds until it is closed.`
+                    : `Commands in the "${name}" terminal make sounds again.`
+            );
+        }
+    );
+
+    return toggleTerminalSoundsCmd;
+}
@@ -0,0 +1,9 @@
+// Channel assignments for different sound types
+export const CHANNEL_MAP = {
+    voice: 1,
+    sfx: 2,
+    melodic: 3,
+    cursor: 4,
+    reaction: 5,
+    event: 6,
+} as const;
@@ -24,3 +24,44 @@ export const SYMBOLS = [
     '/',
     '\\',
 ];
+
+export const OPENING_BRACKETS = ['(', '[', '{'];
+
+export const CLOSING_BRACKETS = [')', ']', '}'];
+
+export const ARROW_KEYS = ['arrow_up', 'arrow_down', 'arrow_left', 'arrow_right'];
+
+export const SFX_KEYS = ['tab', 'backspace', ...ARROW_KEYS];
+
+// Every sound effect in `audio/sfx`, by file name.
+export const SFX_NAMES = [
+    'ampersand',
+    'arrow_down',
+    'arrow_left',
+    'arrow_right',
+    'arrow_up',
+    'asterisk',
+    'at',
+    'backspace',
+    'brace_closed',
+    'brace_open',
+    'bracket_closed',
+    'bracket_open',
+    'caret',
+    'default',
+    'dollar',
+    'enter',
+    'exclamation',
+    'parenthesis_closed',
+    'parenthesis_open',
+    'percent',
+    'pound',
+    'question',
+    'slash_back',
+    'slash_forward',
+    'tab',
+    'tilde',
+];
+
+// Whole phrases spoken by the villager, played for events rather than keypresses.
+export const PHRASE_KEYS = ['phrase_Gwah', 'phrase_Deska', 'phrase_OK'];
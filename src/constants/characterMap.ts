@@ -0,0 +1,88 @@
+// The key whose sound each printable ASCII character plays. Characters without a sound of their own borrow the sound of a similar or neighbouring key.
+export const ASCII_SOUND_MAP: Record<string, string> = {
+    ' ': ' ',
+    '!': '!',
+    '"': '#',
+    '#': '#',
+    $: '$',
+    '%': '%',
+    '&': '&',
+    "'": '*',
+    '(': '(',
+    ')': ')',
+    '*': '*',
+    '+': '=',
+    ',': '$',
+    '-': '-',
+    '.': '@',
+    '/': '/',
+    ...Object.fromEntries([...'0123456789'].map((digit) => [digit, digit])),
+    ':': '%',
+    ';': '&',
+    '<': '(',
+    '=': '=',
+    '>': ')',
+    '?': '?',
+    '@': '@',
+    ...Object.fromEntries(
+        [...'abcdefghijklmnopqrstuvwxyz'].flatMap((letter) => [
+            [letter, letter],
+            [letter.toUpperCase(), letter.toUpperCase()],
+        ])
+    ),
+    '[': '[',
+    '\\': '\\',
+    ']': ']',
+    '^': '^',
+    _: '-',
+    '`': '~',
+    '{': '{',
+    '|': '\\',
+    '}': '}',
+    '~': '~',
+};
+
+// Latin letters that don't decompose into a base letter and an accent.
+export const LATIN_LETTERS: Record<string, string> = {
+    ß: 's',
+    æ: 'a',
+    Æ: 'A',
+    œ: 'o',
+    Œ: 'O',
+    ø: 'o',
+    Ø: 'O',
+    đ: 'd',
+    Đ: 'D',
+    ð: 'd',
+    Ð: 'D',
+    ł: 'l',
+    Ł: 'L',
+    þ: 't',
+    Þ: 'T',
+    ı: 'i',
+};
+
+// The first letter of the romanization of every hiragana from ぁ (U+3041) to ゖ (U+3096), in order. Katakana follow the same order 0x60 code points later.
+export const KANA_ROMANIZATION = [
+    'a', 'a', 'i', 'i', 'u', 'u', 'e', 'e', 'o', 'o', // ぁあぃいぅうぇえぉお
+    'k', 'g', 'k', 'g', 'k', 'g', 'k', 'g', 'k', 'g', // かがきぎくぐけげこご
+    's', 'z', 's', 'j', 's', 'z', 's', 'z', 's', 'z', // さざしじすずせぜそぞ
+    't', 'd', 'c', 'j', 't', 't', 'z', 't', 'd', 't', 'd', // ただちぢっつづてでとど
+    'n', 'n', 'n', 'n', 'n', // なにぬねの
+    'h', 'b', 'p', 'h', 'b', 'p', 'f', 'b', 'p', 'h', 'b', 'p', 'h', 'b', 'p', // はばぱひびぴふぶぷへべぺほぼぽ
+    'm', 'm', 'm', 'm', 'm', // まみむめも
+    'y', 'y', 'y', 'y', 'y', 'y', // ゃやゅゆょよ
+    'r', 'r', 'r', 'r', 'r', // らりるれろ
+    'w', 'w', 'w', 'w', 'w', 'n', // ゎわゐゑをん
+    'v', 'k', 'k', // ゔゕゖ
+];
+
+// The romanization of the initial consonant of a hangul syllable, with an empty string for the silent ㅇ.
+export const HANGUL_INITIALS = [
+    'g', 'k', 'n', 'd', 't', 'r', 'm', 'b', 'p', 's', 's', '', 'j', 'j', 'c', 'k', 't', 'p', 'h',
+];
+
+// The first letter of the romanization of the vowel of a hangul syllable.
+export const HANGUL_VOWELS = [
+    'a', 'a', 'y', 'y', 'e', 'e', 'y', 'y', 'o', 'w', 'w', 'o', 'y', 'u', 'w', 'w', 'w', 'y', 'e', 'e', 'i',
+];
@@ -0,0 +1,10 @@
+export type EventSoundName = 'taskSuccess' | 'taskFailure' | 'debugStart' | 'debugStop' | 'breakpoint' | 'save';
+
+export interface EventSound {
+    /** `sfx:<name>` for a built-in sound effect, `phrase:<name>` for a villager phrase in the current voice, an absolute path to a custom file, or `none`. */
+    sound: string;
+    /** The volume of this sound, in percent, independent of the typing volume. */
+    volume: number;
+}
+
+export const EVENT_SOUND_NAMES: EventSoundName[] = ['taskSuccess', 'taskFailure', 'debugStart', 'debugStop', 'breakpoint', 'save'];
@@ -0,0 +1,5 @@
+// Sample rates offered when rendering speech to a WAV file, in Hz.
+export const RENDER_SAMPLE_RATES = [22050, 44100, 48000];
+
+// Sample rates the audio output can run at, in Hz. 0 leaves it to the output device.
+export const OUTPUT_SAMPLE_RATES = [0, 44100, 48000, 96000];
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import type { PluginSettings } from './settings/pluginSettings';
+import { resolveProfileSettings } from './settings/profiles';
+import { playKey } from './keyPress';
+
+export type CursorDirection = 'up' | 'down' | 'left' | 'right';
+
+interface CursorState {
+    position: vscode.Position;
+    version: number;
+}
+
+// Last known cursor position of every document, keyed by its URI.
+const CURSOR_STATES: Map<string, CursorState> = new Map();
+
+let lastPlayedTime = 0;
+
+/**
+ * ### Determines which way the cursor travelled between two positions.
+ * Word jumps resolve to left/right and page jumps resolve to up/down, since vertical movement always takes priority.
+ * @param previous The position of the cursor before the movement.
+ * @param current The position of the cursor after the movement.
+ * @returns {CursorDirection | null} The direction of the movement, or `null` if the cursor did not move.
+ */
+export function getCursorDirection(
+    previous: vscode.Position,
+    current: vscode.Position
+): CursorDirection | null {
+    const lineDelta = current.line - previous.line;
+    if (lineDelta !== 0) {
+        return lineDelta < 0 ? 'up' : 'down';
+    }
+
+    const characterDelta = current.character - previous.character;
+    if (characterDelta !== 0) {
+        return characterDelta < 0 ? 'left' : 'right';
+    }
+
+    return null;
+}
+
+/**
+ * ### Forgets the cursor position of a closed document.
+ * @param document The document that was closed.
+ */
+export function forgetCursorState(document: vscode.TextDocument): void {
+    CURSOR_STATES.delete(document.uri.toString());
+}
+
+/**
+ * ### Plays the arrow sound corresponding to a cursor movement made with the keyboard.
+ * Selection changes caused by edits are ignored, as the text change itself already makes a sound.
+ * @param context The extension context, used to locate the bundled sounds.
+ * @param event The selection change event fired by vscode.
+ */
+export async function handleCursorMove(
+    context: vscode.ExtensionContext,
+    event: vscode.TextEditorSelectionChangeEvent
+) {
+    const document = event.textEditor.document;
+    const documentKey = document.uri.toString();
+    const current = event.selections[0].active;
+
+    const previousState = CURSOR_STATES.get(documentKey);
+    CURSOR_STATES.set(documentKey, { position: current, version: document.version });
+
+    if (!previousState || previousState.version !== document.version) return;
+    if (event.kind !== vscode.TextEditorSelectionChangeKind.Keyboard) return;
+
+    const direction = getCursorDirection(previousState.position, current);
+    if (!direction) return;
+
+    // Holding down an arrow key fires a selection change on every repeat, so limit how often sounds are queued.
+    const profileSettings = resolveProfileSettings(document);
+    const now = Date.now();
+    if (now - lastPlayedTime < profileSettings.cursorMovement_throttle) return;
+    lastPlayedTime = now;
+
+    await playKey(context, `arrow_${direction}`, profileSettings, {
+        column: current.character,
+    });
+}
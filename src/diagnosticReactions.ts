@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { getVoiceFilePath } from './get/filePath';
+import { playAudio } from './audio';
+import type { PluginSettings } from './settings/pluginSettings';
+import { watchSettings } from './settings/settingsEvents';
+import { resolveProfileSettings } from './settings/profiles';
+import { VOICE_LIST } from './constants/voiceList';
+import { CHANNEL_MAP } from './constants/channels';
+import { isSoundOn } from './extension';
+import { getAudioEngine } from './engine/engineState';
+import { logMessage } from './outputChannel';
+
+type Reaction = 'error' | 'fix';
+
+// Each reaction is either a villager phrase, or a short phrase of sung notes.
+const REACTION_KEYS: Record<string, Record<Reaction, string[]>> = {
+    villager: { error: ['phrase_Gwah'], fix: ['phrase_OK'] },
+    melody: { error: ['8', '4', '1'], fix: ['1', '5', '8'] },
+};
+const MELODY_INTERVAL = 120; // In milliseconds
+
+// How long after an edit a new error is still blamed on typing.
+const RECENT_EDIT_WINDOW = 10000; // In milliseconds
+
+const ERROR_COUNTS: Map<string, number> = new Map();
+const LAST_EDIT_TIMES: Map<string, number> = new Map();
+let debounceTimeout: NodeJS.Timeout | null = null;
+
+/**
+ * ### Counts the errors vscode currently reports for a document.
+ * @param uri The URI of the document.
+ * @returns {number} The number of diagnostics with error severity.
+ */
+function countErrors(uri: vscode.Uri): number {
+    return vscode.languages
+        .getDiagnostics(uri)
+        .filter((d) => d.severity === vscode.DiagnosticSeverity.Error).length;
+}
+
+/**
+ * ### Works out how to react to a change in a document's error count.
+ * @param previousCount The number of errors at the last check, or `undefined` if the document wasn't checked before.
+ * @param currentCount The number of errors now.
+ * @param editedRecently Whether or not the document was typed in shortly before the change.
+ * @returns {Reaction | null} The reaction to play, or `null` if the change isn't worth reacting to.
+ */
+export function getDiagnosticReaction(
+    previousCount: number | undefined,
+    currentCount: number,
+    editedRecently: boolean
+): Reaction | null {
+    if (previousCount === undefined || !editedRecently) return null;
+    if (currentCount > previousCount) return 'error';
+    if (previousCount > 0 && currentCount === 0) return 'fix';
+    return null;
+}
+
+/**
+ * ### Plays the sounds of a reaction in the voice used for the given document.
+ * @param context The extension context, used to locate the bundled sounds.
+ * @param reaction The reaction to play.
+ * @param document The document that was reacted to.
+ * @param pluginSettings Settings of the plugin, containing the reaction style.
+ */
+function playReaction(
+    context: vscode.ExtensionContext,
+    reaction: Reaction,
+    document: vscode.TextDocument,
+    pluginSettings: PluginSettings
+): void {
+    const profileSettings = resolveProfileSettings(document);
+    const keys = (REACTION_KEYS[pluginSettings.diagnostics_reactionStyle] ?? REACTION_KEYS.villager)[
+        reaction
+    ];
+
+    keys.forEach((key, i) =>
+        setTimeout(() => {
+            const filePath = getVoiceFilePath(
+                context.extensionPath,
+                key,
+                VOICE_LIST.indexOf(profileSettings.voice),
+                profileSettings
+            );
+            playAudio(getAudioEngine(), filePath, key, CHANNEL_MAP.reaction, profileSettings).catch((e) =>
+                logMessage(`Could not play the ${reaction} reaction: ${(e as Error).message}`)
+            );
+        }, i * MELODY_INTERVAL)
+    );
+}
+
+/**
+ * ### Checks the active document's errors and reacts if they went up or were all fixed.
+ * @param context The extension context, used to locate the bundled sounds.
+ * @param pluginSettings Settings of the plugin, deciding which reactions are on.
+ */
+function checkActiveDocument(context: vscode.ExtensionContext, pluginSettings: PluginSettings): void {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document) return;
+
+    const key = document.uri.toString();
+    const previousCount = ERROR_COUNTS.get(key);
+    const currentCount = countErrors(document.uri);
+    ERROR_COUNTS.set(key, currentCount);
+
+    const editedRecently = Date.now() - (LAST_EDIT_TIMES.get(key) ?? 0) < RECENT_EDIT_WINDOW;
+    const reaction = getDiagnosticReaction(previousCount, currentCount, editedRecently);
+    if (!reaction || !isSoundOn()) return;
+    if (reaction === 'error' && !pluginSettings.diagnostics_errorReaction) return;
+    if (reaction === 'fix' && !pluginSettings.diagnostics_fixReaction) return;
+
+    playReaction(context, reaction, document, pluginSettings);
+}
+
+/**
+ * ### Starts reacting to errors appearing in or disappearing from the active document.
+ * @param context The extension context, used to locate the bundled sounds.
+ * @returns {vscode.Disposable[]} The listeners, which should be disposed of when the extension deactivates.
+ */
+export function trackDiagnostics(context: vscode.ExtensionContext): vscode.Disposable[] {
+    let pluginSettings: Readonly<PluginSettings>;
+
+    return [
+        watchSettings((newSettings) => (pluginSettings = newSettings)),
+        vscode.workspace.onDidChangeTextDocument((event) => {
+            if (!event.contentChanges.length) return;
+            LAST_EDIT_TIMES.set(event.document.uri.toString(), Date.now());
+        }),
+        vscode.workspace.onDidCloseTextDocument((document) => {
+            ERROR_COUNTS.delete(document.uri.toString());
+            LAST_EDIT_TIMES.delete(document.uri.toString());
+        }),
+        vscode.languages.onDidChangeDiagnostics((event) => {
+            const activeUri = vscode.window.activeTextEditor?.document.uri.toString();
+            if (!event.uris.some((uri) => uri.toString() === activeUri)) return;
+
+            // Language servers report errors while a word is half typed, so wait for things to settle.
+            if (debounceTimeout) clearTimeout(debounceTimeout);
+            debounceTimeout = setTimeout(() => {
+                debounceTimeout = null;
+                checkActiveDocument(context, pluginSettings);
+            }, pluginSettings.diagnostics_debounce);
+        }),
+        new vscode.Disposable(() => {
+            if (debounceTimeout) clearTimeout(debounceTimeout);
+        }),
+    ];
+}
@@ -0,0 +1,41 @@
+import * as vscode from 'vscode';
+import type { PluginSettings } from './settings/pluginSettings';
+
+/**
+ * ### Checks a value against an allow list and a deny list.
+ * @param value The value to check.
+ * @param allowed The values that are allowed. An empty list allows everything.
+ * @param denied The values that are never allowed, even if they are also in the allow list.
+ * @returns {boolean} Whether or not the value passes both lists.
+ */
+function passesLists(value: string, allowed: string[], denied: string[]): boolean {
+    if (denied.includes(value)) return false;
+    return !allowed.length || allowed.includes(value);
+}
+
+/**
+ * ### Determines whether a document should make sounds at all.
+ * Only the document in the focused editor counts, so edits to output channels, source control views and background files stay silent.
+ * @param document The document that was changed or navigated in.
+ * @param pluginSettings Settings of the plugin, containing the scheme and language filters.
+ * @returns {boolean} Whether or not sounds should be played for this document.
+ */
+export function shouldPlayForDocument(
+    document: vscode.TextDocument,
+    pluginSettings: PluginSettings
+): boolean {
+    if (vscode.window.activeTextEditor?.document !== document) return false;
+
+    return (
+        passesLists(
+            document.uri.scheme,
+            pluginSettings.filters_allowedSchemes,
+            pluginSettings.filters_deniedSchemes
+        ) &&
+        passesLists(
+            document.languageId,
+            pluginSettings.filters_allowedLanguages,
+            pluginSettings.filters_deniedLanguages
+        )
+    );
+}
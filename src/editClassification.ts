@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+
+export type EditClass =
+    | 'typed'
+    | 'multiCursor'
+    | 'paste'
+    | 'replacement'
+    | 'undoRedo'
+    | 'bulk'
+    | 'programmatic';
+
+export type EditSoundBehavior = 'once' | 'arpeggio' | 'sfx' | 'silent';
+
+// Documents that are currently being saved. Edits made to them in the meantime come from format-on-save and similar participants.
+const SAVING_DOCUMENTS: Set<string> = new Set();
+// Timers that stop treating a document as being saved, for saves that fail or are cancelled and so never report back.
+const SAVE_TIMEOUTS: Map<string, NodeJS.Timeout> = new Map();
+const SAVE_TIMEOUT = 5000; // In milliseconds
+
+/**
+ * ### Stops treating a document as being saved.
+ */
+function finishSave(uri: string): void {
+    SAVING_DOCUMENTS.delete(uri);
+    clearTimeout(SAVE_TIMEOUTS.get(uri));
+    SAVE_TIMEOUTS.delete(uri);
+}
+
+/**
+ * ### Keeps track of which documents are being saved, so edits made while saving can be told apart from typing.
+ * A document counts as saved once the save finishes, the document is closed, or a few seconds passed without the save finishing.
+ * @returns {vscode.Disposable[]} The listeners, which should be disposed of when the extension deactivates.
+ */
+export function trackDocumentSaves(): vscode.Disposable[] {
+    return [
+        vscode.workspace.onWillSaveTextDocument((event) => {
+            const uri = event.document.uri.toString();
+            finishSave(uri);
+            SAVING_DOCUMENTS.add(uri);
+            SAVE_TIMEOUTS.set(uri, setTimeout(() => finishSave(uri), SAVE_TIMEOUT));
+        }),
+        vscode.workspace.onDidSaveTextDocument((document) => finishSave(document.uri.toString())),
+        vscode.workspace.onDidCloseTextDocument((document) => finishSave(document.uri.toString())),
+        new vscode.Disposable(() => [...SAVING_DOCUMENTS].forEach(finishSave)),
+    ];
+}
+
+/**
+ * ### Checks whether a text change could have been typed by a single keypress.
+ * Covers single characters, auto-closed pairs, indentation, and newlines followed by auto-indentation.
+ * @param text The text inserted by the change.
+ * @returns {boolean} Whether or not the text looks typed.
+ */
+export function isTypedText(text: string): boolean {
+    return (
+        text.length <= 2 ||
+        /^( )+$/.test(text) ||
+        /^\r?\n[ \t]*$/.test(text)
+    );
+}
+
+/**
+ * ### Checks whether a change was made at one of the editor's cursors.
+ * Both the range before and after the edit are considered, since the selections may or may not have been updated yet.
+ * @param change The change to check.
+ * @param selections The selections of the editor showing the changed document.
+ * @returns {boolean} Whether or not any cursor lies within the changed text.
+ */
+function touchesSelection(
+    change: vscode.TextDocumentContentChangeEvent,
+    selections: readonly vscode.Selection[]
+): boolean {
+    const lines = change.text.split('\n');
+    const insertedEnd =
+        lines.length === 1
+            ? change.range.start.translate(0, change.text.length)
+            : new vscode.Position(
+                  change.range.start.line + lines.length - 1,
+                  lines[lines.length - 1].length
+              );
+    const affectedRange = change.range.union(
+        new vscode.Range(change.range.start, insertedEnd)
+    );
+
+    return selections.some((selection) =>
+        affectedRange.contains(selection.active)
+    );
+}
+
+/**
+ * ### Works out what kind of edit caused a document change.
+ * The clipboard is only read when the inserted text is too long to have been typed, since that is the only case where it decides between a paste and another kind of edit.
+ * @param event The change event fired by vscode.
+ * @param readClipboard Reads the current contents of the clipboard, used to recognise pastes.
+ * @returns {Promise<EditClass>} The kind of edit.
+ */
+export async function classifyEdit(
+    event: vscode.TextDocumentChangeEvent,
+    readClipboard: () => Thenable<string> = () => vscode.env.clipboard.readText()
+): Promise<EditClass> {
+    if (
+        event.reason === vscode.TextDocumentChangeReason.Undo ||
+        event.reason === vscode.TextDocumentChangeReason.Redo
+    ) {
+        return 'undoRedo';
+    }
+
+    if (SAVING_DOCUMENTS.has(event.document.uri.toString())) {
+        return 'bulk';
+    }
+
+    const editor = vscode.window.visibleTextEditors.find(
+        (e) => e.document === event.document
+    );
+    const changes = event.contentChanges;
+    if (
+        !editor ||
+        !changes.some((change) => touchesSelection(change, editor.selections))
+    ) {
+        return 'programmatic';
+    }
+
+    const isClipboardText = async (text: string) =>
+        text === (await readClipboard()).replaceAll('\r', '');
+
+    if (changes.length > 1) {
+        const isSameEdit = changes.every(
+            (change) =>
+                change.text === changes[0].text &&
+                change.rangeLength === changes[0].rangeLength
+        );
+        if (isSameEdit && changes.length === editor.selections.length) {
+            const text = changes[0].text.replaceAll('\r', '');
+            return !isTypedText(text) && (await isClipboardText(text)) ? 'paste' : 'multiCursor';
+        }
+        return 'bulk';
+    }
+
+    const [change] = changes;
+    const text = change.text.replaceAll('\r', '');
+    if (!text) {
+        return 'typed'; // Deletions are always treated as backspace.
+    }
+    if (isTypedText(text)) {
+        return change.rangeLength > 0 ? 'replacement' : 'typed';
+    }
+    // Long insertions at the cursor are pastes either way, so the clipboard only tells pastes over a selection apart from other replacements.
+    if (change.rangeLength > 0 && !(await isClipboardText(text))) {
+        return 'replacement';
+    }
+    return 'paste';
+}
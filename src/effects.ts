@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import type { PluginSettings } from './settings/pluginSettings';
+import { MasterBusOptions } from './engine/types';
+
+const DEFAULT_VISIBLE_COLUMNS = 80;
+
+/**
+ * ### Turns the effect settings into options for the audio engine's master bus.
+ * @param pluginSettings Settings of the plugin, containing the effect settings.
+ * @returns {MasterBusOptions} The master bus options.
+ */
+export function getMasterBusOptions(pluginSettings: PluginSettings): MasterBusOptions {
+    return {
+        lowShelf: {
+            frequency: pluginSettings.effects_eq_lowFrequency,
+            gain: pluginSettings.effects_eq_lowGain,
+        },
+        highShelf: {
+            frequency: pluginSettings.effects_eq_highFrequency,
+            gain: pluginSettings.effects_eq_highGain,
+        },
+        reverbMix: Math.min(100, Math.max(0, pluginSettings.effects_reverb_mix)) / 100,
+        reverbDecay: Math.max(0.1, pluginSettings.effects_reverb_decay),
+        compressor: pluginSettings.effects_compressor,
+    };
+}
+
+/**
+ * ### Works out how many columns of the active editor are visible.
+ * VS Code doesn't expose the editor's width, so the word wrap column is used when wrapping at it, and 80 columns otherwise.
+ * @returns {number} The number of visible columns.
+ */
+function getVisibleColumns(): number {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) return DEFAULT_VISIBLE_COLUMNS;
+
+    const editorConfig = vscode.workspace.getConfiguration('editor', editor.document);
+    const wordWrap = editorConfig.get<string>('wordWrap');
+    if (wordWrap === 'wordWrapColumn' || wordWrap === 'bounded') {
+        return editorConfig.get<number>('wordWrapColumn') ?? DEFAULT_VISIBLE_COLUMNS;
+    }
+    return DEFAULT_VISIBLE_COLUMNS;
+}
+
+/**
+ * ### Places a sound left to right based on the column it was typed at.
+ * @param column The column of the cursor.
+ * @param pluginSettings Settings of the plugin, containing the panning settings.
+ * @param visibleColumns How many columns of the editor are visible. Worked out from the active editor if left out.
+ * @returns {number} The stereo position, from -1 (left) to 1 (right), or 0 when panning is off.
+ */
+export function getColumnPan(
+    column: number,
+    pluginSettings: PluginSettings,
+    visibleColumns: number = getVisibleColumns()
+): number {
+    if (!pluginSettings.effects_panning_enabled || visibleColumns <= 0) return 0;
+
+    const position = Math.min(1, Math.max(0, column / visibleColumns));
+    const width = Math.min(100, Math.max(0, pluginSettings.effects_panning_width)) / 100;
+    return (position * 2 - 1) * width;
+}
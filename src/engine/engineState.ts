@@ -0,0 +1,43 @@
+import { AudioEngine } from './types';
+
+let engineFactory: (() => AudioEngine) | null = null;
+let sharedEngine: AudioEngine | null = null;
+
+/**
+ * ### Chooses how the shared audio engine is created. Must be called before any sound is played.
+ * @param factory Creates the engine the first time it is needed.
+ */
+export function setAudioEngineFactory(factory: () => AudioEngine): void {
+    engineFactory = factory;
+}
+
+/**
+ * ### Gets or creates the shared audio engine.
+ * @returns {AudioEngine} The shared audio engine instance.
+ */
+export function getAudioEngine(): AudioEngine {
+    if (!sharedEngine) {
+        if (!engineFactory) {
+            throw new Error('No audio engine has been set up. Call setAudioEngineFactory first.');
+        }
+        sharedEngine = engineFactory();
+    }
+    return sharedEngine;
+}
+
+/**
+ * ### Checks whether the shared audio engine has been created, without creating it.
+ * @returns {boolean} Whether or not an engine is running.
+ */
+export function hasAudioEngine(): boolean {
+    return sharedEngine !== null;
+}
+
+/**
+ * ### Closes the shared audio engine, if one was created. The next call to `getAudioEngine` creates a new one.
+ */
+export async function closeAudioEngine(): Promise<void> {
+    const engine = sharedEngine;
+    sharedEngine = null;
+    await engine?.close();
+}
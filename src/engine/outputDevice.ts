@@ -0,0 +1,42 @@
+import * as webAudio from 'node-web-audio-api';
+import { AudioContext } from 'node-web-audio-api';
+import { logMessage } from '../outputChannel';
+import { OutputContextOptions, OutputDevice } from './outputOptions';
+
+// The package provides `mediaDevices` like a browser does, but its typings leave it out.
+const { mediaDevices } = webAudio as unknown as {
+    mediaDevices: { enumerateDevices(): Promise<MediaDeviceInfo[]> };
+};
+
+/**
+ * ### Lists the audio output devices the system knows about.
+ * @returns {Promise<OutputDevice[]>} The devices, or an empty list if they can't be listed.
+ */
+export async function listOutputDevices(): Promise<OutputDevice[]> {
+    try {
+        const devices = await mediaDevices.enumerateDevices();
+        return devices
+            .filter((device) => device.kind === 'audiooutput')
+            .map(({ deviceId, label }) => ({ deviceId, label: label || deviceId }));
+    } catch (e) {
+        return [];
+    }
+}
+
+/**
+ * ### Creates an audio context playing to the chosen output.
+ * If the chosen device or sample rate can't be used, the system default is used instead, so sounds keep playing.
+ * @param options Where and how to play.
+ * @returns {AudioContext} The audio context.
+ */
+export function createOutputAudioContext(options: OutputContextOptions): AudioContext {
+    try {
+        return new AudioContext(options);
+    } catch (e) {
+        if (!options.sinkId && !options.sampleRate) throw e;
+        logMessage(
+            `Couldn't open the chosen audio output (${(e as Error).message}). Playing through the system default instead.`
+        );
+        return new AudioContext({ latencyHint: options.latencyHint });
+    }
+}
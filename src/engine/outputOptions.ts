@@ -0,0 +1,67 @@
+import type { PluginSettings } from '../settings/pluginSettings';
+
+export type LatencyCategory = 'interactive' | 'balanced' | 'playback';
+
+/** An audio output device, as listed by the audio backend. */
+export interface OutputDevice {
+    deviceId: string;
+    label: string;
+}
+
+/** Options of the audio context playing to the speakers. */
+export interface OutputContextOptions {
+    /** The id of the output device, or `undefined` for the system default. */
+    sinkId?: string;
+    latencyHint: LatencyCategory;
+    /** The sample rate in Hz, or `undefined` to use the device's own. */
+    sampleRate?: number;
+}
+
+export const LATENCY_CATEGORIES: Record<LatencyCategory, string> = {
+    interactive: 'Lowest latency, for sounds that keep up with fast typing',
+    balanced: 'A little more latency, for fewer crackles on busy machines',
+    playback: 'Most latency, for the fewest crackles and the least CPU',
+};
+
+/**
+ * ### Gets the options of the audio context from the output settings.
+ * @param pluginSettings Settings of the plugin, containing the output settings.
+ * @returns {OutputContextOptions} The options.
+ */
+export function getOutputContextOptions(pluginSettings: PluginSettings): OutputContextOptions {
+    return {
+        sinkId: pluginSettings.output_device || undefined,
+        latencyHint: pluginSettings.output_latency,
+        sampleRate: pluginSettings.output_sampleRate || undefined,
+    };
+}
+
+/**
+ * ### Works out whether a change in the list of output devices affects where sounds are played.
+ * @param previousDevices The devices at the last check, or `null` if this is the first check.
+ * @param devices The devices now.
+ * @param selectedDeviceId The id of the chosen device, or an empty string for the system default.
+ * @returns {string | null} Why the audio output has to be set up again, or `null` if it doesn't.
+ */
+export function getOutputDeviceChange(
+    previousDevices: OutputDevice[] | null,
+    devices: OutputDevice[],
+    selectedDeviceId: string
+): string | null {
+    if (!previousDevices) return null;
+
+    const previousIds = previousDevices.map((device) => device.deviceId);
+    const ids = devices.map((device) => device.deviceId);
+
+    if (selectedDeviceId) {
+        const wasConnected = previousIds.includes(selectedDeviceId);
+        const isConnected = ids.includes(selectedDeviceId);
+        if (wasConnected && !isConnected) return 'the chosen output device was disconnected';
+        if (!wasConnected && isConnected) return 'the chosen output device was connected again';
+        return null;
+    }
+
+    // Plugging in or removing a device usually changes the system default, which the audio context doesn't follow by itself.
+    const changed = ids.length !== previousIds.length || ids.some((id) => !previousIds.includes(id));
+    return changed ? 'the output devices changed' : null;
+}
@@ -0,0 +1,144 @@
+import { AudioBuffer } from 'node-web-audio-api';
+import { AudioEngine, BufferPlayback, MasterBusOptions, PlaybackHandle, TonePlayback } from './types';
+
+const RECORDING_SAMPLE_RATE = 44100;
+
+export type RecordedEvent =
+    | { type: 'decode'; time: number; byteLength: number }
+    | { type: 'playBuffer'; time: number; id: number; playback: BufferPlayback }
+    | { type: 'playTone'; time: number; id: number; playback: TonePlayback }
+    | { type: 'fadeOut'; time: number; id: number; duration: number }
+    | { type: 'stop'; time: number; id: number }
+    | { type: 'ended'; time: number; id: number }
+    | { type: 'configureMasterBus'; time: number; options: MasterBusOptions };
+
+/** An audio engine that plays nothing, and instead logs everything scheduled on it. */
+export interface RecordingAudioEngine extends AudioEngine {
+    /** Every event so far, in the order it happened. */
+    readonly events: RecordedEvent[];
+    /** Moves the engine's clock forward, ending any sound that would have finished in the meantime. */
+    advanceTime(seconds: number): void;
+}
+
+interface RecordedSound {
+    id: number;
+    endTime: number;
+    ended: boolean;
+    endedCallbacks: (() => void)[];
+}
+
+/**
+ * ### Creates a fake audio buffer whose samples are the bytes of the decoded data, scaled down to 0-1.
+ * Leading zero bytes therefore act like leading silence.
+ * @param data The "encoded" audio data.
+ * @param sampleRate The sample rate of the engine that decoded the data.
+ * @returns {AudioBuffer} A mono buffer with one sample per byte.
+ */
+function createRecordedBuffer(data: ArrayBuffer, sampleRate: number): AudioBuffer {
+    const samples = Float32Array.from(new Uint8Array(data), (byte) => byte / 255);
+    return {
+        sampleRate,
+        length: samples.length,
+        duration: samples.length / sampleRate,
+        numberOfChannels: 1,
+        getChannelData: () => samples,
+    } as unknown as AudioBuffer;
+}
+
+/**
+ * ### Creates an audio engine that logs every scheduled event with its timestamp instead of playing it.
+ * Time only moves when `advanceTime` is called, so tests are fully deterministic.
+ * @param sampleRate The sample rate the engine pretends to run at.
+ * @returns {RecordingAudioEngine} The recording audio engine.
+ */
+export function createRecordingAudioEngine(sampleRate: number = RECORDING_SAMPLE_RATE): RecordingAudioEngine {
+    const events: RecordedEvent[] = [];
+    const sounds: RecordedSound[] = [];
+    let currentTime = 0;
+    let nextId = 0;
+
+    const endSound = (sound: RecordedSound, time: number) => {
+        if (sound.ended) return;
+        sound.ended = true;
+        events.push({ type: 'ended', time, id: sound.id });
+        sound.endedCallbacks.forEach((callback) => callback());
+    };
+
+    const createHandle = (endTime: number): [number, PlaybackHandle] => {
+        const sound: RecordedSound = { id: nextId++, endTime, ended: false, endedCallbacks: [] };
+        sounds.push(sound);
+
+        const handle: PlaybackHandle = {
+            fadeOut(duration) {
+                if (sound.ended) return;
+                events.push({ type: 'fadeOut', time: currentTime, id: sound.id, duration });
+                sound.endTime = Math.min(sound.endTime, currentTime + duration);
+            },
+            stop() {
+                if (sound.ended) return;
+                events.push({ type: 'stop', time: currentTime, id: sound.id });
+                endSound(sound, currentTime);
+            },
+            onEnded(callback) {
+                if (sound.ended) {
+                    callback();
+                    return;
+                }
+                sound.endedCallbacks.push(callback);
+            },
+        };
+        return [sound.id, handle];
+    };
+
+    return {
+        events,
+
+        get currentTime() {
+            return currentTime;
+        },
+
+        sampleRate,
+
+        advanceTime(seconds: number) {
+            currentTime += seconds;
+            [...sounds]
+                .filter((sound) => !sound.ended && sound.endTime <= currentTime)
+                .sort((a, b) => a.endTime - b.endTime)
+                .forEach((sound) => endSound(sound, sound.endTime));
+        },
+
+        async decodeAudioData(data: ArrayBuffer) {
+            events.push({ type: 'decode', time: currentTime, byteLength: data.byteLength });
+            if (!data.byteLength) {
+                throw new Error('Unable to decode empty audio data.');
+            }
+            return createRecordedBuffer(data, sampleRate);
+        },
+
+        playBuffer(playback: BufferPlayback) {
+            const length = playback.duration ?? playback.buffer.duration - playback.offset;
+            const [id, handle] = createHandle(playback.startTime + length);
+            events.push({ type: 'playBuffer', time: currentTime, id, playback });
+            return handle;
+        },
+
+        playTone(playback: TonePlayback) {
+            const length = Math.max(0, ...playback.layers.map((layer) => layer.duration));
+            const [id, handle] = createHandle(playback.startTime + length);
+            events.push({ type: 'playTone', time: currentTime, id, playback });
+            return handle;
+        },
+
+        configureMasterBus(options: MasterBusOptions) {
+            events.push({ type: 'configureMasterBus', time: currentTime, options });
+        },
+
+        onFailure() {
+            // Nothing is played, so nothing can fail.
+        },
+
+        async close() {
+            sounds.forEach((sound) => endSound(sound, currentTime));
+        },
+    };
+}
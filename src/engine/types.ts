@@ -0,0 +1,81 @@
+import { AudioBuffer } from 'node-web-audio-api';
+import { ToneLayer } from '../themes/types';
+
+export interface BufferPlayback {
+    buffer: AudioBuffer;
+    /** Time the sound starts at, in the engine's timeline. */
+    startTime: number;
+    /** Seconds of the buffer to skip, used to trim leading silence. */
+    offset: number;
+    /** Pitch shift in cents. */
+    detune: number;
+    /** Volume, where 1 is the buffer's original volume. */
+    volume: number;
+    /** Seconds over which the sound fades to silence after starting, or `null` to let it ring out. */
+    falloff: number | null;
+    /** Seconds over which the sound fades in from silence, or 0 to start at full volume. */
+    fadeIn: number;
+    /** Seconds after starting at which the sound is stopped, or `null` to play the whole buffer. */
+    duration: number | null;
+    /** Stereo position, from -1 (left) to 1 (right). */
+    pan: number;
+}
+
+export interface TonePlayback {
+    layers: ToneLayer[];
+    /** Time the sound starts at, in the engine's timeline. */
+    startTime: number;
+    /** Pitch shift in cents, applied to every oscillator layer. */
+    detune: number;
+    /** Volume, which every layer's own gain is multiplied by. */
+    volume: number;
+    /** Stereo position, from -1 (left) to 1 (right). */
+    pan: number;
+}
+
+export interface ShelfFilterOptions {
+    frequency: number;
+    /** Boost or cut in decibels. */
+    gain: number;
+}
+
+/** Effects applied to everything played through an audio engine. */
+export interface MasterBusOptions {
+    lowShelf: ShelfFilterOptions;
+    highShelf: ShelfFilterOptions;
+    /** How much of the output is reverb, between 0 (dry) and 1 (fully wet). */
+    reverbMix: number;
+    /** How long the reverb takes to die out, in seconds. */
+    reverbDecay: number;
+    /** Whether or not a compressor keeps bursts of sound from clipping. */
+    compressor: boolean;
+}
+
+/** A sound that has been scheduled on an audio engine. */
+export interface PlaybackHandle {
+    /** Fades the sound out from now over the given number of seconds, then stops it. */
+    fadeOut(duration: number): void;
+    /** Stops the sound immediately. Does nothing if it has already stopped. */
+    stop(): void;
+    /** Registers a callback for when the sound has finished playing, whether it ended naturally or was stopped. */
+    onEnded(callback: () => void): void;
+}
+
+/**
+ * Everything the extension needs from an audio backend.
+ * The Web Audio implementation plays sounds, while the recording implementation only logs them for tests.
+ */
+export interface AudioEngine {
+    /** The current time of the engine's timeline, in seconds. */
+    readonly currentTime: number;
+    /** The sample rate the engine runs at, which every buffer it decodes is resampled to. */
+    readonly sampleRate: number;
+    decodeAudioData(data: ArrayBuffer): Promise<AudioBuffer>;
+    playBuffer(playback: BufferPlayback): PlaybackHandle;
+    playTone(playback: TonePlayback): PlaybackHandle;
+    /** Changes the effects applied to every sound, including sounds that are already playing. */
+    configureMasterBus(options: MasterBusOptions): void;
+    /** Registers a callback for when the engine stops playing by itself, such as when its output device disappears. */
+    onFailure(callback: (reason: string) => void): void;
+    close(): Promise<void>;
+}
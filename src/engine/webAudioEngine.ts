@@ -0,0 +1,360 @@
+import {
+    AudioContext,
+    AudioBuffer,
+    AudioBufferSourceNode,
+    AudioNode,
+    AudioScheduledSourceNode,
+    BaseAudioContext,
+    BiquadFilterNode,
+    ConvolverNode,
+    DynamicsCompressorNode,
+    GainNode,
+} from 'node-web-audio-api';
+import {
+    AudioEngine,
+    BufferPlayback,
+    MasterBusOptions,
+    PlaybackHandle,
+    TonePlayback,
+} from './types';
+
+export const DEFAULT_MASTER_BUS_OPTIONS: MasterBusOptions = {
+    lowShelf: { frequency: 250, gain: 0 },
+    highShelf: { frequency: 4000, gain: 0 },
+    reverbMix: 0,
+    reverbDecay: 1.5,
+    compressor: false,
+};
+
+interface MasterBus {
+    /** Every sound connects to this node. */
+    input: AudioNode;
+    configure(options: MasterBusOptions): void;
+}
+
+// One second of white noise per audio context, shared by every synthesized noise layer.
+const NOISE_BUFFERS: WeakMap<BaseAudioContext, AudioBuffer> = new WeakMap();
+
+/**
+ * ### Configures the gain node with volume level and applies a fade-in and natural falloff if requested.
+ * @param gainNode The gain node to configure.
+ * @param volume The volume level (0-1) to set.
+ * @param startTime The time the sound starts playing at, in the audio context's timeline.
+ * @param falloff Seconds over which the sound fades to silence, or `null` for no falloff.
+ * @param fadeIn Seconds over which the sound fades in, or 0 to start at full volume.
+ */
+function setupVolumeAndFalloff(
+    gainNode: GainNode,
+    volume: number,
+    startTime: number,
+    falloff: number | null,
+    fadeIn: number = 0
+): void {
+    if (fadeIn > 0) {
+        gainNode.gain.setValueAtTime(0, startTime);
+        gainNode.gain.linearRampToValueAtTime(volume, startTime + fadeIn);
+    } else {
+        gainNode.gain.setValueAtTime(volume, startTime);
+    }
+
+    if (falloff !== null) {
+        gainNode.gain.exponentialRampToValueAtTime(1e-5, startTime + falloff);
+    }
+}
+
+/**
+ * ### Creates and configures an audio source node.
+ * @param audioContext The audio context to create the source in.
+ * @param audioBuffer The audio buffer to play.
+ * @param pitchCents The pitch detune value in cents.
+ * @returns {AudioBufferSourceNode} The configured audio source node.
+ */
+function createAudioSource(
+    audioContext: BaseAudioContext,
+    audioBuffer: AudioBuffer,
+    pitchCents: number
+): AudioBufferSourceNode {
+    const source = audioContext.createBufferSource();
+    source.buffer = audioBuffer;
+    source.detune.value = pitchCents;
+    return source;
+}
+
+/**
+ * ### Gets a buffer of white noise for the given audio context, creating it if needed.
+ * @param audioContext The audio context the noise will be played in.
+ * @param random The random source the noise is made from.
+ * @returns {AudioBuffer} One second of white noise.
+ */
+function getNoiseBuffer(audioContext: BaseAudioContext, random: () => number): AudioBuffer {
+    let noiseBuffer = NOISE_BUFFERS.get(audioContext);
+    if (!noiseBuffer) {
+        noiseBuffer = audioContext.createBuffer(1, audioContext.sampleRate, audioContext.sampleRate);
+        const samples = noiseBuffer.getChannelData(0);
+        for (let i = 0; i < samples.length; i++) {
+            samples[i] = random() * 2 - 1;
+        }
+        NOISE_BUFFERS.set(audioContext, noiseBuffer);
+    }
+    return noiseBuffer;
+}
+
+/**
+ * ### Creates a reverb impulse response of exponentially decaying stereo noise.
+ * @param audioContext The audio context the reverb will be used in.
+ * @param decay How long the reverb takes to die out, in seconds.
+ * @param random The random source the noise is made from.
+ * @returns {AudioBuffer} The impulse response.
+ */
+function createImpulseResponse(
+    audioContext: BaseAudioContext,
+    decay: number,
+    random: () => number
+): AudioBuffer {
+    const length = Math.max(1, Math.round(audioContext.sampleRate * decay));
+    const impulse = audioContext.createBuffer(2, length, audioContext.sampleRate);
+    for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+        const samples = impulse.getChannelData(channel);
+        for (let i = 0; i < length; i++) {
+            samples[i] = (random() * 2 - 1) * Math.pow(1 - i / length, 3);
+        }
+    }
+    return impulse;
+}
+
+/**
+ * ### Builds the effects chain every sound plays through: shelf EQ, reverb and an optional compressor.
+ * @param audioContext The audio context to build the chain in.
+ * @param random The random source the reverb is made from.
+ * @returns {MasterBus} The master bus, starting with every effect turned off.
+ */
+function createMasterBus(audioContext: BaseAudioContext, random: () => number): MasterBus {
+    const lowShelf: BiquadFilterNode = audioContext.createBiquadFilter();
+    lowShelf.type = 'lowshelf';
+    const highShelf: BiquadFilterNode = audioContext.createBiquadFilter();
+    highShelf.type = 'highshelf';
+    const dryGain = audioContext.createGain();
+    const wetGain = audioContext.createGain();
+    const reverb: ConvolverNode = audioContext.createConvolver();
+    const output = audioContext.createGain();
+    const compressor: DynamicsCompressorNode = audioContext.createDynamicsCompressor();
+
+    // Set up as a limiter, which only kicks in when several loud sounds stack up.
+    compressor.threshold.value = -6;
+    compressor.knee.value = 6;
+    compressor.ratio.value = 12;
+    compressor.attack.value = 0.003;
+    compressor.release.value = 0.25;
+
+    lowShelf.connect(highShelf);
+    highShelf.connect(dryGain);
+    dryGain.connect(output);
+    reverb.connect(wetGain);
+    wetGain.connect(output);
+    compressor.connect(audioContext.destination);
+
+    let current: MasterBusOptions | null = null;
+
+    const configure = (options: MasterBusOptions) => {
+        const time = audioContext.currentTime;
+        lowShelf.frequency.setValueAtTime(options.lowShelf.frequency, time);
+        lowShelf.gain.setValueAtTime(options.lowShelf.gain, time);
+        highShelf.frequency.setValueAtTime(options.highShelf.frequency, time);
+        highShelf.gain.setValueAtTime(options.highShelf.gain, time);
+        dryGain.gain.setValueAtTime(1 - options.reverbMix, time);
+        wetGain.gain.setValueAtTime(options.reverbMix, time);
+
+        // The reverb is only kept in the chain while it can be heard, as convolution isn't cheap.
+        const reverbWasOn = !!current && current.reverbMix > 0;
+        if (options.reverbMix > 0 && (!reverbWasOn || current!.reverbDecay !== options.reverbDecay)) {
+            reverb.buffer = createImpulseResponse(audioContext, options.reverbDecay, random);
+        }
+        if (options.reverbMix > 0 && !reverbWasOn) highShelf.connect(reverb);
+        if (options.reverbMix <= 0 && reverbWasOn) highShelf.disconnect(reverb);
+
+        if (options.compressor !== current?.compressor) {
+            output.disconnect();
+            output.connect(options.compressor ? compressor : audioContext.destination);
+        }
+
+        current = options;
+    };
+    configure(DEFAULT_MASTER_BUS_OPTIONS);
+
+    return { input: lowShelf, configure };
+}
+
+/**
+ * ### Wraps scheduled sources and the gain node they play through into a playback handle.
+ * @param sources The sources making up the sound. The last one to end decides when the sound has ended.
+ * @param gainNode The gain node every source plays through.
+ * @param endSource The source that ends last.
+ * @returns {PlaybackHandle} The handle controlling the sound.
+ */
+function createPlaybackHandle(
+    sources: AudioScheduledSourceNode[],
+    gainNode: GainNode,
+    endSource: AudioScheduledSourceNode
+): PlaybackHandle {
+    const endedCallbacks: (() => void)[] = [];
+    let ended = false;
+
+    endSource.onended = () => {
+        ended = true;
+        endedCallbacks.forEach((callback) => callback());
+    };
+
+    const stop = () => {
+        sources.forEach((source) => {
+            try {
+                source.stop();
+            } catch (e) {
+                // Source may have already stopped
+            }
+        });
+    };
+
+    return {
+        fadeOut(duration) {
+            const currentTime = gainNode.context.currentTime;
+            gainNode.gain.cancelScheduledValues(currentTime);
+            gainNode.gain.setValueAtTime(gainNode.gain.value, currentTime);
+            gainNode.gain.linearRampToValueAtTime(0, currentTime + duration);
+            setTimeout(stop, duration * 1000);
+        },
+        stop,
+        onEnded(callback) {
+            if (ended) {
+                callback();
+                return;
+            }
+            endedCallbacks.push(callback);
+        },
+    };
+}
+
+/**
+ * ### Creates an audio engine that plays through a Web Audio context.
+ * @param audioContext The context to play in. May be an offline context, in which case nothing is heard until it is rendered.
+ * @param random The random source the reverb and noise are made from. Renders pass a seeded one, so they come out the same every time.
+ * @returns {AudioEngine} The audio engine.
+ */
+export function createWebAudioEngine(
+    audioContext: BaseAudioContext = new AudioContext(),
+    random: () => number = Math.random
+): AudioEngine {
+    const masterBus = createMasterBus(audioContext, random);
+    const failureCallbacks: ((reason: string) => void)[] = [];
+    let closing = false;
+
+    // Only the system suspends or closes the context while it is in use, usually because the output device went away.
+    if (audioContext instanceof AudioContext) {
+        const fail = (reason: string) => failureCallbacks.forEach((callback) => callback(reason));
+        audioContext.onstatechange = () => {
+            if (closing) return;
+            if (audioContext.state === 'suspended') {
+                audioContext.resume().catch(() => fail('the audio output was suspended and could not be resumed'));
+            } else if (audioContext.state === 'closed') {
+                fail('the audio output was closed');
+            }
+        };
+    }
+
+    /**
+     * Connects a sound's output to the master bus, through a stereo panner if it isn't centred.
+     */
+    const connectToMasterBus = (node: AudioNode, pan: number) => {
+        if (pan === 0) {
+            node.connect(masterBus.input);
+            return;
+        }
+        const panner = audioContext.createStereoPanner();
+        panner.pan.value = Math.max(-1, Math.min(1, pan));
+        node.connect(panner);
+        panner.connect(masterBus.input);
+    };
+
+    return {
+        get currentTime() {
+            return audioContext.currentTime;
+        },
+
+        get sampleRate() {
+            return audioContext.sampleRate;
+        },
+
+        decodeAudioData(data: ArrayBuffer) {
+            return audioContext.decodeAudioData(data);
+        },
+
+        playBuffer(playback: BufferPlayback) {
+            const source = createAudioSource(audioContext, playback.buffer, playback.detune);
+            const gainNode = audioContext.createGain();
+            setupVolumeAndFalloff(
+                gainNode,
+                playback.volume,
+                playback.startTime,
+                playback.falloff,
+                playback.fadeIn
+            );
+
+            source.connect(gainNode);
+            connectToMasterBus(gainNode, playback.pan);
+            source.start(playback.startTime, playback.offset);
+            if (playback.duration !== null) {
+                source.stop(playback.startTime + playback.duration);
+            }
+
+            return createPlaybackHandle([source], gainNode, source);
+        },
+
+        playTone(playback: TonePlayback) {
+            const { startTime } = playback;
+            const outputNode = audioContext.createGain();
+            connectToMasterBus(outputNode, playback.pan);
+
+            const sources = playback.layers.map((layer) => {
+                let source: AudioScheduledSourceNode;
+                if (layer.waveform === 'noise') {
+                    source = createAudioSource(audioContext, getNoiseBuffer(audioContext, random), 0);
+                } else {
+                    const oscillator = audioContext.createOscillator();
+                    oscillator.type = layer.waveform;
+                    oscillator.detune.value = layer.detune + playback.detune;
+                    source = oscillator;
+                }
+
+                const gainNode = audioContext.createGain();
+                setupVolumeAndFalloff(gainNode, playback.volume * layer.gain, startTime, layer.duration);
+
+                source.connect(gainNode);
+                gainNode.connect(outputNode);
+                source.start(startTime);
+                source.stop(startTime + layer.duration);
+                return source;
+            });
+
+            // The longest layer decides when the whole sound has ended.
+            const longestLayer = playback.layers.reduce(
+                (longest, layer, i) => (layer.duration > playback.layers[longest].duration ? i : longest),
+                0
+            );
+            return createPlaybackHandle(sources, outputNode, sources[longestLayer]);
+        },
+
+        configureMasterBus(options: MasterBusOptions) {
+            masterBus.configure(options);
+        },
+
+        onFailure(callback) {
+            failureCallbacks.push(callback);
+        },
+
+        async close() {
+            closing = true;
+            if (audioContext instanceof AudioContext) {
+                await audioContext.close();
+            }
+        },
+    };
+}
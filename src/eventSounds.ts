@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { getEventFilePath } from './get/filePath';
+import { playAudio } from './audio';
+import type { PluginSettings } from './settings/pluginSettings';
+import { watchSettings } from './settings/settingsEvents';
+import { VOICE_LIST } from './constants/voiceList';
+import { CHANNEL_MAP } from './constants/channels';
+import { isSoundOn } from './extension';
+import { getAudioEngine } from './engine/engineState';
+import { EventSoundName } from './constants/eventSounds';
+import { logMessage } from './outputChannel';
+
+// Reasons a debug session stops that count as hitting a breakpoint, rather than stepping or pausing.
+const BREAKPOINT_REASONS = ['breakpoint', 'function breakpoint', 'data breakpoint', 'instruction breakpoint'];
+
+/**
+ * ### Plays the sound configured for a workbench event, if event sounds are on.
+ * Event sounds have a mixer channel of their own, so they never cut off typing sounds.
+ * @param context The extension context, used to locate the bundled sounds.
+ * @param name The event that happened.
+ * @param pluginSettings Settings of the plugin, containing the event sound settings.
+ * @returns {Promise<void>} Resolves once the sound has started. Sounds that fail to play are reported rather than rejected.
+ */
+export async function playEventSound(
+    context: vscode.ExtensionContext,
+    name: EventSoundName,
+    pluginSettings: PluginSettings
+): Promise<void> {
+    if (!pluginSettings.eventSounds_enabled || !isSoundOn()) return;
+
+    const eventSound = pluginSettings.eventSounds_sounds[name];
+    const filePath = getEventFilePath(
+        context.extensionPath,
+        eventSound.sound,
+        VOICE_LIST.indexOf(pluginSettings.voice),
+        pluginSettings
+    );
+    if (eventSound.sound === 'none') return;
+    if (!filePath) {
+        logMessage(`Could not find the ${name} event sound "${eventSound.sound}".`);
+        return;
+    }
+    if (!fs.existsSync(filePath)) {
+        vscode.window.showErrorMessage(
+            `The sound for the ${name} event does not exist. Please change it in the eventSounds.sounds setting to a valid path.`
+        );
+        return;
+    }
+
+    // Events always sound the same, so only the event's own volume is used.
+    const eventSettings = {
+        ...pluginSettings,
+        volume: eventSound.volume,
+        intonation_pitchShift: 0,
+        intonation_pitchVariation: 0,
+    };
+    await playAudio(getAudioEngine(), filePath, name, CHANNEL_MAP.event, eventSettings).catch((e) =>
+        logMessage(`Could not play the ${name} event sound: ${(e as Error).message}`)
+    );
+}
+
+/**
+ * ### Starts playing sounds for finished tasks, debug sessions, breakpoint hits and saves.
+ * @param context The extension context, used to locate the bundled sounds.
+ * @returns {vscode.Disposable[]} The listeners, which should be disposed of when the extension deactivates.
+ */
+export function trackWorkbenchEvents(context: vscode.ExtensionContext): vscode.Disposable[] {
+    let pluginSettings: Readonly<PluginSettings>;
+
+    return [
+        watchSettings((newSettings) => (pluginSettings = newSettings)),
+        vscode.tasks.onDidEndTaskProcess((event) => {
+            if (event.exitCode === undefined) return;
+            playEventSound(context, event.exitCode === 0 ? 'taskSuccess' : 'taskFailure', pluginSettings);
+        }),
+        // Child sessions, such as the workers of a browser debugger, are part of the session that started them.
+        vscode.debug.onDidStartDebugSession((session) => {
+            if (!session.parentSession) playEventSound(context, 'debugStart', pluginSettings);
+        }),
+        vscode.debug.onDidTerminateDebugSession((session) => {
+            if (!session.parentSession) playEventSound(context, 'debugStop', pluginSettings);
+        }),
+        vscode.debug.registerDebugAdapterTrackerFactory('*', {
+            createDebugAdapterTracker: () => ({
+                onDidSendMessage: (message) => {
+                    if (message.type !== 'event' || message.event !== 'stopped') return;
+                    if (BREAKPOINT_REASONS.includes(message.body?.reason)) {
+                        playEventSound(context, 'breakpoint', pluginSettings);
+                    }
+                },
+            }),
+        }),
+        // Only saves made on purpose count, so auto save doesn't play a sound every few seconds.
+        vscode.workspace.onWillSaveTextDocument((event) => {
+            if (event.reason === vscode.TextDocumentSaveReason.Manual) playEventSound(context, 'save', pluginSettings);
+        }),
+    ];
+}
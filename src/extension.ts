@@ -1,153 +1,229 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import { AudioContext } from 'node-web-audio-api';
-import { getFilePath } from './get/filePath';
-import { settings } from './settings/pluginSettings';
-import { loadSettings } from './settings/loadSettings';
+import type { PluginSettings } from './settings/pluginSettings';
+import { forgetDocumentSettings, loadSettings } from './settings/loadSettings';
 import { getToggleCommand } from './commands/toggle';
 import { getEnableCommand } from './commands/enable';
 import { getDisableCommand } from './commands/disable';
 import { getSetVoiceCommand } from './commands/setVoice';
 import { getSetVolumeCommand } from './commands/setVolume';
-import { VOICE_LIST } from './constants/voiceList';
-import { playAudio, cleanupChannels } from './audio';
-import { isAlphabetical, isHarmonic } from './charTypeChecks';
+import { getSpeakSelectionCommand } from './commands/speakSelection';
+import { getStopSpeakingCommand } from './commands/stopSpeaking';
+import { getRenderToWavCommand } from './commands/renderToWav';
+import { getSetSoundThemeCommand } from './commands/setSoundTheme';
+import { getShowMenuCommand } from './commands/showMenu';
+import { getShowSampleCacheStatsCommand } from './commands/showSampleCacheStats';
+import { getShowTypingRecapCommand } from './commands/showTypingRecap';
+import { getExportTypingStatsCommand } from './commands/exportTypingStats';
+import { getDeleteTypingStatsCommand } from './commands/deleteTypingStats';
+import { cleanupChannels } from './mixer';
+import { forgetCursorState, handleCursorMove } from './cursorMovement';
+import { loadVoicePacks } from './voicePack';
+import { setSampleCacheBudget } from './get/audioData';
+import { disposeCustomSoundWatchers, preloadVoice, updateCustomSoundWatchers } from './samplePreload';
+import { disposeSpeech } from './speech';
+import { trackDiagnostics } from './diagnosticReactions';
+import { createStatusBarItem, updateStatusBarItem } from './statusBar';
+import { shouldPlayForDocument } from './documentFilter';
+import { classifyEdit, trackDocumentSaves } from './editClassification';
+import { handleKeyPress, recordKeyPress } from './keyPress';
+import { closeAudioEngine, getAudioEngine, setAudioEngineFactory } from './engine/engineState';
+import { createWebAudioEngine } from './engine/webAudioEngine';
+import { getMasterBusOptions } from './effects';
+import { loadTypingStats, saveTypingStats } from './stats/statsStore';
+import { onDidChangeSettings, watchSettings } from './settings/settingsEvents';
+import { migrateSettings } from './settings/migrations';
+import { disposeOutputChannel, logMessage } from './outputChannel';
+import {
+    cancelSnooze,
+    clearAutoMuteOverride,
+    getMuteReason,
+    isAutoMuteOverridden,
+    overrideAutoMute,
+    trackAutoMute,
+} from './autoMute/autoMuteState';
+import type { MuteRule } from './autoMute/muteRules';
+import { getSnoozeCommand } from './commands/snooze';
+import { getToggleTerminalSoundsCommand } from './commands/toggleTerminalSounds';
+import { trackTerminalCommands } from './terminal/terminalSounds';
+import { trackWorkbenchEvents } from './eventSounds';
+import { trackAudioOutput } from './audioOutput';
+import { createOutputAudioContext } from './engine/outputDevice';
+import { getOutputContextOptions } from './engine/outputOptions';
+import { getSelectAudioOutputCommand } from './commands/selectAudioOutput';
+import { getTestAudioOutputCommand } from './commands/testAudioOutput';
+
+const ENABLED_STATE_KEY = 'extensionEnabled';
+
+let extensionContext: vscode.ExtensionContext | null = null;
 
 export let extensionEnabled = true;
-export const setExtensionEnabled = (val: boolean) => (extensionEnabled = val);
-
-// Channel assignments for different sound types
-const CHANNEL_MAP = {
-    voice: 1,
-    melodic: 3,
-    sfx: 2,
-} as const;
 
 /**
- * ### Assigns a channel number based on the key type.
- * @param key The keyboard input character.
- * @returns {number} The channel number (1 for voice, 2 for SFX, 3 for melodic).
+ * ### Turns sounds on or off, cancelling any snooze. The choice is remembered across window reloads.
+ * @param val Whether or not sounds should play.
  */
-function assignKeyToChannel(key: string): number {
-    switch (true) {
-        case isAlphabetical(key):
-            return CHANNEL_MAP.voice;
-        case isHarmonic(key):
-            return CHANNEL_MAP.melodic;
-        default:
-            return CHANNEL_MAP.sfx;
-    }
-}
-
-let sharedAudioContext: AudioContext | null = null;
+export const setExtensionEnabled = (val: boolean) => {
+    extensionEnabled = val;
+    extensionContext?.globalState.update(ENABLED_STATE_KEY, val);
+    cancelSnooze();
+    updateStatusBarItem();
+};
 
 /**
- * ### Gets or creates the shared audio context.
- * @returns {AudioContext} The shared audio context instance.
+ * ### Checks whether sounds play right now, being enabled and not muted by any rule.
+ * @param exemptRules Mute rules to leave out, for sounds that play despite them.
  */
-function getSharedAudioContext(): AudioContext {
-    if (!sharedAudioContext) {
-        sharedAudioContext = new AudioContext();
-    }
-    return sharedAudioContext;
+export function isSoundOn(exemptRules: MuteRule[] = []): boolean {
+    return extensionEnabled && !getMuteReason(exemptRules);
 }
 
 /**
- * Extracts the key character from a text document change event.
- * Handles special cases like tab (multiple spaces) and backspace.
+ * ### Turns sounds on or off by hand.
+ * Turning them on also plays sounds despite any mute rule, until the rules change. Turning them off while a rule applies leaves it to the rule, so sounds come back once it no longer applies.
+ * @param on Whether or not sounds should play.
  */
-function extractKeyFromEvent(event: vscode.TextDocumentChangeEvent): string {
-    let key = event.contentChanges[0].text.replaceAll('\r', '').slice(0, 1);
-
-    // Multiple spaces = tab
-    if (/^( ){2,}$/.test(event.contentChanges[0].text)) {
-        key = 'tab';
+export function setSoundOn(on: boolean): void {
+    if (on) {
+        setExtensionEnabled(true);
+        overrideAutoMute();
+    } else if (extensionEnabled && isAutoMuteOverridden()) {
+        clearAutoMuteOverride();
+    } else {
+        setExtensionEnabled(false);
     }
-
-    // Text deletion = backspace
-    if (event.contentChanges[0].rangeLength > 0) {
-        key = 'backspace';
-    }
-
-    return key;
 }
 
-/**
- * Validates that the audio file path exists and shows error messages if needed.
- */
-function validateAudioFilePath(filePath: string, key: string): boolean {
-    if (!fs.existsSync(filePath) && settings.soundOverride) {
-        if (settings.soundOverride) {
-            vscode.window.showErrorMessage(
-                'The provided custom sound does not exist. Please change the soundOverride parameter to a valid path.'
-            );
-        } else {
-            vscode.window.showErrorMessage(
-                `An unknown error occurred trying to find the sound file corresponding to key ${key}. Please raise an issue on the GitHub repository with the file path "${filePath}".`
-            );
-        }
-        return false;
-    }
-    return true;
-}
-
-
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
+    // Settings are only read once they are in their current layout.
+    await migrateSettings(context).catch((e) =>
+        logMessage(`Could not migrate the settings: ${(e as Error).message}`)
+    );
     loadSettings(true);
+    // Assigned right away by `watchSettings`, then kept up to date.
+    let pluginSettings!: Readonly<PluginSettings>;
+    context.subscriptions.push(watchSettings((newSettings) => (pluginSettings = newSettings)));
+    setSampleCacheBudget(pluginSettings.sampleCache_memoryBudget);
+
+    setAudioEngineFactory(() => {
+        const engine = createWebAudioEngine(createOutputAudioContext(getOutputContextOptions(pluginSettings)));
+        engine.configureMasterBus(getMasterBusOptions(pluginSettings));
+        return engine;
+    });
 
-    getSharedAudioContext();
+    extensionContext = context;
+    extensionEnabled = context.globalState.get<boolean>(ENABLED_STATE_KEY, true);
+
+    // Voice packs decide which files the active voice uses, so sounds are only preloaded once they are loaded.
+    const onVoicePacksLoaded = () => {
+        updateStatusBarItem();
+        updateCustomSoundWatchers(pluginSettings);
+        preloadVoice(context.extensionPath, pluginSettings);
+    };
+    const reloadVoicePacks = async (voicePackSettings: Readonly<PluginSettings>) => {
+        try {
+            await loadVoicePacks(getAudioEngine(), voicePackSettings);
+            onVoicePacksLoaded();
+        } catch (e) {
+            logMessage(`Could not load the voice packs: ${(e as Error).message}`);
+        }
+    };
+    reloadVoicePacks(pluginSettings);
+    loadTypingStats(context).catch((e) =>
+        logMessage(`Could not load the typing statistics: ${(e as Error).message}`)
+    );
 
     vscode.workspace.onDidChangeConfiguration((event) => {
         if (!event.affectsConfiguration('vscode-animalese')) return;
         loadSettings(false); // Needed to update the `settings` variable for immediate effect.
     });
 
+    const settingsListener = onDidChangeSettings((event) => {
+        if (event.affects('voicePack') || event.affects('voicePacks')) {
+            reloadVoicePacks(event.settings);
+        } else if (['voice', 'soundOverride', 'soundTheme', 'specialPunctuation'].some(event.affects)) {
+            updateCustomSoundWatchers(event.settings);
+            preloadVoice(context.extensionPath, event.settings);
+        }
+
+        if (event.affects('effects')) {
+            getAudioEngine().configureMasterBus(getMasterBusOptions(event.settings));
+        }
+
+        if (event.affects('sampleCache')) {
+            setSampleCacheBudget(event.settings.sampleCache_memoryBudget);
+        }
+    });
+    context.subscriptions.push(settingsListener);
+
     const commands = [
         getToggleCommand(),
         getEnableCommand(),
         getDisableCommand(),
         getSetVoiceCommand(),
         getSetVolumeCommand(),
+        getSetSoundThemeCommand(),
+        getSpeakSelectionCommand(context),
+        getStopSpeakingCommand(),
+        getRenderToWavCommand(context),
+        getShowMenuCommand(),
+        getShowSampleCacheStatsCommand(),
+        getShowTypingRecapCommand(context),
+        getExportTypingStatsCommand(),
+        getDeleteTypingStatsCommand(),
+        getSnoozeCommand(),
+        getToggleTerminalSoundsCommand(),
+        getSelectAudioOutputCommand(),
+        getTestAudioOutputCommand(),
     ];
 
-    context.subscriptions.push(...commands);
+    context.subscriptions.push(
+        ...commands,
+        createStatusBarItem(),
+        vscode.window.onDidChangeActiveTextEditor(() => updateStatusBarItem()),
+        vscode.workspace.onDidCloseTextDocument(forgetDocumentSettings),
+        vscode.workspace.onDidCloseTextDocument(forgetCursorState),
+        ...trackDocumentSaves(),
+        ...trackDiagnostics(context),
+        ...trackAutoMute(),
+        ...trackTerminalCommands(context),
+        ...trackWorkbenchEvents(context),
+        ...trackAudioOutput(context)
+    );
 
-    vscode.workspace.onDidChangeTextDocument((event) => {
-        if (!extensionEnabled || !event.contentChanges.length) return;
+    vscode.workspace.onDidChangeTextDocument(async (event) => {
+        if (!event.contentChanges.length) return;
+        if (!isSoundOn() && !pluginSettings.stats_enabled) return;
 
-        handleKeyPress(context, event);
-    });
-}
-
-export function deactivate() {
+        try {
+            // Typed keys count towards the statistics even when they aren't heard.
+            const editClass = await classifyEdit(event);
+            recordKeyPress(event, editClass);
+            if (!isSoundOn() || !shouldPlayForDocument(event.document, pluginSettings)) return;
 
-    cleanupChannels();
+            await handleKeyPress(context, event, editClass);
+        } catch (e) {
+            logMessage(`Could not play the sound of an edit: ${(e as Error).message}`);
+        }
+    });
 
-    if (sharedAudioContext) {
-        sharedAudioContext.close();
-        sharedAudioContext = null;
-    }
-}
+    context.subscriptions.push(
+        vscode.window.onDidChangeTextEditorSelection((event) => {
+            if (!isSoundOn() || !pluginSettings.cursorMovement_enabled) return;
+            if (!shouldPlayForDocument(event.textEditor.document, pluginSettings)) return;
 
-export async function handleKeyPress(
-    context: vscode.ExtensionContext,
-    event: vscode.TextDocumentChangeEvent
-) {
-    const key = extractKeyFromEvent(event);
-
-    const filePath = getFilePath(
-        context.extensionPath,
-        key,
-        VOICE_LIST.indexOf(settings.voice),
-        settings
+            handleCursorMove(context, event).catch((e) =>
+                logMessage(`Could not play the sound of a cursor movement: ${(e as Error).message}`)
+            );
+        })
     );
+}
 
-    if (!validateAudioFilePath(filePath, key)) {
-        return;
-    }
-
-    const channel = assignKeyToChannel(key);
+export function deactivate() {
+    cleanupChannels();
+    disposeSpeech();
+    disposeCustomSoundWatchers();
+    disposeOutputChannel();
 
-    const audioContext = getSharedAudioContext();
-    await playAudio(audioContext, filePath, key, channel);
+    closeAudioEngine();
+    return saveTypingStats();
 }
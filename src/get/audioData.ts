@@ -1,58 +1,249 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-
-const BUFFER_CACHE: Map<string, AudioBuffer> = new Map();
-const DELAY_CACHE: Map<string, number> = new Map();
+import { AudioEngine } from '../engine/types';
+import { DEFAULT_SETTINGS } from '../settings/pluginSettings';
 
 interface AudioData {
     audioBuffer: AudioBuffer;
     delay: number;
 }
 
+interface CachedAudioData extends AudioData {
+    /** Estimated size of the decoded samples, in bytes. */
+    size: number;
+}
+
+export interface SampleCacheStats {
+    samples: number;
+    /** Estimated size of every decoded sample, in bytes. */
+    memory: number;
+    /** The memory budget, in bytes. */
+    budget: number;
+    hits: number;
+    misses: number;
+}
+
+// Decoded samples, keyed by `getSampleKey` and ordered from least to most recently used.
+const SAMPLE_CACHE: Map<string, CachedAudioData> = new Map();
+// Decodes that are still running, so concurrent requests for the same file share one.
+const PENDING_DECODES: Map<string, Promise<CachedAudioData>> = new Map();
+
+let cacheMemory = 0;
+// The memory budget in bytes, as set with `setSampleCacheBudget`.
+let memoryBudget = toBytes(DEFAULT_SETTINGS.sampleCache_memoryBudget);
+let cacheHits = 0;
+let cacheMisses = 0;
+
+// Bumped whenever the whole cache is emptied, and per file whenever a single file is invalidated, so decodes started before that don't refill the cache with stale data.
+let cacheGeneration = 0;
+const FILE_GENERATIONS: Map<string, number> = new Map();
+
+/**
+ * ### Converts a memory budget from megabytes to bytes, treating negative budgets as 0.
+ */
+function toBytes(megabytes: number): number {
+    return Math.max(0, megabytes) * 1024 * 1024;
+}
+
+/**
+ * ### Gets the key a file is cached under when decoded by an engine.
+ * Decoding resamples a file to the engine's sample rate, so renders at other rates never share buffers with the live output.
+ * @param filePath The path of the file.
+ * @param engine The audio engine decoding the file.
+ * @returns {string} The cache key.
+ */
+function getSampleKey(filePath: string, engine: AudioEngine): string {
+    return `${engine.sampleRate}|${filePath}`;
+}
+
+/**
+ * ### Gets how often a file's cached data has been invalidated, counting invalidations of the whole cache.
+ */
+function getFileGeneration(filePath: string): string {
+    return `${cacheGeneration}|${FILE_GENERATIONS.get(filePath) ?? 0}`;
+}
+
+/**
+ * ### Checks whether a cache key belongs to a file, whatever sample rate it was decoded at.
+ */
+function isSampleOf(sampleKey: string, filePath: string): boolean {
+    return sampleKey.slice(sampleKey.indexOf('|') + 1) === filePath;
+}
+
+/**
+ * ### Evicts the least recently used samples until the cache fits in its memory budget.
+ * The most recently used sample is always kept, so a single oversized sample can still be played.
+ */
+function enforceSampleCacheBudget(): void {
+    for (const [sampleKey, sample] of SAMPLE_CACHE) {
+        if (cacheMemory <= memoryBudget || SAMPLE_CACHE.size <= 1) break;
+        SAMPLE_CACHE.delete(sampleKey);
+        cacheMemory -= sample.size;
+    }
+}
+
+/**
+ * ### Changes how much memory the sample cache may use, evicting samples right away if the budget was lowered.
+ * @param megabytes The new budget, from the `sampleCache.memoryBudget` setting.
+ */
+export function setSampleCacheBudget(megabytes: number): void {
+    memoryBudget = toBytes(megabytes);
+    enforceSampleCacheBudget();
+}
+
+/**
+ * ### Reads and decodes a file, working out how much leading silence to skip.
+ * @param filePath The path of the file to load.
+ * @param engine The audio engine used to decode the file.
+ * @returns The decoded audio, its delay and its estimated size.
+ */
+async function decodeAudioFile(filePath: string, engine: AudioEngine): Promise<CachedAudioData> {
+    const initialBuffer = await fs.promises.readFile(filePath);
+    const fileBuffer = initialBuffer.buffer.slice(
+        initialBuffer.byteOffset,
+        initialBuffer.byteOffset + initialBuffer.byteLength
+    ); // Strip metadata from audio buffer
+    const audioBuffer = await engine.decodeAudioData(fileBuffer);
+
+    let delay = 0;
+    const audioValues = audioBuffer.getChannelData(0);
+    // The following loop is necessary to trim silence from the start of the audio. It will only be run once, then the cache will handle it.
+    for (let i = 0; i < audioValues.length; i++) {
+        if (audioValues[i] !== 0) {
+            delay = i / audioBuffer.sampleRate;
+            break;
+        }
+    }
+
+    return {
+        audioBuffer,
+        delay,
+        size: audioBuffer.length * audioBuffer.numberOfChannels * Float32Array.BYTES_PER_ELEMENT,
+    };
+}
+
+/**
+ * ### Gets a decoded file from the cache, decoding it if it isn't cached yet.
+ * @param filePath The path of the file to load.
+ * @param engine The audio engine used to decode the file.
+ * @param recordStats Whether or not this request counts towards the hit rate.
+ * @returns The cached audio data.
+ */
+async function loadAudioData(
+    filePath: string,
+    engine: AudioEngine,
+    recordStats: boolean = true
+): Promise<CachedAudioData> {
+    const sampleKey = getSampleKey(filePath, engine);
+    const cachedSample = SAMPLE_CACHE.get(sampleKey);
+    if (cachedSample) {
+        if (recordStats) cacheHits++;
+        // Move the sample to the end, marking it as the most recently used.
+        SAMPLE_CACHE.delete(sampleKey);
+        SAMPLE_CACHE.set(sampleKey, cachedSample);
+        return cachedSample;
+    }
+    if (recordStats) cacheMisses++;
+
+    let pendingDecode = PENDING_DECODES.get(sampleKey);
+    if (!pendingDecode) {
+        const generation = getFileGeneration(filePath);
+        pendingDecode = decodeAudioFile(filePath, engine)
+            .then((sample) => {
+                if (generation === getFileGeneration(filePath) && !SAMPLE_CACHE.has(sampleKey)) {
+                    SAMPLE_CACHE.set(sampleKey, sample);
+                    cacheMemory += sample.size;
+                    enforceSampleCacheBudget();
+                }
+                return sample;
+            })
+            .finally(() => {
+                if (PENDING_DECODES.get(sampleKey) === pendingDecode) {
+                    PENDING_DECODES.delete(sampleKey);
+                }
+            });
+        PENDING_DECODES.set(sampleKey, pendingDecode);
+    }
+    return pendingDecode;
+}
+
 /**
  * ### Given a file, returns the data of the audio that should be played.
  * @param filePath The path of the file to load.
- * @param context The given audio context to play the audio in.
+ * @param engine The audio engine used to decode the file.
  * @returns {AudioBuffer} A buffer containing all audio data to be played.
  * @returns {number} The amount of time, in seconds, to skip forward in order to avoid playing silence.
  */
 export default async function getAudioData(
     filePath: string,
-    context: AudioContext
+    engine: AudioEngine
 ): Promise<AudioData> {
-    let audioBuffer: AudioBuffer;
-    let cachedBuffer = BUFFER_CACHE.get(filePath);
-    let cachedDelay = DELAY_CACHE.get(filePath);
-    let delay = 0;
-    if (cachedBuffer && cachedDelay) {
-        // Bypass doing computationally intensive tasks
-        return { audioBuffer: cachedBuffer, delay: cachedDelay };
-    }
-    const initialBuffer = fs.readFileSync(filePath);
-    const fileBuffer = initialBuffer.buffer.slice(
-        initialBuffer.byteOffset,
-        initialBuffer.byteOffset + initialBuffer.byteLength
-    ); // Strip metadata from audio buffer
+    let sample: CachedAudioData;
     try {
-        audioBuffer = await context.decodeAudioData(fileBuffer);
+        sample = await loadAudioData(filePath, engine);
     } catch (e) {
+        if ((e as NodeJS.ErrnoException).code) throw e; // Reading the file failed, rather than decoding it.
         vscode.window.showErrorMessage(
             'The provided custom sound is not a valid audio type.'
         );
         throw new Error('The provided custom sound is not a valid audio type.');
     }
 
-    const audioValues = audioBuffer.getChannelData(0);
-    // The following loop is necessary to trim silence from the start of the audio. It will only be run once, then the cache will handle it.
-    for (let i = 0; i < audioValues.length; i++) {
-        if (audioValues[i] !== 0) {
-            delay = i / audioBuffer.sampleRate;
-            break;
+    return { audioBuffer: sample.audioBuffer, delay: sample.delay };
+}
+
+/**
+ * ### Decodes files into the cache ahead of time, one after the other. Files that fail to load are skipped silently.
+ * @param filePaths The paths of the files to load.
+ * @param engine The audio engine used to decode the files.
+ */
+export async function preloadAudioData(filePaths: string[], engine: AudioEngine): Promise<void> {
+    for (const filePath of new Set(filePaths)) {
+        if (SAMPLE_CACHE.has(getSampleKey(filePath, engine))) continue;
+        try {
+            await loadAudioData(filePath, engine, false);
+        } catch (e) {
+            // The error is reported if the file is ever played.
         }
     }
+}
 
-    BUFFER_CACHE.set(filePath, audioBuffer);
-    DELAY_CACHE.set(filePath, delay);
+/**
+ * ### Removes a file from the cache at every sample rate, so it is read from disk again the next time it is played.
+ * @param filePath The path of the file to remove. Leave out to empty the whole cache.
+ */
+export function invalidateAudioData(filePath?: string): void {
+    if (filePath === undefined) {
+        cacheGeneration++;
+        FILE_GENERATIONS.clear();
+        SAMPLE_CACHE.clear();
+        PENDING_DECODES.clear();
+        cacheMemory = 0;
+        return;
+    }
 
-    return { audioBuffer, delay };
+    FILE_GENERATIONS.set(filePath, (FILE_GENERATIONS.get(filePath) ?? 0) + 1);
+    for (const [sampleKey, sample] of SAMPLE_CACHE) {
+        if (!isSampleOf(sampleKey, filePath)) continue;
+        SAMPLE_CACHE.delete(sampleKey);
+        cacheMemory -= sample.size;
+    }
+    for (const sampleKey of PENDING_DECODES.keys()) {
+        if (isSampleOf(sampleKey, filePath)) PENDING_DECODES.delete(sampleKey);
+    }
 }
+
+/**
+ * ### Gets how full the sample cache is and how often it has been hit.
+ * @returns {SampleCacheStats} The current statistics.
+ */
+export function getSampleCacheStats(): SampleCacheStats {
+    return {
+        samples: SAMPLE_CACHE.size,
+        memory: cacheMemory,
+        budget: memoryBudget,
+        hits: cacheHits,
+        misses: cacheMisses,
+    };
+}
+
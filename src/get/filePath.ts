@@ -1,34 +1,92 @@
 import path from 'path';
 import { isAlphabetical, isHarmonic, isSymbolic } from '../charTypeChecks';
-import { HARMONIC_CHARACTERS } from '../constants/charTypes';
-import { settings } from '../settings/pluginSettings';
-import { VOICE_LIST } from '../constants/voiceList';
+import { CLOSING_BRACKETS, HARMONIC_CHARACTERS, PHRASE_KEYS, SFX_KEYS, SFX_NAMES } from '../constants/charTypes';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { getVoicePack, getVoicePackFilePath } from '../voicePack';
+import { getSoundTheme } from '../themes/soundThemes';
+import { KeyContext } from '../themes/types';
+import { TokenContext } from '../syntax/tokenContext';
+import { getNoteKey } from '../syntax/bracketHarmony';
+import { mapCharacter } from '../characterMapping';
 
 const PATH_CACHE: Map<string, string> = new Map();
 
+// With syntax-aware sounds, closing brackets resolve to the first note of the scale.
+const BRACKET_RESOLUTION_NOTE = '1';
+
 /**
- * ### Gets the corresponding audio path to the given input.
+ * ### Gets the corresponding audio path to the given input, as decided by the syntax it was typed into and the selected sound theme.
  * @param key The keyboard input that will determine the file used.
  * @param vocalIndex A number within [0-7] which corresponds to one of the default voices.
  * @param pluginSettings Settings o the plugin, mainly used for small differences in behavior.
- * @returns {string} The path to the file which should be played.
+ * @param keyContext Where the key was typed, for themes that react to the cursor position.
+ * @param tokenContext What kind of token the key was typed into, or `null` if syntax-aware sounds are off.
+ * @returns {string | null} The path to the file which should be played, or `null` if the theme synthesizes this key instead.
  */
 export function getFilePath(
     extensionPath: string,
     key: string,
     vocalIndex: number,
-    pluginSettings: typeof settings
-): string {
+    pluginSettings: PluginSettings,
+    keyContext: KeyContext = { column: 0 },
+    tokenContext: TokenContext | null = null
+): string | null {
     if (pluginSettings.soundOverride) return pluginSettings.soundOverride; // Reminder that soundOverride is an absolute path to the desired sound.
 
-    let filePath = '';
+    if (tokenContext) {
+        if (tokenContext.bracketNote !== undefined) {
+            return getVoiceFilePath(
+                extensionPath,
+                getNoteKey(tokenContext.bracketNote),
+                vocalIndex,
+                pluginSettings
+            );
+        }
+        // Strings and comments are prose, so they are spoken whatever the sound theme.
+        if (tokenContext.type === 'string' || tokenContext.type === 'comment') {
+            return getVoiceFilePath(extensionPath, key, vocalIndex, pluginSettings);
+        }
+        if (CLOSING_BRACKETS.includes(key)) {
+            return getVoiceFilePath(extensionPath, BRACKET_RESOLUTION_NOTE, vocalIndex, pluginSettings);
+        }
+    }
 
-    const cachedPath = PATH_CACHE.get(
-        `${key}${VOICE_LIST.indexOf(
-            settings.voice
-        )}${+settings.specialPunctuation}`
+    return getSoundTheme(pluginSettings.soundTheme).getFilePath(
+        extensionPath,
+        key,
+        vocalIndex,
+        pluginSettings,
+        keyContext
     );
-    if (cachedPath && !settings.soundOverride) {
+}
+
+/**
+ * ### Gets the Animalese voice sound of the given input, ignoring the selected sound theme.
+ * Characters without a sound of their own borrow one through `mapCharacter`.
+ * @param key The keyboard input that will determine the file used.
+ * @param vocalIndex A number within [0-7] which corresponds to one of the default voices.
+ * @param pluginSettings Settings o the plugin, mainly used for small differences in behavior.
+ * @returns {string} The path to the file which should be played.
+ */
+export function getVoiceFilePath(
+    extensionPath: string,
+    key: string,
+    vocalIndex: number,
+    pluginSettings: PluginSettings
+): string {
+    if (pluginSettings.soundOverride) return pluginSettings.soundOverride;
+
+    key = mapCharacter(key, pluginSettings);
+
+    const voicePack = getVoicePack(pluginSettings.voicePack);
+    const voicePackPath = voicePack && getVoicePackFilePath(voicePack, key);
+    if (voicePackPath) return voicePackPath; // Anything the voice pack leaves out falls back to the built-in sounds below.
+
+    let filePath = '';
+
+    const cacheKey = `${key}${vocalIndex}${+pluginSettings.specialPunctuation}`;
+    const cachedPath = PATH_CACHE.get(cacheKey);
+    if (cachedPath) {
         return cachedPath;
     }
 
@@ -51,7 +109,7 @@ export function getFilePath(
 
     switch (true) {
         case isAlphabetical(key): {
-            filePath = path.join(animalesePath, `${key}.mp3`);
+            filePath = path.join(animalesePath, `${key.toLowerCase()}.mp3`);
             break;
         }
         case isHarmonic(key): {
@@ -61,6 +119,15 @@ export function getFilePath(
             );
             break;
         }
+        case key === 'paste': {
+            // There is no paste sound effect, so pastes reuse the "OK" phrase that Enter plays with special punctuation.
+            filePath = path.join(animalesePath, 'OK.mp3');
+            break;
+        }
+        case PHRASE_KEYS.includes(key): {
+            filePath = path.join(animalesePath, `${key.replace('phrase_', '')}.mp3`);
+            break;
+        }
         case key === '!' || key === '?' || key.includes('\n'): {
             if (pluginSettings.specialPunctuation) {
                 const noise = { '!': 'Gwah', '?': 'Deska', '\n': 'OK' };
@@ -78,7 +145,7 @@ export function getFilePath(
             );
             break;
         }
-        case ['tab', 'backspace'].includes(key): {
+        case SFX_KEYS.includes(key): {
             filePath = path.join(sfxPath, `${key}.mp3`);
             break;
         }
@@ -87,14 +154,36 @@ export function getFilePath(
             break;
         }
     }
-    PATH_CACHE.set(
-        `${key}${settings.voice}${+settings.specialPunctuation}`,
-        filePath
-    );
+    PATH_CACHE.set(cacheKey, filePath);
 
     return filePath;
 }
 
+/**
+ * ### Gets the audio path of a sound configured for a workbench event.
+ * @param extensionPath The path of the extension, used to locate the bundled sounds.
+ * @param sound `sfx:<name>` for a built-in sound effect, `phrase:<name>` for a villager phrase, an absolute path to a custom file, or `none`.
+ * @param vocalIndex A number within [0-7] which corresponds to one of the default voices, used for phrases.
+ * @param pluginSettings Settings of the plugin, used for phrases so they follow the voice pack and sound override.
+ * @returns {string | null} The path to the file which should be played, or `null` if the event is silent or the sound doesn't exist.
+ */
+export function getEventFilePath(
+    extensionPath: string,
+    sound: string,
+    vocalIndex: number,
+    pluginSettings: PluginSettings
+): string | null {
+    const [kind, name] = sound.split(/:(.*)/s);
+    if (kind === 'sfx') {
+        return SFX_NAMES.includes(name) ? path.join(extensionPath, 'audio', 'sfx', `${name}.mp3`) : null;
+    }
+    if (kind === 'phrase') {
+        const key = `phrase_${name}`;
+        return PHRASE_KEYS.includes(key) ? getVoiceFilePath(extensionPath, key, vocalIndex, pluginSettings) : null;
+    }
+    return path.isAbsolute(sound) ? sound : null;
+}
+
 export function symbolToName(sym: string) {
     switch (sym) {
         case '~': {
@@ -0,0 +1,162 @@
+import { calculatePitch } from './audio';
+import { isAlphabetical, isHarmonic } from './charTypeChecks';
+import { createSeededRandom } from './seededRandom';
+import type { PluginSettings } from './settings/pluginSettings';
+
+export type IntonationPreset = 'classic' | 'conversational' | 'monotone';
+
+export interface Intonation {
+    /** Pitch in cents, replacing the usual key pitch. */
+    detune: number;
+    /** Multiplier applied to the usual key volume. */
+    volumeMultiplier: number;
+    /** Seconds after which the sound is cut short, or `null` to let it play out. */
+    duration: number | null;
+}
+
+export interface IntonationEngine {
+    readonly preset: IntonationPreset;
+    /**
+     * Works out the intonation of the next key.
+     * @param key The keyboard input character.
+     * @param time When the key was pressed, in milliseconds.
+     * @param pluginSettings The settings to calculate the intonation with.
+     */
+    next(key: string, time: number, pluginSettings?: PluginSettings): Intonation;
+}
+
+const WORD_RISE = 25; // Cents added for every letter already typed in the current word
+const MAX_WORD_RISE = 150;
+const SENTENCE_DECLINATION = 10; // Cents removed for every word already typed in the current sentence
+const MAX_SENTENCE_DECLINATION = 120;
+const SPACE_DROP = 100;
+const PERIOD_DROP = 200;
+const QUESTION_RISE = 300;
+const CONVERSATIONAL_VARIATION = 0.3; // Share of the pitch variation setting that is still random
+
+const CALM_INTERVAL = 250; // Milliseconds between keys at or above which typing sounds calm
+const EXCITED_INTERVAL = 80; // Milliseconds between keys at or below which typing sounds excited
+const PAUSE_INTERVAL = 1500; // Milliseconds after which typing is considered to have stopped
+const TEMPO_SMOOTHING = 0.3; // How much each new interval moves the average
+const EXCITED_PITCH = 100;
+const EXCITED_VOLUME = 0.15;
+const EXCITED_OVERLAP = 1.5; // How many average intervals long each sound may ring for when typing fast
+
+/**
+ * ### Gets how excited typing sounds, based on the average time between keys.
+ * @param averageInterval The average time between keys, in milliseconds, or `null` if not known yet.
+ * @returns {number} 0 for calm typing, up to 1 for very fast bursts.
+ */
+export function getExcitement(averageInterval: number | null): number {
+    if (averageInterval === null) return 0;
+    const excitement = (CALM_INTERVAL - averageInterval) / (CALM_INTERVAL - EXCITED_INTERVAL);
+    return Math.min(1, Math.max(0, excitement));
+}
+
+/**
+ * ### Creates an intonation engine, which keeps track of typing rhythm and sentence position to decide the pitch of every key.
+ * The same preset, seed and sequence of keys and times always produce the same intonation.
+ * @param preset `classic` picks pitches at random like the original plugin, `conversational` follows words, sentences and typing speed, and `monotone` keeps every key at the same pitch.
+ * @param seed The seed used for the random parts of the intonation.
+ * @returns {IntonationEngine} The intonation engine.
+ */
+export function createIntonationEngine(preset: IntonationPreset, seed: number): IntonationEngine {
+    const random = createSeededRandom(seed);
+    let lettersInWord = 0;
+    let wordsInSentence = 0;
+    let lastTime: number | null = null;
+    let averageInterval: number | null = null;
+
+    /**
+     * Updates the average time between keys, forgetting it after a long pause.
+     */
+    const trackTempo = (time: number) => {
+        const interval = lastTime === null ? null : time - lastTime;
+        lastTime = time;
+        if (interval === null || interval > PAUSE_INTERVAL) {
+            averageInterval = null;
+            return;
+        }
+        averageInterval =
+            averageInterval === null
+                ? interval
+                : averageInterval + (interval - averageInterval) * TEMPO_SMOOTHING;
+    };
+
+    /**
+     * Works out the pitch offset from the position within the word and sentence, then moves the position along.
+     */
+    const followSentence = (key: string): number => {
+        if (isAlphabetical(key)) {
+            const offset =
+                Math.min(MAX_WORD_RISE, lettersInWord * WORD_RISE) -
+                Math.min(MAX_SENTENCE_DECLINATION, wordsInSentence * SENTENCE_DECLINATION);
+            lettersInWord++;
+            return offset;
+        }
+
+        if (lettersInWord > 0) wordsInSentence++;
+        lettersInWord = 0;
+
+        switch (key) {
+            case ' ':
+            case 'tab':
+                return -SPACE_DROP;
+            case '?':
+                wordsInSentence = 0;
+                return QUESTION_RISE;
+            case '.':
+            case '!':
+            case '\n':
+                wordsInSentence = 0;
+                return -PERIOD_DROP;
+            default:
+                return 0;
+        }
+    };
+
+    return {
+        preset,
+
+        next(key: string, time: number, pluginSettings: PluginSettings): Intonation {
+            trackTempo(time);
+
+            if (preset === 'classic') {
+                return {
+                    detune: calculatePitch(key, pluginSettings, random),
+                    volumeMultiplier: 1,
+                    duration: null,
+                };
+            }
+
+            const pitchShift = pluginSettings.intonation_pitchShift * 100;
+            if (preset === 'monotone' || isHarmonic(key)) {
+                // Numbers, `-` and `=` are notes, so they always stay in tune.
+                return { detune: pitchShift, volumeMultiplier: 1, duration: null };
+            }
+
+            const variation = pluginSettings.intonation_pitchVariation * CONVERSATIONAL_VARIATION;
+            const excitement = getExcitement(averageInterval);
+            const uppercaseBoost =
+                pluginSettings.intonation_louderUppercase > 0 && /^[A-Z]$/.test(key)
+                    ? pluginSettings.intonation_pitchVariation *
+                      (pluginSettings.intonation_louderUppercase / 100)
+                    : 0;
+
+            return {
+                detune:
+                    pitchShift +
+                    followSentence(key) +
+                    excitement * EXCITED_PITCH +
+                    uppercaseBoost +
+                    (random() * 2 - 1) * variation,
+                volumeMultiplier: 1 + excitement * EXCITED_VOLUME,
+                // Fast bursts are clipped short, so they sound snappy rather than smeared together.
+                duration:
+                    excitement > 0 && averageInterval !== null
+                        ? (averageInterval / 1000) * EXCITED_OVERLAP
+                        : null,
+            };
+        },
+    };
+}
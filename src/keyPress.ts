@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { getFilePath } from './get/filePath';
+import type { PluginSettings } from './settings/pluginSettings';
+import { resolveProfileSettings } from './settings/profiles';
+import { VOICE_LIST } from './constants/voiceList';
+import { playAudio, playTone } from './audio';
+import { getSoundTheme } from './themes/soundThemes';
+import { KeyContext } from './themes/types';
+import { classifyEdit, EditClass } from './editClassification';
+import { getAudioEngine } from './engine/engineState';
+import { getColumnPan } from './effects';
+import { createIntonationEngine, IntonationEngine } from './intonation';
+import { getTokenContext, TokenContext } from './syntax/tokenContext';
+import { CHANNEL_MAP } from './constants/channels';
+import { CLOSING_BRACKETS } from './constants/charTypes';
+import { getNoteKey, getNoteOctaveDetune } from './syntax/bracketHarmony';
+import { transliterateKey } from './characterMapping';
+import { recordTypingStats } from './stats/statsStore';
+import { isSoundOn } from './extension';
+import { logMessage } from './outputChannel';
+
+/**
+ * ### Assigns a channel number based on the key type, as decided by the syntax it was typed into and the selected sound theme.
+ * @param key The keyboard input character.
+ * @param pluginSettings Settings of the plugin, containing the selected sound theme.
+ * @param keyContext Where the key was typed.
+ * @param tokenContext What kind of token the key was typed into, or `null` if syntax-aware sounds are off.
+ * @returns {number} The channel number (1 for voice, 2 for SFX, 3 for melodic, 4 for cursor movement).
+ */
+function assignKeyToChannel(
+    key: string,
+    pluginSettings: PluginSettings,
+    keyContext: KeyContext,
+    tokenContext: TokenContext | null = null
+): number {
+    if (tokenContext?.type === 'string' || tokenContext?.type === 'comment') {
+        return CHANNEL_MAP.voice;
+    }
+    if (tokenContext?.bracketNote !== undefined || (tokenContext && CLOSING_BRACKETS.includes(key))) {
+        return CHANNEL_MAP.melodic;
+    }
+    return getSoundTheme(pluginSettings.soundTheme).assignKeyToChannel(key, pluginSettings, keyContext);
+}
+
+let intonationEngine: IntonationEngine | null = null;
+
+/**
+ * Gets the intonation engine for the selected preset, starting a new one with a fresh seed whenever the preset changes.
+ */
+function getIntonationEngine(pluginSettings: PluginSettings): IntonationEngine {
+    if (intonationEngine?.preset !== pluginSettings.intonation_preset) {
+        intonationEngine = createIntonationEngine(pluginSettings.intonation_preset, Date.now());
+    }
+    return intonationEngine;
+}
+
+// Pasted text is played back as a short run of its first few characters.
+const ARPEGGIO_LENGTH = 8;
+const ARPEGGIO_INTERVAL = 60; // In milliseconds
+
+/**
+ * Extracts the key character from a single change of a text document change event.
+ * Handles special cases like tab (multiple spaces) and backspace.
+ */
+function extractKeyFromChange(change: vscode.TextDocumentContentChangeEvent): string {
+    let key = [...change.text.replaceAll('\r', '')][0] ?? ''; // Split by code point, so characters outside the BMP stay whole
+
+    // Multiple spaces = tab
+    if (/^( ){2,}$/.test(change.text) || change.text === '\t') {
+        key = 'tab';
+    }
+
+    // Text deletion = backspace
+    if (!change.text && change.rangeLength > 0) {
+        key = 'backspace';
+    }
+
+    return key;
+}
+
+/**
+ * Extracts the keys that should be played, one after the other, to sound out a chunk of inserted text.
+ * Whitespace is skipped so indentation doesn't drown out the actual text.
+ */
+function extractArpeggioKeys(text: string): string[] {
+    return [...text.replace(/\s/g, '')].slice(0, ARPEGGIO_LENGTH);
+}
+
+/**
+ * Validates that the audio file path exists and shows error messages if needed.
+ */
+function validateAudioFilePath(filePath: string, key: string, pluginSettings: PluginSettings): boolean {
+    if (!fs.existsSync(filePath) && pluginSettings.soundOverride) {
+        if (pluginSettings.soundOverride) {
+            vscode.window.showErrorMessage(
+                'The provided custom sound does not exist. Please change the soundOverride parameter to a valid path.'
+            );
+        } else {
+            vscode.window.showErrorMessage(
+                `An unknown error occurred trying to find the sound file corresponding to key ${key}. Please raise an issue on the GitHub repository with the file path "${filePath}".`
+            );
+        }
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Adds the key of a document change to the typing statistics, if it was typed.
+ */
+export function recordKeyPress(event: vscode.TextDocumentChangeEvent, editClass: EditClass) {
+    if (editClass === 'typed') {
+        recordTypingStats(
+            extractKeyFromChange(event.contentChanges[0]),
+            event.document.languageId,
+            resolveProfileSettings(event.document)
+        );
+    }
+}
+
+/**
+ * Plays the sound of a document change, depending on what kind of edit caused it.
+ */
+export async function handleKeyPress(
+    context: vscode.ExtensionContext,
+    event: vscode.TextDocumentChangeEvent,
+    editClass?: EditClass
+) {
+    const change = event.contentChanges[0];
+
+    editClass ??= await classifyEdit(event);
+    const profileSettings = resolveProfileSettings(event.document);
+
+    const startContext: KeyContext = { column: change.range.start.character };
+
+    switch (profileSettings[`editSounds_${editClass}`]) {
+        case 'silent': {
+            return;
+        }
+        case 'sfx': {
+            await playKey(context, 'paste', profileSettings, startContext);
+            return;
+        }
+        case 'arpeggio': {
+            const keys = extractArpeggioKeys(change.text);
+            if (keys.length) {
+                keys.forEach((key, i) =>
+                    setTimeout(() => {
+                        // Sounds may have been turned off since the paste.
+                        if (!isSoundOn()) return;
+                        playKey(context, key, profileSettings, startContext).catch((e) =>
+                            logMessage(`Could not play the sound of "${key}": ${(e as Error).message}`)
+                        );
+                    }, i * ARPEGGIO_INTERVAL)
+                );
+                return;
+            }
+            // Text made only of whitespace has nothing to play in turn, so it is played once like any other edit.
+        }
+        default: {
+            const lines = change.text.replaceAll('\r', '').split('\n');
+            const column =
+                (lines.length === 1 ? change.range.start.character : 0) +
+                lines[lines.length - 1].length;
+
+            const key = extractKeyFromChange(change);
+            const tokenContext = await getTokenContext(
+                event.document,
+                change.range.start,
+                key,
+                profileSettings
+            );
+
+            await playKey(
+                context,
+                key,
+                profileSettings,
+                { column },
+                tokenContext
+            );
+        }
+    }
+}
+
+/**
+ * Plays the sound belonging to a single key with the given settings, following the syntax it was typed into if known.
+ */
+export async function playKey(
+    context: vscode.ExtensionContext,
+    key: string,
+    profileSettings: PluginSettings,
+    keyContext: KeyContext = { column: 0 },
+    tokenContext: TokenContext | null = null
+) {
+    key = transliterateKey(key, profileSettings);
+    const filePath = getFilePath(
+        context.extensionPath,
+        key,
+        VOICE_LIST.indexOf(profileSettings.voice),
+        profileSettings,
+        keyContext,
+        tokenContext
+    );
+
+    const channel = assignKeyToChannel(key, profileSettings, keyContext, tokenContext);
+    const pan = getColumnPan(keyContext.column, profileSettings);
+    const engine = getAudioEngine();
+
+    if (filePath === null) {
+        const layers = getSoundTheme(profileSettings.soundTheme).getTone(
+            key,
+            profileSettings,
+            keyContext
+        );
+        playTone(engine, layers, key, channel, profileSettings, { pan });
+        return;
+    }
+
+    if (!validateAudioFilePath(filePath, key, profileSettings)) {
+        return;
+    }
+
+    // Harmonic brackets are played like the number key of their note, so they ring out without any pitch variation.
+    const bracketNote = tokenContext?.bracketNote;
+    const soundKey = bracketNote === undefined ? key : getNoteKey(bracketNote);
+
+    // Moving the cursor isn't part of what is being typed, so it leaves the intonation's place in the sentence and its tempo alone.
+    if (soundKey.startsWith('arrow_')) {
+        await playAudio(engine, filePath, soundKey, channel, profileSettings, { pan });
+        return;
+    }
+
+    const intonation = getIntonationEngine(profileSettings).next(soundKey, Date.now(), profileSettings);
+    if (tokenContext?.type === 'keyword') {
+        intonation.detune += profileSettings.syntaxSounds_keywordPitch * 100;
+    }
+    if (bracketNote !== undefined) {
+        intonation.detune += getNoteOctaveDetune(bracketNote);
+    }
+
+    await playAudio(engine, filePath, soundKey, channel, profileSettings, { pan, intonation });
+}
@@ -0,0 +1,164 @@
+import { isAlphabetical } from './charTypeChecks';
+import type { PluginSettings } from './settings/pluginSettings';
+import { CHANNEL_MAP } from './constants/channels';
+import { PlaybackHandle } from './engine/types';
+
+export type StealPolicy = 'oldest' | 'quietest';
+
+export type ChannelName = keyof typeof CHANNEL_MAP;
+
+export interface MixerVoice {
+    key: string;
+    handle: PlaybackHandle;
+    /** Time the sound started at, in the audio engine's timeline. */
+    startTime: number;
+    volume: number;
+    /** Seconds over which the sound falls off, or `null` if it rings out at full volume. */
+    falloff: number | null;
+}
+
+// Sounds playing on each channel, from oldest to newest. Sounds played without a channel are kept under `undefined`.
+const activeChannels: Map<number | undefined, MixerVoice[]> = new Map();
+
+/**
+ * ### Gets the name of a channel, as used by the `mixer.maxVoices.*` settings.
+ * @param channel The channel number.
+ * @returns {ChannelName | undefined} The name of the channel, or `undefined` if it isn't one of `CHANNEL_MAP`.
+ */
+function getChannelName(channel: number): ChannelName | undefined {
+    return (Object.keys(CHANNEL_MAP) as ChannelName[]).find((name) => CHANNEL_MAP[name] === channel);
+}
+
+/**
+ * ### Gets how many sounds may play on a channel at once.
+ * @param channel The channel number, or `undefined` for sounds played without a channel.
+ * @param pluginSettings Settings of the plugin, containing the mixer policy.
+ * @returns {number} The maximum number of simultaneous sounds.
+ */
+export function getMaxVoices(
+    channel: number | undefined,
+    pluginSettings: PluginSettings
+): number {
+    const name = channel === undefined ? undefined : getChannelName(channel);
+    const maxVoices = name ? pluginSettings[`mixer_maxVoices_${name}`] : pluginSettings.mixer_maxTotalVoices;
+    return Math.max(1, Math.floor(maxVoices));
+}
+
+/**
+ * ### Estimates how loud a sound currently is, following its exponential falloff.
+ * @param voice The sound to check.
+ * @param currentTime The current time of the audio engine.
+ * @returns {number} The estimated gain of the sound.
+ */
+export function estimateVoiceLevel(voice: MixerVoice, currentTime: number): number {
+    if (voice.falloff === null || voice.volume <= 0) return voice.volume;
+
+    const progress = Math.min(1, Math.max(0, (currentTime - voice.startTime) / voice.falloff));
+    return voice.volume * Math.pow(1e-5 / voice.volume, progress);
+}
+
+/**
+ * ### Picks the sound that should make way for a new one.
+ * @param voices The candidates.
+ * @param policy Whether the oldest or the quietest sound is stolen.
+ * @param currentTime The current time of the audio engine.
+ * @returns {MixerVoice} The sound to steal.
+ */
+export function pickVoiceToSteal(
+    voices: MixerVoice[],
+    policy: StealPolicy,
+    currentTime: number
+): MixerVoice {
+    if (policy === 'quietest') {
+        return voices.reduce((quietest, voice) =>
+            estimateVoiceLevel(voice, currentTime) < estimateVoiceLevel(quietest, currentTime)
+                ? voice
+                : quietest
+        );
+    }
+    return voices.reduce((oldest, voice) => (voice.startTime < oldest.startTime ? voice : oldest));
+}
+
+/**
+ * ### Fades a sound out and stops tracking it.
+ * @param voice The sound to remove.
+ * @param fadeDuration The duration of the fade-out in seconds.
+ */
+function releaseVoice(voice: MixerVoice, fadeDuration: number): void {
+    voice.handle.fadeOut(fadeDuration);
+    activeChannels.forEach((voices, channel) => {
+        const remaining = voices.filter((v) => v !== voice);
+        if (remaining.length) activeChannels.set(channel, remaining);
+        else activeChannels.delete(channel);
+    });
+}
+
+/**
+ * ### Steals sounds until a new one fits within both its channel's limit and the overall limit.
+ * @param channel The channel the new sound will play on, or `undefined` if it has none.
+ * @param key The keyboard input character of the new sound.
+ * @param currentTime The current time of the audio engine.
+ * @param pluginSettings Settings of the plugin, containing the mixer policy.
+ * @returns {number} How many seconds the new sound should fade in over, which is only non-zero when it blends into a stolen sound.
+ */
+export function makeRoomForVoice(
+    channel: number | undefined,
+    key: string,
+    currentTime: number,
+    pluginSettings: PluginSettings
+): number {
+    const crossfade = Math.max(0, pluginSettings.mixer_crossfade) / 1000;
+    const policy = pluginSettings.mixer_stealPolicy;
+    let fadeIn = 0;
+
+    const steal = (candidates: MixerVoice[]) => {
+        const voice = pickVoiceToSteal(candidates, policy, currentTime);
+        // In legato mode letters blend into each other, like the game's speech, instead of cutting each other off.
+        if (pluginSettings.mixer_legato && isAlphabetical(key) && isAlphabetical(voice.key)) {
+            fadeIn = crossfade;
+        }
+        releaseVoice(voice, crossfade);
+    };
+
+    const maxVoices = getMaxVoices(channel, pluginSettings);
+    while ((activeChannels.get(channel)?.length ?? 0) >= maxVoices) {
+        steal(activeChannels.get(channel)!);
+    }
+
+    const maxTotalVoices = Math.max(1, Math.floor(pluginSettings.mixer_maxTotalVoices));
+    let allVoices = [...activeChannels.values()].flat();
+    while (allVoices.length >= maxTotalVoices) {
+        steal(allVoices);
+        allVoices = [...activeChannels.values()].flat();
+    }
+
+    return fadeIn;
+}
+
+/**
+ * ### Starts tracking a sound until it ends or is stolen.
+ * @param channel The channel the sound plays on, or `undefined` if it has none.
+ * @param voice The playing sound.
+ */
+export function addVoice(channel: number | undefined, voice: MixerVoice): void {
+    activeChannels.set(channel, [...(activeChannels.get(channel) ?? []), voice]);
+    voice.handle.onEnded(() => {
+        const remaining = (activeChannels.get(channel) ?? []).filter((v) => v !== voice);
+        if (remaining.length) activeChannels.set(channel, remaining);
+        else activeChannels.delete(channel);
+    });
+}
+
+/**
+ * ### Gets the sounds currently playing on a channel.
+ * @param channel The channel number, or `undefined` for sounds played without a channel.
+ * @returns {MixerVoice[]} The playing sounds, from oldest to newest.
+ */
+export function getChannelVoices(channel: number | undefined): MixerVoice[] {
+    return activeChannels.get(channel) ?? [];
+}
+
+export function cleanupChannels(): void {
+    activeChannels.forEach((voices) => voices.forEach(({ handle }) => handle.stop()));
+    activeChannels.clear();
+}
@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+
+let outputChannel: vscode.OutputChannel | null = null;
+
+/**
+ * ### Gets the `Animalese` output channel, creating it if needed.
+ * @returns {vscode.OutputChannel} The output channel.
+ */
+export function getOutputChannel(): vscode.OutputChannel {
+    outputChannel ??= vscode.window.createOutputChannel('Animalese');
+    return outputChannel;
+}
+
+/**
+ * ### Logs a message to the output channel, with the time it was logged.
+ * @param message The message to log.
+ */
+export function logMessage(message: string): void {
+    getOutputChannel().appendLine(`[${new Date().toLocaleTimeString()}] ${message}`);
+}
+
+/**
+ * ### Removes the output channel.
+ */
+export function disposeOutputChannel(): void {
+    outputChannel?.dispose();
+    outputChannel = null;
+}
@@ -0,0 +1,53 @@
+import { AudioBuffer, OfflineAudioContext } from 'node-web-audio-api';
+import { getUtteranceDuration, planUtterance, scheduleUtterance } from './speech';
+import { createSeededRandom } from './seededRandom';
+import type { PluginSettings } from './settings/pluginSettings';
+import { createWebAudioEngine } from './engine/webAudioEngine';
+import { getMasterBusOptions } from './effects';
+
+const RENDER_TAIL = 0.5; // Seconds of room left after the last syllable, so melodic falloff isn't cut off. The reverb's decay is added on top while it is on.
+
+/**
+ * ### Renders text spoken in Animalese into an audio buffer, without playing it.
+ * The same seed and settings always produce the same audio.
+ * @param extensionPath The path of the extension, used to locate the bundled sounds.
+ * @param text The text to speak.
+ * @param sampleRate The sample rate of the rendered audio.
+ * @param pluginSettings The settings to speak with.
+ * @param seed The seed used for pitch variation and the reverb.
+ * @returns {AudioBuffer | null} The rendered mono audio, or `null` if the text has nothing to speak.
+ */
+export async function renderUtterance(
+    extensionPath: string,
+    text: string,
+    sampleRate: number,
+    pluginSettings: PluginSettings,
+    seed: number = 0
+): Promise<AudioBuffer | null> {
+    const syllables = planUtterance(text, pluginSettings.speech_syllableRate);
+    if (!syllables.length) return null;
+
+    const masterBusOptions = getMasterBusOptions(pluginSettings);
+    const tail = RENDER_TAIL + (masterBusOptions.reverbMix > 0 ? masterBusOptions.reverbDecay : 0);
+    const duration = getUtteranceDuration(syllables, pluginSettings.speech_syllableRate) + tail;
+    const offlineContext = new OfflineAudioContext(
+        1,
+        Math.ceil(duration * sampleRate),
+        sampleRate
+    );
+
+    // Rendered audio goes through the same effects as the live output, so it sounds like what is heard while typing.
+    const engine = createWebAudioEngine(offlineContext, createSeededRandom(seed));
+    engine.configureMasterBus(masterBusOptions);
+
+    await scheduleUtterance(
+        engine,
+        extensionPath,
+        syllables,
+        pluginSettings,
+        0,
+        createSeededRandom(seed)
+    );
+
+    return offlineContext.startRendering();
+}
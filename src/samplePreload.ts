@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import path from 'path';
+import { getFilePath } from './get/filePath';
+import { invalidateAudioData, preloadAudioData } from './get/audioData';
+import type { PluginSettings } from './settings/pluginSettings';
+import { VOICE_LIST } from './constants/voiceList';
+import { HARMONIC_CHARACTERS, PHRASE_KEYS, SFX_KEYS, SYMBOLS } from './constants/charTypes';
+import { getLoadedVoicePacks } from './voicePack';
+import { getAudioEngine } from './engine/engineState';
+
+// One key of every kind, so every sound a voice can make gets loaded.
+const PRELOAD_KEYS = [
+    ...'abcdefghijklmnopqrstuvwxyz',
+    ...HARMONIC_CHARACTERS,
+    ...SYMBOLS,
+    ...SFX_KEYS,
+    ...PHRASE_KEYS,
+    '!',
+    '?',
+    '\n',
+    ' ',
+    'paste',
+];
+
+let customSoundWatchers: vscode.Disposable[] = [];
+let watchedSoundOverride = '';
+
+/**
+ * ### (IMPURE) Loads every sound of the active voice into the sample cache in the background.
+ * @param extensionPath The path of the extension, used to locate the bundled sounds.
+ * @param pluginSettings The settings deciding which voice and sound theme are active.
+ */
+export async function preloadVoice(
+    extensionPath: string,
+    pluginSettings: PluginSettings
+): Promise<void> {
+    const vocalIndex = VOICE_LIST.indexOf(pluginSettings.voice);
+    const filePaths = PRELOAD_KEYS.map((key) =>
+        getFilePath(extensionPath, key, vocalIndex, pluginSettings)
+    ).filter((filePath): filePath is string => filePath !== null);
+
+    await preloadAudioData(filePaths, getAudioEngine());
+}
+
+/**
+ * ### Creates a watcher that drops files from the sample cache whenever they change on disk.
+ * @param pattern The files to watch.
+ * @returns {vscode.Disposable} The watcher.
+ */
+function watchSounds(pattern: vscode.RelativePattern): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    const invalidate = (uri: vscode.Uri) => invalidateAudioData(uri.fsPath);
+    watcher.onDidChange(invalidate);
+    watcher.onDidCreate(invalidate);
+    watcher.onDidDelete(invalidate);
+    return watcher;
+}
+
+/**
+ * ### (IMPURE) Watches the sound override and every loaded voice pack, so edited sounds are reloaded.
+ * Should be called again whenever the sound override or the loaded voice packs change.
+ * @param pluginSettings Settings of the plugin, containing the sound override.
+ */
+export function updateCustomSoundWatchers(pluginSettings: PluginSettings): void {
+    disposeCustomSoundWatchers();
+
+    // Whatever was cached for the old or new override may be out of date, since neither was being watched.
+    if (pluginSettings.soundOverride !== watchedSoundOverride) {
+        if (watchedSoundOverride) invalidateAudioData(watchedSoundOverride);
+        if (pluginSettings.soundOverride) invalidateAudioData(pluginSettings.soundOverride);
+        watchedSoundOverride = pluginSettings.soundOverride;
+    }
+
+    if (pluginSettings.soundOverride) {
+        customSoundWatchers.push(
+            watchSounds(
+                new vscode.RelativePattern(
+                    vscode.Uri.file(path.dirname(pluginSettings.soundOverride)),
+                    path.basename(pluginSettings.soundOverride)
+                )
+            )
+        );
+    }
+    for (const voicePack of getLoadedVoicePacks()) {
+        customSoundWatchers.push(
+            watchSounds(new vscode.RelativePattern(vscode.Uri.file(voicePack.directory), '**/*'))
+        );
+    }
+}
+
+/**
+ * ### Stops watching custom sounds.
+ */
+export function disposeCustomSoundWatchers(): void {
+    customSoundWatchers.forEach((watcher) => watcher.dispose());
+    customSoundWatchers = [];
+}
@@ -0,0 +1,16 @@
+/**
+ * ### Creates a random number generator that always produces the same sequence for the same seed.
+ * Uses the mulberry32 algorithm, which is plenty for picking pitches.
+ * @param seed Any 32-bit integer.
+ * @returns {() => number} A drop-in replacement for `Math.random`, returning numbers within [0, 1).
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -17,19 +17,55 @@ export function getConfig<T>(
 
     const configKey = key.replaceAll('_', '.');
     if (changedConfig) {
-        return config.inspect<T>(configKey)?.globalValue ?? defaultValue;
+        // The same precedence `config.get` uses, so workspace values still win over the user's.
+        const inspected = config.inspect<T>(configKey);
+        return (
+            inspected?.workspaceFolderValue ??
+            inspected?.workspaceValue ??
+            inspected?.globalValue ??
+            defaultValue
+        );
     }
     return config.get<T>(configKey) ?? defaultValue;
 }
 
 /**
- * ### Updates a setting's value on the vscode side.
+ * ### Gets the value a setting has for a document that the window-wide settings don't know about.
+ * From most to least specific: the document's language in its workspace folder, in the workspace, in the user settings and in the extension's defaults, then the workspace folder itself.
+ * @param key The vscode id of the setting, with underscores instead of dots.
+ * @param document The document to get the value for.
+ * @returns The value, or `undefined` if the setting has no folder or language-specific value.
+ */
+export function getScopedConfig<T>(key: string, document: vscode.TextDocument): T | undefined {
+    const config = vscode.workspace.getConfiguration('vscode-animalese', document);
+
+    const inspected = config.inspect<T>(key.replaceAll('_', '.'));
+    return (
+        inspected?.workspaceFolderLanguageValue ??
+        inspected?.workspaceLanguageValue ??
+        inspected?.globalLanguageValue ??
+        inspected?.defaultLanguageValue ??
+        inspected?.workspaceFolderValue
+    );
+}
+
+/**
+ * ### Updates a setting's value on the vscode side. The `settings` object follows once vscode reports the change.
  * @param key The vscode id of the setting, with underscores instead of dots. For example, to find `vscode-animalese.intonation.falloffTime`, this should be `intonation_falloffTime`.
  * @param value The value to assign to the setting.
+ * @param target Where to save the setting. Defaults to the user's global settings.
+ * @param document The document whose workspace folder or language the setting is saved for. Required for `ConfigurationTarget.WorkspaceFolder` and `overrideInLanguage`.
+ * @param overrideInLanguage Whether to save the setting for the document's language only, in a `[language]` block.
  */
-export function setConfig(key: keyof typeof settings, value: any): void {
-    const config = vscode.workspace.getConfiguration('vscode-animalese');
+export function setConfig(
+    key: keyof typeof settings,
+    value: any,
+    target: vscode.ConfigurationTarget = vscode.ConfigurationTarget.Global,
+    document?: vscode.TextDocument,
+    overrideInLanguage = false
+): Thenable<void> {
+    const config = vscode.workspace.getConfiguration('vscode-animalese', document);
 
-    (settings as any)[key] = value;
-    config.update(key.replaceAll('_', '.'), value, true); // Always save to global by passing `true` as the third param.
+    // The `settings` object is left alone until the configuration change event reloads it, so `onDidChangeSettings` sees the change.
+    return config.update(key.replaceAll('_', '.'), value, target, overrideInLanguage);
 }
@@ -1,16 +1,70 @@
-import { getConfig } from './configState';
-import { DEFAULT_SETTINGS, settings } from './pluginSettings';
+import * as vscode from 'vscode';
+import { isDeepStrictEqual } from 'util';
+import { getConfig, getScopedConfig } from './configState';
+import { SettingKey, settings } from './pluginSettings';
+import { validateSetting, validateSettings } from './settingsSchema';
+import { reportSettingsProblems } from './settingsProblems';
+import { fireSettingsChange } from './settingsEvents';
+
+// Settings of each document with folder or language specific values, keyed by the document's URI and language.
+const SCOPED_SETTINGS: Map<string, typeof settings> = new Map();
 
 /**
- * ### (IMPURE) Gets all settings and loads them into the `settings` object, which is a defined global.
+ * ### (IMPURE) Gets all settings, validates them and loads them into the `settings` object, which is a defined global.
+ * Problems with the configured values are reported, and `onDidChangeSettings` fires with every setting that changed.
  * @param firstRun Whether or not this function has been run for the first time.
  * @return {undefined}
  */
 export function loadSettings(firstRun: boolean): void {
-    (Object.keys(settings) as Array<keyof typeof settings>).forEach(
-        (key: keyof typeof settings) => {
-            (settings as any)[key] =
-                getConfig(key, DEFAULT_SETTINGS[key], !firstRun) ?? false;
-        }
-    );
+    const configuredValues: Partial<Record<SettingKey, unknown>> = {};
+    (Object.keys(settings) as SettingKey[]).forEach((key) => {
+        configuredValues[key] = getConfig<unknown>(key, undefined, !firstRun);
+    });
+    const { settings: validSettings, problems } = validateSettings(configuredValues);
+
+    const changedKeys: Set<SettingKey> = new Set();
+    (Object.keys(validSettings) as SettingKey[]).forEach((key) => {
+        if (!isDeepStrictEqual(settings[key], validSettings[key])) changedKeys.add(key);
+        (settings as any)[key] = validSettings[key];
+    });
+    SCOPED_SETTINGS.clear();
+
+    reportSettingsProblems(problems);
+    fireSettingsChange(settings, changedKeys);
+}
+
+/**
+ * ### Forgets the settings of a closed document, so the cache only ever holds open documents.
+ * @param document The document that was closed.
+ */
+export function forgetDocumentSettings(document: vscode.TextDocument): void {
+    SCOPED_SETTINGS.delete(`${document.uri.toString()}|${document.languageId}`);
+}
+
+/**
+ * ### Gets the settings that apply to a document, layering workspace folder and language-specific (`[language]`) values on top of the global `settings` object.
+ * The result is cached until the configuration changes.
+ * @param document The document to get the settings of.
+ * @returns A copy of the settings with the scoped values applied, or the global settings if there aren't any.
+ */
+export function getDocumentSettings(document: vscode.TextDocument): typeof settings {
+    const cacheKey = `${document.uri.toString()}|${document.languageId}`;
+    const cachedSettings = SCOPED_SETTINGS.get(cacheKey);
+    if (cachedSettings) return cachedSettings;
+
+    let documentSettings = settings;
+    const problems: string[] = [];
+    (Object.keys(settings) as SettingKey[]).forEach((key) => {
+        const scopedValue = getScopedConfig(key, document);
+        if (scopedValue === undefined) return;
+
+        const { value, problem } = validateSetting(key, scopedValue);
+        if (problem) problems.push(`${problem} (${document.languageId} files or this folder)`);
+        if (documentSettings === settings) documentSettings = { ...settings };
+        (documentSettings as any)[key] = value;
+    });
+    reportSettingsProblems(problems);
+
+    SCOPED_SETTINGS.set(cacheKey, documentSettings);
+    return documentSettings;
 }
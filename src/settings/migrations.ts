@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { logMessage } from '../outputChannel';
+
+export interface SettingsMigration {
+    /** The settings version this migration upgrades to. Versions must increase through the list. */
+    version: number;
+    /** Settings that were renamed, from their old id to their new id, both without the `vscode-animalese.` prefix. */
+    renames: Record<string, string>;
+    /** Converts a value of the old setting to the new one, if the meaning changed along with the name. */
+    transform?: (oldId: string, value: unknown) => unknown;
+}
+
+// Every rename between releases, oldest first. A migration only ever runs once for the user settings and once for each workspace.
+export const SETTINGS_MIGRATIONS: SettingsMigration[] = [];
+
+const SETTINGS_VERSION_KEY = 'settingsVersion';
+
+type InspectedValues = NonNullable<ReturnType<vscode.WorkspaceConfiguration['inspect']>>;
+
+// Where each configuration target keeps its values, for the setting itself and for a language.
+const VALUE_KEYS: Record<vscode.ConfigurationTarget, [keyof InspectedValues, keyof InspectedValues]> = {
+    [vscode.ConfigurationTarget.Global]: ['globalValue', 'globalLanguageValue'],
+    [vscode.ConfigurationTarget.Workspace]: ['workspaceValue', 'workspaceLanguageValue'],
+    [vscode.ConfigurationTarget.WorkspaceFolder]: ['workspaceFolderValue', 'workspaceFolderLanguageValue'],
+};
+
+/**
+ * ### Moves the value of one renamed setting at one configuration target, either for every language or for a single one.
+ * A value already set under the new name is kept, and the old value is removed either way.
+ * @returns {boolean} Whether or not the value was moved over.
+ */
+async function moveSetting(
+    config: vscode.WorkspaceConfiguration,
+    oldId: string,
+    newId: string,
+    migration: SettingsMigration,
+    target: vscode.ConfigurationTarget,
+    overrideInLanguage: boolean
+): Promise<boolean> {
+    const valueKey = VALUE_KEYS[target][overrideInLanguage ? 1 : 0];
+    const oldValue = config.inspect(oldId)?.[valueKey];
+    if (oldValue === undefined) return false;
+
+    const moved = config.inspect(newId)?.[valueKey] === undefined;
+    if (moved) {
+        const newValue = migration.transform ? migration.transform(oldId, oldValue) : oldValue;
+        await config.update(newId, newValue, target, overrideInLanguage);
+    }
+    await config.update(oldId, undefined, target, overrideInLanguage);
+    return moved;
+}
+
+/**
+ * ### Moves the values of renamed settings at one configuration target, including the values set for single languages.
+ * @param target Which settings to migrate.
+ * @param migrations The migrations to run, in order.
+ * @param folder The workspace folder to migrate, for `ConfigurationTarget.WorkspaceFolder`.
+ * @returns {Promise<string[]>} A description of every moved setting.
+ */
+async function migrateTarget(
+    target: vscode.ConfigurationTarget,
+    migrations: SettingsMigration[],
+    folder?: vscode.Uri
+): Promise<string[]> {
+    const config = vscode.workspace.getConfiguration('vscode-animalese', folder);
+
+    const moved: string[] = [];
+    for (const migration of migrations) {
+        for (const [oldId, newId] of Object.entries(migration.renames)) {
+            // Read before moving, since moving removes the old setting along with the languages it was set for.
+            const languageIds = config.inspect(oldId)?.languageIds ?? [];
+
+            if (await moveSetting(config, oldId, newId, migration, target, false)) {
+                moved.push(`vscode-animalese.${oldId} → vscode-animalese.${newId}`);
+            }
+            for (const languageId of languageIds) {
+                const languageConfig = vscode.workspace.getConfiguration('vscode-animalese', {
+                    uri: folder,
+                    languageId,
+                });
+                if (await moveSetting(languageConfig, oldId, newId, migration, target, true)) {
+                    moved.push(`vscode-animalese.${oldId} → vscode-animalese.${newId} ([${languageId}])`);
+                }
+            }
+        }
+    }
+    return moved;
+}
+
+/**
+ * ### Runs the migrations the user and workspace settings haven't been through yet, remembering how far each got.
+ * @param context The extension context, used to remember the settings version.
+ * @param migrations The migrations to run. Defaults to every known migration.
+ */
+export async function migrateSettings(
+    context: vscode.ExtensionContext,
+    migrations: SettingsMigration[] = SETTINGS_MIGRATIONS
+): Promise<void> {
+    const latestVersion = migrations[migrations.length - 1]?.version ?? 0;
+    const pendingSince = (version: number) => migrations.filter((migration) => migration.version > version);
+
+    const moved: string[] = [];
+    const globalVersion = context.globalState.get<number>(SETTINGS_VERSION_KEY, 0);
+    if (globalVersion < latestVersion) {
+        moved.push(...(await migrateTarget(vscode.ConfigurationTarget.Global, pendingSince(globalVersion))));
+        await context.globalState.update(SETTINGS_VERSION_KEY, latestVersion);
+    }
+
+    const workspaceVersion = context.workspaceState.get<number>(SETTINGS_VERSION_KEY, 0);
+    if (vscode.workspace.workspaceFolders?.length && workspaceVersion < latestVersion) {
+        const pending = pendingSince(workspaceVersion);
+        moved.push(...(await migrateTarget(vscode.ConfigurationTarget.Workspace, pending)));
+
+        // Folders of a multi-root workspace have settings of their own.
+        if (vscode.workspace.workspaceFile) {
+            for (const folder of vscode.workspace.workspaceFolders) {
+                moved.push(
+                    ...(await migrateTarget(vscode.ConfigurationTarget.WorkspaceFolder, pending, folder.uri))
+                );
+            }
+        }
+        await context.workspaceState.update(SETTINGS_VERSION_KEY, latestVersion);
+    }
+
+    if (moved.length) {
+        logMessage(`Renamed settings from an earlier version: ${moved.join(', ')}.`);
+    }
+}
@@ -1,11 +1,103 @@
+import type { VoiceProfile } from './profiles';
+import type { EditSoundBehavior } from '../editClassification';
+import type { StealPolicy } from '../mixer';
+import type { IntonationPreset } from '../intonation';
+import type { BracketScale } from '../syntax/bracketHarmony';
+import type { DebugMuteMode, Weekday } from '../autoMute/muteRules';
+import type { EventSound, EventSoundName } from '../constants/eventSounds';
+import type { LatencyCategory } from '../engine/outputOptions';
+
 export const settings = {
     volume: 50,
     voice: 'Female Voice 1 (Sweet)',
     intonation_pitchShift: 0,
     intonation_pitchVariation: 100,
     intonation_louderUppercase: 20,
+    intonation_preset: 'classic' as IntonationPreset,
     specialPunctuation: false,
     soundOverride: '',
+    showNotifications: true,
+    soundTheme: 'animalese',
+    soundThemes_typewriter_bellColumn: 72,
+    soundThemes_musical_key: 'C',
+    soundThemes_musical_scale: 'pentatonic',
+    voicePack: '',
+    voicePacks: [] as string[],
+    cursorMovement_enabled: true,
+    cursorMovement_throttle: 50,
+    speech_syllableRate: 14,
+    render_sampleRate: 44100,
+    output_device: '',
+    output_latency: 'interactive' as LatencyCategory,
+    output_sampleRate: 0,
+    sampleCache_memoryBudget: 32,
+    mixer_maxVoices_voice: 1,
+    mixer_maxVoices_sfx: 1,
+    mixer_maxVoices_melodic: 1,
+    mixer_maxVoices_cursor: 1,
+    mixer_maxVoices_reaction: 3, // Enough for every note of a melody reaction to ring out.
+    mixer_maxVoices_event: 2,
+    mixer_maxTotalVoices: 12,
+    mixer_stealPolicy: 'oldest' as StealPolicy,
+    mixer_crossfade: 25,
+    mixer_legato: false,
+    effects_eq_lowGain: 0,
+    effects_eq_lowFrequency: 250,
+    effects_eq_highGain: 0,
+    effects_eq_highFrequency: 4000,
+    effects_reverb_mix: 0,
+    effects_reverb_decay: 1.5,
+    effects_compressor: false,
+    effects_panning_enabled: false,
+    effects_panning_width: 100,
+    syntaxSounds_enabled: false,
+    syntaxSounds_useSemanticTokens: true,
+    syntaxSounds_keywordPitch: 3,
+    bracketHarmony_enabled: false,
+    bracketHarmony_scale: 'major' as BracketScale,
+    stats_enabled: false,
+    terminalSounds_enabled: false,
+    terminalSounds_announceStart: true,
+    terminalSounds_minimumDuration: 0,
+    terminalSounds_excludedTerminals: [] as string[],
+    eventSounds_enabled: false,
+    eventSounds_sounds: {
+        taskSuccess: { sound: 'phrase:OK', volume: 50 },
+        taskFailure: { sound: 'phrase:Gwah', volume: 50 },
+        debugStart: { sound: 'sfx:enter', volume: 40 },
+        debugStop: { sound: 'sfx:backspace', volume: 40 },
+        breakpoint: { sound: 'phrase:Deska', volume: 50 },
+        save: { sound: 'sfx:tab', volume: 30 },
+    } as Record<EventSoundName, EventSound>,
+    autoMute_debugging: 'off' as DebugMuteMode,
+    autoMute_terminalFocus: false,
+    autoMute_webviewFocus: false,
+    autoMute_windowUnfocused: false,
+    autoMute_quietHours_enabled: false,
+    autoMute_quietHours_start: '22:00',
+    autoMute_quietHours_end: '08:00',
+    autoMute_quietHours_days: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as Weekday[],
+    diagnostics_errorReaction: true,
+    diagnostics_fixReaction: true,
+    diagnostics_reactionStyle: 'villager',
+    diagnostics_debounce: 1500,
+    profiles: [] as VoiceProfile[],
+    characterMap: {} as Record<string, string>,
+    filters_allowedSchemes: [] as string[],
+    filters_deniedSchemes: ['output', 'vscode-scm', 'git', 'debug', 'comment'],
+    filters_allowedLanguages: [] as string[],
+    filters_deniedLanguages: [] as string[],
+    editSounds_typed: 'once' as EditSoundBehavior,
+    editSounds_multiCursor: 'once' as EditSoundBehavior,
+    editSounds_paste: 'arpeggio' as EditSoundBehavior,
+    editSounds_replacement: 'once' as EditSoundBehavior,
+    editSounds_undoRedo: 'once' as EditSoundBehavior,
+    editSounds_bulk: 'silent' as EditSoundBehavior,
+    editSounds_programmatic: 'silent' as EditSoundBehavior,
 };
 
+export type PluginSettings = typeof settings;
+
+export type SettingKey = keyof PluginSettings;
+
 export const DEFAULT_SETTINGS = structuredClone(settings); // Necessary to create a deep clone, so this object isn't modified when the original `settings` object is changed.
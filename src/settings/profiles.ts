@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { settings } from './pluginSettings';
+import { VOICE_LIST } from '../constants/voiceList';
+import { getDocumentSettings } from './loadSettings';
+
+export interface VoiceProfile {
+    language?: string;
+    pattern?: string;
+    voice?: string;
+    volume?: number;
+    pitchShift?: number;
+    pitchVariation?: number;
+    specialPunctuation?: boolean;
+}
+
+/**
+ * ### Gets the settings that apply to a document, taking the first matching voice profile into account.
+ * @param document The document being typed in.
+ * @param pluginSettings The settings the profile values are layered on top of. Defaults to the document's settings, including workspace folder and language-specific values.
+ * @returns A copy of the settings with the matching profile applied, or `pluginSettings` itself if no profile matches.
+ */
+export function resolveProfileSettings(
+    document: vscode.TextDocument,
+    pluginSettings: typeof settings = getDocumentSettings(document)
+): typeof settings {
+    const profile = pluginSettings.profiles.find(
+        (p) =>
+            (p.language || p.pattern) &&
+            vscode.languages.match(
+                { language: p.language, pattern: p.pattern },
+                document
+            ) > 0
+    );
+    if (!profile) return pluginSettings;
+
+    return {
+        ...pluginSettings,
+        voice:
+            profile.voice && VOICE_LIST.includes(profile.voice)
+                ? profile.voice
+                : pluginSettings.voice,
+        volume: profile.volume ?? pluginSettings.volume,
+        intonation_pitchShift:
+            profile.pitchShift ?? pluginSettings.intonation_pitchShift,
+        intonation_pitchVariation:
+            profile.pitchVariation ?? pluginSettings.intonation_pitchVariation,
+        specialPunctuation:
+            profile.specialPunctuation ?? pluginSettings.specialPunctuation,
+    };
+}
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { DEFAULT_SETTINGS, PluginSettings, SettingKey } from './pluginSettings';
+
+export interface SettingsChangeEvent {
+    /** The settings after the change. */
+    readonly settings: Readonly<PluginSettings>;
+    /** The settings whose value changed. */
+    readonly changedKeys: ReadonlySet<SettingKey>;
+    /**
+     * ### Checks whether a setting, or any setting in a section, changed.
+     * @param section A setting key such as `voicePack`, or a section such as `effects` or `mixer_maxVoices`.
+     */
+    affects(section: string): boolean;
+}
+
+const settingsChangeEmitter = new vscode.EventEmitter<SettingsChangeEvent>();
+
+// A frozen copy of the settings as of the last reload, which subsystems are handed instead of the mutable `settings` object.
+let latestSettings: Readonly<PluginSettings> = Object.freeze(structuredClone(DEFAULT_SETTINGS));
+
+/** Fires after the settings were reloaded and at least one of them changed. */
+export const onDidChangeSettings = settingsChangeEmitter.event;
+
+/**
+ * ### Calls a listener with the current settings right away, and again whenever they change.
+ * Lets subsystems keep the settings they need without reading the mutable `settings` object.
+ * @param listener Called with a frozen copy of the settings.
+ * @returns {vscode.Disposable} Stops calling the listener.
+ */
+export function watchSettings(listener: (settings: Readonly<PluginSettings>) => void): vscode.Disposable {
+    listener(latestSettings);
+    return onDidChangeSettings((event) => listener(event.settings));
+}
+
+/**
+ * ### Takes a copy of the reloaded settings, and tells subscribers which of them changed.
+ * @param settings The settings after the change.
+ * @param changedKeys The settings whose value changed. Nothing fires if this is empty.
+ */
+export function fireSettingsChange(settings: PluginSettings, changedKeys: Set<SettingKey>): void {
+    latestSettings = Object.freeze(structuredClone(settings));
+    if (!changedKeys.size) return;
+
+    settingsChangeEmitter.fire({
+        settings: latestSettings,
+        changedKeys,
+        affects: (section) =>
+            [...changedKeys].some((key) => key === section || key.startsWith(`${section}_`)),
+    });
+}
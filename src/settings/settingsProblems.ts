@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+import { getOutputChannel, logMessage } from '../outputChannel';
+
+// Problems already reported this session, so the warning doesn't come back on every configuration change.
+const REPORTED_PROBLEMS: Set<string> = new Set();
+
+/**
+ * ### Logs problems found in the settings to the output channel and shows a warning, leaving out problems that were already reported.
+ * @param problems The problems found in the settings.
+ */
+export function reportSettingsProblems(problems: string[]): void {
+    const newProblems = problems.filter((problem) => !REPORTED_PROBLEMS.has(problem));
+    if (!newProblems.length) return;
+    newProblems.forEach((problem) => REPORTED_PROBLEMS.add(problem));
+
+    newProblems.forEach(logMessage);
+
+    vscode.window
+        .showWarningMessage(
+            newProblems.length === 1
+                ? `Animalese: ${newProblems[0]}`
+                : `Animalese found ${newProblems.length} problems in its settings and used safe values instead.`,
+            'Show Details'
+        )
+        .then((choice) => {
+            if (choice) getOutputChannel().show();
+        });
+}
@@ -0,0 +1,365 @@
+import path from 'path';
+import { DEFAULT_SETTINGS, PluginSettings, SettingKey } from './pluginSettings';
+import { VOICE_LIST } from '../constants/voiceList';
+import { NOTE_NAMES, SCALES } from '../constants/scales';
+import { OUTPUT_SAMPLE_RATES, RENDER_SAMPLE_RATES } from '../constants/sampleRates';
+import { SOUND_THEMES } from '../themes/soundThemes';
+import type { VoiceProfile } from './profiles';
+import type { EditSoundBehavior } from '../editClassification';
+import type { StealPolicy } from '../mixer';
+import type { IntonationPreset } from '../intonation';
+import type { BracketScale } from '../syntax/bracketHarmony';
+import { DebugMuteMode, Weekday, WEEKDAYS } from '../autoMute/muteRules';
+import { LATENCY_CATEGORIES, LatencyCategory } from '../engine/outputOptions';
+import { EVENT_SOUND_NAMES, EventSound, EventSoundName } from '../constants/eventSounds';
+import { PHRASE_KEYS, SFX_NAMES } from '../constants/charTypes';
+
+export interface ValidatedSetting<T> {
+    value: T;
+    /** What was wrong with the configured value, or `null` if it was used as is. */
+    problem: string | null;
+}
+
+/** Checks a configured value, returning a value that is safe to use. */
+export type SettingValidator<T> = (value: unknown, defaultValue: T) => ValidatedSetting<T>;
+
+interface NumberRange {
+    minimum?: number;
+    maximum?: number;
+    integer?: boolean;
+}
+
+/**
+ * ### Describes a configured value for problem messages.
+ * @param value The configured value.
+ */
+function describe(value: unknown): string {
+    return typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * ### Validates a number, rounding it if it should be an integer and clamping it to its range.
+ * @param range The allowed range of the number.
+ */
+function numberSetting({ minimum = -Infinity, maximum = Infinity, integer = false }: NumberRange = {}): SettingValidator<number> {
+    return (value, defaultValue) => {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            return { value: defaultValue, problem: `${describe(value)} is not a number. Using ${defaultValue} instead.` };
+        }
+
+        const rounded = integer ? Math.round(value) : value;
+        const clamped = Math.min(maximum, Math.max(minimum, rounded));
+        if (clamped !== value) {
+            const reason =
+                clamped > rounded
+                    ? `below the minimum of ${minimum}`
+                    : clamped < rounded
+                      ? `above the maximum of ${maximum}`
+                      : 'not a whole number';
+            return { value: clamped, problem: `${value} is ${reason}. Using ${clamped} instead.` };
+        }
+        return { value, problem: null };
+    };
+}
+
+/**
+ * ### Validates a boolean.
+ */
+function booleanSetting(): SettingValidator<boolean> {
+    return (value, defaultValue) =>
+        typeof value === 'boolean'
+            ? { value, problem: null }
+            : { value: defaultValue, problem: `${describe(value)} is not true or false. Using ${defaultValue} instead.` };
+}
+
+/**
+ * ### Validates a string.
+ */
+function stringSetting(): SettingValidator<string> {
+    return (value, defaultValue) =>
+        typeof value === 'string'
+            ? { value, problem: null }
+            : { value: defaultValue, problem: `${describe(value)} is not text. Using ${describe(defaultValue)} instead.` };
+}
+
+/**
+ * ### Validates a string that has to match a pattern.
+ * @param pattern The pattern the whole string has to match.
+ * @param description What the string should look like, for problem messages.
+ */
+function patternSetting(pattern: RegExp, description: string): SettingValidator<string> {
+    return (value, defaultValue) =>
+        typeof value === 'string' && pattern.test(value)
+            ? { value, problem: null }
+            : { value: defaultValue, problem: `${describe(value)} is not ${description}. Using ${describe(defaultValue)} instead.` };
+}
+
+/**
+ * ### Validates a value that has to be one of a fixed set.
+ * @param getOptions Gets the allowed values. Only called while validating, so lists built by other modules can be used.
+ */
+function enumSetting<T extends string | number>(getOptions: () => readonly T[]): SettingValidator<T> {
+    return (value, defaultValue) => {
+        const options = getOptions();
+        if (options.includes(value as T)) return { value: value as T, problem: null };
+        return {
+            value: defaultValue,
+            problem: `${describe(value)} is not one of ${options.map(describe).join(', ')}. Using ${describe(defaultValue)} instead.`,
+        };
+    };
+}
+
+/**
+ * ### Validates a list, leaving out any item that doesn't pass the item check.
+ * @param isItem Checks whether an item is valid.
+ * @param itemDescription What each item should be, for problem messages.
+ */
+function arraySetting<T>(isItem: (item: unknown) => item is T, itemDescription: string): SettingValidator<T[]> {
+    return (value, defaultValue) => {
+        if (!Array.isArray(value)) {
+            return { value: defaultValue, problem: `${describe(value)} is not a list. Using ${describe(defaultValue)} instead.` };
+        }
+        const items = value.filter(isItem);
+        return items.length === value.length
+            ? { value: items, problem: null }
+            : { value: items, problem: `${value.length - items.length} item(s) are not ${itemDescription} and were left out.` };
+    };
+}
+
+/**
+ * ### Validates an object of strings, leaving out any entry that isn't a string.
+ */
+function stringRecordSetting(): SettingValidator<Record<string, string>> {
+    return (value, defaultValue) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            return { value: defaultValue, problem: `${describe(value)} is not an object. Using ${describe(defaultValue)} instead.` };
+        }
+        const entries = Object.entries(value);
+        const validEntries = entries.filter(([, v]) => typeof v === 'string');
+        return {
+            value: Object.fromEntries(validEntries),
+            problem:
+                validEntries.length === entries.length
+                    ? null
+                    : `${entries.length - validEntries.length} entry(s) are not text and were left out.`,
+        };
+    };
+}
+
+/**
+ * ### Checks whether an event sound names a built-in sound effect, a villager phrase, an absolute path or `none`.
+ */
+function isEventSoundValue(sound: unknown): boolean {
+    if (typeof sound !== 'string') return false;
+    const [kind, name] = sound.split(/:(.*)/s);
+    if (kind === 'sfx') return SFX_NAMES.includes(name);
+    if (kind === 'phrase') return PHRASE_KEYS.includes(`phrase_${name}`);
+    return sound === 'none' || path.isAbsolute(sound);
+}
+
+/**
+ * ### Validates the sounds of workbench events. Events left out keep their default sound, and an event's volume defaults to 50%.
+ */
+function eventSoundsSetting(): SettingValidator<Record<EventSoundName, EventSound>> {
+    return (value, defaultValue) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            return { value: defaultValue, problem: `${describe(value)} is not an object. Using the default sounds instead.` };
+        }
+
+        const eventSounds = { ...defaultValue };
+        const invalidEvents: string[] = [];
+        Object.entries(value).forEach(([name, eventSound]) => {
+            const volume = eventSound?.volume ?? 50;
+            const isValid =
+                EVENT_SOUND_NAMES.includes(name as EventSoundName) &&
+                isEventSoundValue(eventSound?.sound) &&
+                typeof volume === 'number' &&
+                volume >= 0 &&
+                volume <= 100;
+            if (isValid) eventSounds[name as EventSoundName] = { sound: eventSound.sound, volume };
+            else invalidEvents.push(name);
+        });
+        return {
+            value: eventSounds,
+            problem: invalidEvents.length
+                ? `${invalidEvents.map(describe).join(', ')} should be one of ${EVENT_SOUND_NAMES.join(', ')}, with a "sound" of sfx:<name>, phrase:<name>, an absolute path or none, and a "volume" between 0-100. Using the default sound instead.`
+                : null,
+        };
+    };
+}
+
+const isString = (item: unknown): item is string => typeof item === 'string';
+const isWeekday = (item: unknown): item is Weekday => WEEKDAYS.includes(item as Weekday);
+
+// The settings each field of a voice profile overrides, whose validators the field goes through.
+const PROFILE_OVERRIDES = {
+    voice: 'voice',
+    volume: 'volume',
+    pitchShift: 'intonation_pitchShift',
+    pitchVariation: 'intonation_pitchVariation',
+    specialPunctuation: 'specialPunctuation',
+} as const satisfies Partial<Record<keyof VoiceProfile, SettingKey>>;
+
+/**
+ * ### Validates the voice profiles. Each overriding field is checked like the setting it overrides, and profiles that aren't objects are left out.
+ */
+function profilesSetting(): SettingValidator<VoiceProfile[]> {
+    return (value, defaultValue) => {
+        if (!Array.isArray(value)) {
+            return { value: defaultValue, problem: `${describe(value)} is not a list. Using ${describe(defaultValue)} instead.` };
+        }
+
+        const problems: string[] = [];
+        const profiles = value.flatMap((item, i): VoiceProfile[] => {
+            if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+                problems.push(`Profile ${i + 1} is not an object and was left out.`);
+                return [];
+            }
+
+            const profile: VoiceProfile = {};
+            for (const field of ['language', 'pattern'] as const) {
+                if (item[field] === undefined) continue;
+                if (typeof item[field] === 'string') profile[field] = item[field];
+                else problems.push(`Profile ${i + 1} ${field}: ${describe(item[field])} is not text and was left out.`);
+            }
+            for (const [field, key] of Object.entries(PROFILE_OVERRIDES) as [keyof typeof PROFILE_OVERRIDES, SettingKey][]) {
+                if (item[field] === undefined) continue;
+                const validator = SETTINGS_SCHEMA[key] as SettingValidator<unknown>;
+                const { value: fieldValue, problem } = validator(item[field], DEFAULT_SETTINGS[key]);
+                (profile as Record<string, unknown>)[field] = fieldValue;
+                if (problem) problems.push(`Profile ${i + 1} ${field}: ${problem}`);
+            }
+            return [profile];
+        });
+        return { value: profiles, problem: problems.length ? problems.join(' ') : null };
+    };
+}
+
+const EDIT_SOUND_BEHAVIORS: EditSoundBehavior[] = ['once', 'arpeggio', 'sfx', 'silent'];
+const editSoundSetting = enumSetting(() => EDIT_SOUND_BEHAVIORS);
+const maxVoicesSetting = numberSetting({ minimum: 1, integer: true });
+const timeOfDaySetting = patternSetting(/^([01]\d|2[0-3]):[0-5]\d$/, 'a time of day like "22:00"');
+
+// How every setting is validated, matching the constraints in package.json. Values that VS Code lets through anyway, such as those typed straight into settings.json, are fixed up here.
+export const SETTINGS_SCHEMA: { [K in SettingKey]: SettingValidator<PluginSettings[K]> } = {
+    volume: numberSetting({ minimum: 0, maximum: 100, integer: true }),
+    voice: enumSetting(() => VOICE_LIST),
+    intonation_pitchShift: numberSetting({ minimum: -12, maximum: 12 }),
+    intonation_pitchVariation: numberSetting({ minimum: 0, integer: true }),
+    intonation_louderUppercase: numberSetting({ minimum: 0 }),
+    intonation_preset: enumSetting<IntonationPreset>(() => ['classic', 'conversational', 'monotone']),
+    specialPunctuation: booleanSetting(),
+    soundOverride: stringSetting(),
+    showNotifications: booleanSetting(),
+    soundTheme: enumSetting(() => SOUND_THEMES.map((theme) => theme.id)),
+    soundThemes_typewriter_bellColumn: numberSetting({ minimum: 0, integer: true }),
+    soundThemes_musical_key: enumSetting(() => NOTE_NAMES),
+    soundThemes_musical_scale: enumSetting(() => Object.keys(SCALES)),
+    voicePack: stringSetting(),
+    voicePacks: arraySetting(isString, 'text'),
+    cursorMovement_enabled: booleanSetting(),
+    cursorMovement_throttle: numberSetting({ minimum: 0, integer: true }),
+    speech_syllableRate: numberSetting({ minimum: 1, maximum: 40 }),
+    render_sampleRate: enumSetting(() => RENDER_SAMPLE_RATES),
+    output_device: stringSetting(),
+    output_latency: enumSetting(() => Object.keys(LATENCY_CATEGORIES) as LatencyCategory[]),
+    output_sampleRate: enumSetting(() => OUTPUT_SAMPLE_RATES),
+    sampleCache_memoryBudget: numberSetting({ minimum: 1 }),
+    mixer_maxVoices_voice: maxVoicesSetting,
+    mixer_maxVoices_sfx: maxVoicesSetting,
+    mixer_maxVoices_melodic: maxVoicesSetting,
+    mixer_maxVoices_cursor: maxVoicesSetting,
+    mixer_maxVoices_reaction: maxVoicesSetting,
+    mixer_maxVoices_event: maxVoicesSetting,
+    mixer_maxTotalVoices: maxVoicesSetting,
+    mixer_stealPolicy: enumSetting<StealPolicy>(() => ['oldest', 'quietest']),
+    mixer_crossfade: numberSetting({ minimum: 0, maximum: 500, integer: true }),
+    mixer_legato: booleanSetting(),
+    effects_eq_lowGain: numberSetting({ minimum: -24, maximum: 24 }),
+    effects_eq_lowFrequency: numberSetting({ minimum: 20, maximum: 2000 }),
+    effects_eq_highGain: numberSetting({ minimum: -24, maximum: 24 }),
+    effects_eq_highFrequency: numberSetting({ minimum: 1000, maximum: 16000 }),
+    effects_reverb_mix: numberSetting({ minimum: 0, maximum: 100, integer: true }),
+    effects_reverb_decay: numberSetting({ minimum: 0.1, maximum: 10 }),
+    effects_compressor: booleanSetting(),
+    effects_panning_enabled: booleanSetting(),
+    effects_panning_width: numberSetting({ minimum: 0, maximum: 100, integer: true }),
+    syntaxSounds_enabled: booleanSetting(),
+    syntaxSounds_useSemanticTokens: booleanSetting(),
+    syntaxSounds_keywordPitch: numberSetting({ minimum: -12, maximum: 12 }),
+    bracketHarmony_enabled: booleanSetting(),
+    bracketHarmony_scale: enumSetting<BracketScale>(() => ['major', 'minor', 'pentatonic', 'chromatic']),
+    stats_enabled: booleanSetting(),
+    terminalSounds_enabled: booleanSetting(),
+    terminalSounds_announceStart: booleanSetting(),
+    terminalSounds_minimumDuration: numberSetting({ minimum: 0 }),
+    terminalSounds_excludedTerminals: arraySetting(isString, 'text'),
+    eventSounds_enabled: booleanSetting(),
+    eventSounds_sounds: eventSoundsSetting(),
+    autoMute_debugging: enumSetting<DebugMuteMode>(() => ['off', 'active', 'paused']),
+    autoMute_terminalFocus: booleanSetting(),
+    autoMute_webviewFocus: booleanSetting(),
+    autoMute_windowUnfocused: booleanSetting(),
+    autoMute_quietHours_enabled: booleanSetting(),
+    autoMute_quietHours_start: timeOfDaySetting,
+    autoMute_quietHours_end: timeOfDaySetting,
+    autoMute_quietHours_days: arraySetting(isWeekday, `one of ${WEEKDAYS.join(', ')}`),
+    diagnostics_errorReaction: booleanSetting(),
+    diagnostics_fixReaction: booleanSetting(),
+    diagnostics_reactionStyle: enumSetting(() => ['villager', 'melody']),
+    diagnostics_debounce: numberSetting({ minimum: 0, integer: true }),
+    profiles: profilesSetting(),
+    characterMap: stringRecordSetting(),
+    filters_allowedSchemes: arraySetting(isString, 'text'),
+    filters_deniedSchemes: arraySetting(isString, 'text'),
+    filters_allowedLanguages: arraySetting(isString, 'text'),
+    filters_deniedLanguages: arraySetting(isString, 'text'),
+    editSounds_typed: editSoundSetting,
+    editSounds_multiCursor: editSoundSetting,
+    editSounds_paste: editSoundSetting,
+    editSounds_replacement: editSoundSetting,
+    editSounds_undoRedo: editSoundSetting,
+    editSounds_bulk: editSoundSetting,
+    editSounds_programmatic: editSoundSetting,
+};
+
+/**
+ * ### Gets the id of a setting as it appears in settings.json.
+ * @param key The key of the setting, with underscores instead of dots.
+ */
+export function getSettingId(key: SettingKey): string {
+    return `vscode-animalese.${key.replaceAll('_', '.')}`;
+}
+
+/**
+ * ### Validates a single setting. A missing value silently falls back to the default.
+ * @param key The key of the setting.
+ * @param value The configured value.
+ * @returns The value to use, and what was wrong with the configured value if anything, prefixed with the setting's id.
+ */
+export function validateSetting<K extends SettingKey>(key: K, value: unknown): ValidatedSetting<PluginSettings[K]> {
+    const defaultValue = structuredClone(DEFAULT_SETTINGS[key]);
+    if (value === undefined || value === null) return { value: defaultValue, problem: null };
+
+    const { value: validValue, problem } = SETTINGS_SCHEMA[key](value, defaultValue);
+    return { value: validValue, problem: problem && `${getSettingId(key)}: ${problem}` };
+}
+
+/**
+ * ### Validates every setting.
+ * @param values The configured values, keyed like the `settings` object. Missing values fall back to their defaults.
+ * @returns The settings to use, along with every problem found.
+ */
+export function validateSettings(values: Partial<Record<SettingKey, unknown>>): {
+    settings: PluginSettings;
+    problems: string[];
+} {
+    const validSettings = structuredClone(DEFAULT_SETTINGS);
+    const problems: string[] = [];
+    (Object.keys(SETTINGS_SCHEMA) as SettingKey[]).forEach((key) => {
+        const { value, problem } = validateSetting(key, values[key]);
+        (validSettings as any)[key] = value;
+        if (problem) problems.push(problem);
+    });
+    return { settings: validSettings, problems };
+}
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+
+export type SettingsScopeName = 'global' | 'workspace' | 'workspaceFolder' | 'language';
+
+export interface SettingsScope {
+    name: SettingsScopeName;
+    label: string;
+    target: vscode.ConfigurationTarget;
+    /** The document whose folder or language the setting is saved for. */
+    document?: vscode.TextDocument;
+    overrideInLanguage: boolean;
+}
+
+export const SETTINGS_SCOPE_NAMES: SettingsScopeName[] = ['global', 'workspace', 'workspaceFolder', 'language'];
+
+/**
+ * ### Lists the scopes a setting can be saved to right now.
+ * The workspace folder is only offered in multi-root workspaces, since it is the same as the workspace otherwise. Language-specific settings are saved to the workspace when there is one, and to the user settings otherwise.
+ * @param document The document the setting is meant for, usually the one in the active editor.
+ * @returns {SettingsScope[]} The available scopes, from broadest to narrowest.
+ */
+export function getSettingsScopes(document?: vscode.TextDocument): SettingsScope[] {
+    const hasWorkspace = !!vscode.workspace.workspaceFolders?.length;
+    const scopes: SettingsScope[] = [
+        {
+            name: 'global',
+            label: 'All Workspaces',
+            target: vscode.ConfigurationTarget.Global,
+            overrideInLanguage: false,
+        },
+    ];
+
+    if (hasWorkspace) {
+        scopes.push({
+            name: 'workspace',
+            label: 'This Workspace',
+            target: vscode.ConfigurationTarget.Workspace,
+            overrideInLanguage: false,
+        });
+    }
+
+    const folder = document && vscode.workspace.getWorkspaceFolder(document.uri);
+    if (folder && vscode.workspace.workspaceFile) {
+        scopes.push({
+            name: 'workspaceFolder',
+            label: `The ${folder.name} Folder`,
+            target: vscode.ConfigurationTarget.WorkspaceFolder,
+            document,
+            overrideInLanguage: false,
+        });
+    }
+
+    if (document) {
+        scopes.push({
+            name: 'language',
+            label: `${document.languageId} Files${hasWorkspace ? ' in This Workspace' : ''}`,
+            target: hasWorkspace ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global,
+            document,
+            overrideInLanguage: true,
+        });
+    }
+
+    return scopes;
+}
+
+/**
+ * ### Works out which scope to save a setting to, asking the user unless a scope is given or only one is available.
+ * @param title The title of the quick pick, saying what is being saved.
+ * @param scopeName The scope passed to the command, if any.
+ * @returns The scope, or `undefined` if the user cancelled or the given scope isn't available.
+ */
+export async function pickSettingsScope(
+    title: string,
+    scopeName?: SettingsScopeName
+): Promise<SettingsScope | undefined> {
+    const scopes = getSettingsScopes(vscode.window.activeTextEditor?.document);
+
+    if (scopeName) {
+        const scope = scopes.find((s) => s.name === scopeName);
+        if (!scope) {
+            vscode.window.showErrorMessage(
+                `Settings can't be saved to the ${scopeName} scope here. Available scopes: ${scopes.map((s) => s.name).join(', ')}.`
+            );
+        }
+        return scope;
+    }
+
+    if (scopes.length === 1) return scopes[0];
+    return vscode.window.showQuickPick(scopes, { title });
+}
@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import { getVoiceFilePath } from './get/filePath';
+import getAudioData from './get/audioData';
+import { calculatePitch, calculateVolume, getFalloffTime } from './audio';
+import { isAlphabetical } from './charTypeChecks';
+import type { PluginSettings } from './settings/pluginSettings';
+import { VOICE_LIST } from './constants/voiceList';
+import { getAudioEngine } from './engine/engineState';
+import { AudioEngine, PlaybackHandle } from './engine/types';
+
+export interface UtteranceSyllable {
+    key: string;
+    /** Time in seconds from the start of the utterance. */
+    time: number;
+    /** Pitch in cents added on top of the usual key pitch. */
+    pitchOffset: number;
+    /** Multiplier applied to the usual key volume. */
+    volumeMultiplier: number;
+}
+
+// Pauses, in syllables, that follow each kind of non-letter character.
+const PAUSES: Record<string, number> = {
+    ' ': 1,
+    '\t': 1,
+    ',': 2,
+    ';': 2,
+    ':': 2,
+    '.': 4,
+    '!': 4,
+    '?': 4,
+    '\n': 4,
+};
+
+const QUESTION_RISE = 400; // Cents reached by the last syllable before a `?`
+const EXCLAMATION_PITCH = 150; // Cents added to every syllable of a word followed by a `!`
+const EXCLAMATION_VOLUME = 1.4;
+const MAX_UTTERANCE_LENGTH = 2000;
+const SYLLABLE_OVERLAP = 1.5; // How many syllables long each syllable is allowed to ring for
+
+let activeSounds: PlaybackHandle[] = [];
+let utteranceCount = 0; // Lets an utterance that is still loading notice it has been cancelled.
+let finishTimeout: NodeJS.Timeout | null = null;
+let statusBarItem: vscode.StatusBarItem | null = null;
+
+/**
+ * ### Turns text into a timeline of syllables, adding pauses and intonation for whitespace and punctuation.
+ * Only letters are voiced. Any other character without a pause is skipped.
+ * @param text The text to speak.
+ * @param syllableRate How many syllables are spoken per second.
+ * @returns {UtteranceSyllable[]} The syllables of the utterance, in the order they are spoken.
+ */
+export function planUtterance(text: string, syllableRate: number): UtteranceSyllable[] {
+    const syllables: UtteranceSyllable[] = [];
+    const syllableLength = 1 / syllableRate;
+    let time = 0;
+    let wordStart = 0;
+
+    for (const char of text.replaceAll('\r', '').slice(0, MAX_UTTERANCE_LENGTH)) {
+        if (isAlphabetical(char)) {
+            syllables.push({ key: char, time, pitchOffset: 0, volumeMultiplier: 1 });
+            time += syllableLength;
+            continue;
+        }
+
+        const word = syllables.slice(wordStart);
+        if (char === '?') {
+            word.forEach((syllable, i) => {
+                syllable.pitchOffset += (QUESTION_RISE * (i + 1)) / word.length;
+            });
+        }
+        if (char === '!') {
+            word.forEach((syllable) => {
+                syllable.pitchOffset += EXCLAMATION_PITCH;
+                syllable.volumeMultiplier *= EXCLAMATION_VOLUME;
+            });
+        }
+
+        if (char in PAUSES) {
+            time += PAUSES[char] * syllableLength;
+            wordStart = syllables.length;
+        }
+    }
+
+    return syllables;
+}
+
+/**
+ * ### Gets the status bar item shown while speaking, creating it if needed.
+ * @returns {vscode.StatusBarItem} The status bar item.
+ */
+function getStatusBarItem(): vscode.StatusBarItem {
+    if (!statusBarItem) {
+        statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+        statusBarItem.text = '$(megaphone) Speaking...';
+        statusBarItem.tooltip = 'Animalese is speaking. Click to stop.';
+        statusBarItem.command = 'vscode-animalese.stopSpeaking';
+    }
+    return statusBarItem;
+}
+
+/**
+ * ### Schedules every syllable of an utterance on an audio engine's timeline.
+ * Pitch, volume and falloff follow the same rules as typing sounds.
+ * @param engine The audio engine to schedule the syllables in. May wrap an offline context.
+ * @param extensionPath The path of the extension, used to locate the bundled sounds.
+ * @param syllables The syllables to schedule, as returned by `planUtterance`.
+ * @param pluginSettings The settings to speak with.
+ * @param startTime The time the utterance starts at, in the audio engine's timeline.
+ * @param random The random number generator used for pitch variation.
+ * @returns {PlaybackHandle[]} The scheduled syllables, so they can be stopped early.
+ */
+export async function scheduleUtterance(
+    engine: AudioEngine,
+    extensionPath: string,
+    syllables: UtteranceSyllable[],
+    pluginSettings: PluginSettings,
+    startTime: number,
+    random: () => number = Math.random
+): Promise<PlaybackHandle[]> {
+    const syllableLength = 1 / pluginSettings.speech_syllableRate;
+    const vocalIndex = VOICE_LIST.indexOf(pluginSettings.voice);
+
+    // Decode everything up front so the timeline doesn't drift while files are loading.
+    const audioData = await Promise.all(
+        syllables.map(({ key }) =>
+            getAudioData(getVoiceFilePath(extensionPath, key, vocalIndex, pluginSettings), engine)
+        )
+    );
+
+    return syllables.map((syllable, i) => {
+        const { audioBuffer, delay } = audioData[i];
+        // Each syllable is cut short slightly after the next one starts, like the game's speech.
+        return engine.playBuffer({
+            buffer: audioBuffer,
+            startTime: startTime + syllable.time,
+            offset: delay,
+            detune: calculatePitch(syllable.key, pluginSettings, random) + syllable.pitchOffset,
+            volume: calculateVolume(syllable.key, pluginSettings) * syllable.volumeMultiplier,
+            falloff: getFalloffTime(syllable.key),
+            fadeIn: 0,
+            duration: syllableLength * SYLLABLE_OVERLAP,
+            pan: 0,
+        });
+    });
+}
+
+/**
+ * ### Gets how long an utterance lasts, from the start of its first syllable to the end of its last.
+ * @param syllables The syllables of the utterance.
+ * @param syllableRate How many syllables are spoken per second.
+ * @returns {number} The duration in seconds.
+ */
+export function getUtteranceDuration(syllables: UtteranceSyllable[], syllableRate: number): number {
+    if (!syllables.length) return 0;
+    return syllables[syllables.length - 1].time + SYLLABLE_OVERLAP / syllableRate;
+}
+
+/**
+ * ### Speaks text aloud in Animalese, cancelling anything that was already being spoken.
+ * @param extensionPath The path of the extension, used to locate the bundled sounds.
+ * @param text The text to speak.
+ * @param pluginSettings The settings to speak with, which may differ from the global settings when a voice profile applies.
+ */
+export async function speakText(
+    extensionPath: string,
+    text: string,
+    pluginSettings: PluginSettings
+): Promise<void> {
+    stopSpeaking();
+    const utterance = utteranceCount;
+
+    const syllables = planUtterance(text, pluginSettings.speech_syllableRate);
+    if (!syllables.length) return;
+
+    const engine = getAudioEngine();
+    const startTime = engine.currentTime + 0.05;
+    const sounds = await scheduleUtterance(
+        engine,
+        extensionPath,
+        syllables,
+        pluginSettings,
+        startTime
+    );
+    if (utterance !== utteranceCount) {
+        sounds.forEach((sound) => sound.stop());
+        return;
+    }
+    activeSounds = sounds;
+
+    getStatusBarItem().show();
+    finishTimeout = setTimeout(
+        stopSpeaking,
+        (startTime -
+            engine.currentTime +
+            getUtteranceDuration(syllables, pluginSettings.speech_syllableRate)) *
+            1000
+    );
+}
+
+/**
+ * ### Stops the current utterance, if there is one.
+ */
+export function stopSpeaking(): void {
+    utteranceCount++;
+    activeSounds.forEach((sound) => sound.stop());
+    activeSounds = [];
+
+    if (finishTimeout) {
+        clearTimeout(finishTimeout);
+        finishTimeout = null;
+    }
+    statusBarItem?.hide();
+}
+
+/**
+ * ### Removes the status bar item shown while speaking.
+ */
+export function disposeSpeech(): void {
+    stopSpeaking();
+    statusBarItem?.dispose();
+    statusBarItem = null;
+}
@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import { speakText } from '../speech';
+import type { PluginSettings } from '../settings/pluginSettings';
+import {
+    DailyStats,
+    getBackspaceRatio,
+    getKeysPerMinute,
+    getTopCharacters,
+    getWordsPerMinute,
+} from './typingStats';
+
+interface ChartBar {
+    label: string;
+    value: number;
+}
+
+const TOP_CHARACTER_COUNT = 10;
+const CHART_WIDTH = 480;
+const BAR_HEIGHT = 18;
+
+let recapPanel: vscode.WebviewPanel | null = null;
+
+/**
+ * ### Escapes text so it can be placed in HTML.
+ * @param text The text to escape.
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replaceAll('&', '&amp;')
+        .replaceAll('<', '&lt;')
+        .replaceAll('>', '&gt;')
+        .replaceAll('"', '&quot;');
+}
+
+/**
+ * ### Gets a readable name for a typed character.
+ * @param character The character.
+ */
+function describeCharacter(character: string): string {
+    const names: Record<string, string> = { ' ': 'space', '\n': 'enter', tab: 'tab' };
+    return names[character] ?? character;
+}
+
+/**
+ * ### Formats a duration in minutes, or hours once it is long enough.
+ * @param time The duration, in milliseconds.
+ */
+function formatDuration(time: number): string {
+    const minutes = Math.round(time / 60000);
+    return minutes < 60 ? `${minutes} min` : `${(minutes / 60).toFixed(1)} h`;
+}
+
+/**
+ * ### Draws a horizontal bar chart as an SVG, so the panel doesn't need any scripts.
+ * @param bars The bars to draw, from top to bottom.
+ * @param formatValue Formats the value shown next to each bar.
+ * @returns {string} The SVG markup.
+ */
+function renderBarChart(bars: ChartBar[], formatValue: (value: number) => string = String): string {
+    const max = Math.max(1, ...bars.map((bar) => bar.value));
+    const labelWidth = 90;
+    const barWidth = CHART_WIDTH - labelWidth - 70;
+    const rows = bars.map((bar, i) => {
+        const y = i * (BAR_HEIGHT + 4);
+        const width = Math.max(1, (bar.value / max) * barWidth);
+        return `<text x="${labelWidth - 8}" y="${y + BAR_HEIGHT - 5}" text-anchor="end">${escapeHtml(bar.label)}</text>
+            <rect x="${labelWidth}" y="${y}" width="${width}" height="${BAR_HEIGHT}" rx="3"></rect>
+            <text x="${labelWidth + width + 6}" y="${y + BAR_HEIGHT - 5}">${escapeHtml(formatValue(bar.value))}</text>`;
+    });
+    return `<svg width="${CHART_WIDTH}" height="${bars.length * (BAR_HEIGHT + 4)}">${rows.join('')}</svg>`;
+}
+
+/**
+ * ### Draws the keys typed in each hour of the day as a column chart.
+ * @param hours How many keys were typed in each hour.
+ * @returns {string} The SVG markup.
+ */
+function renderHourChart(hours: number[]): string {
+    const height = 120;
+    const columnWidth = CHART_WIDTH / 24;
+    const max = Math.max(1, ...hours);
+    const columns = hours.map((keys, hour) => {
+        const columnHeight = (keys / max) * (height - 20);
+        const x = hour * columnWidth;
+        const label = hour % 6 === 0 ? `<text x="${x}" y="${height}">${hour}:00</text>` : '';
+        return `<rect x="${x + 1}" y="${height - 16 - columnHeight}" width="${columnWidth - 2}" height="${columnHeight}" rx="2"><title>${hour}:00 – ${keys} keys</title></rect>${label}`;
+    });
+    return `<svg width="${CHART_WIDTH}" height="${height}">${columns.join('')}</svg>`;
+}
+
+/**
+ * ### Writes the recap the villager speaks at the end of the summary.
+ * @param day The statistics of the day.
+ * @returns {string} The recap.
+ */
+export function getRecapText(day: DailyStats): string {
+    const [topLanguage] = Object.entries(day.languages).sort(([, a], [, b]) => b - a);
+    const languageLine = topLanguage ? ` Most of your time went to ${topLanguage[0]}.` : '';
+    const backspaceRatio = getBackspaceRatio(day);
+    const closingLine =
+        backspaceRatio > 0.15 ? 'Lots of fixing today, but that counts too!' : 'What a tidy day of typing!';
+
+    return `Today you typed ${day.keys} keys and ${day.words} words, at ${getWordsPerMinute(day)} words per minute. Your longest streak was ${day.longestStreak} keys in a row.${languageLine} ${closingLine}`;
+}
+
+/**
+ * ### Builds the HTML of the recap panel.
+ * @param day The statistics of the day to summarize.
+ * @param recap The recap spoken at the end.
+ * @returns {string} The HTML.
+ */
+function renderRecapHtml(day: DailyStats, recap: string): string {
+    const metrics = [
+        ['Keys', day.keys],
+        ['Words', day.words],
+        ['Keys per minute', getKeysPerMinute(day)],
+        ['Words per minute', getWordsPerMinute(day)],
+        ['Backspaces', `${Math.round(getBackspaceRatio(day) * 100)}%`],
+        ['Longest streak', day.longestStreak],
+        ['Time typing', formatDuration(day.activeTime)],
+    ];
+    const characters = getTopCharacters(day, TOP_CHARACTER_COUNT).map(([character, count]) => ({
+        label: describeCharacter(character),
+        value: count,
+    }));
+    const languages = Object.entries(day.languages)
+        .sort(([, a], [, b]) => b - a)
+        .map(([language, time]) => ({ label: language, value: time }));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <title>Typing Recap</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 20px 20px; }
+        .metrics { display: flex; flex-wrap: wrap; gap: 12px; }
+        .metric { border: 1px solid var(--vscode-panel-border); border-radius: 6px; padding: 8px 14px; min-width: 110px; }
+        .metric strong { display: block; font-size: 1.6em; }
+        svg text { fill: var(--vscode-foreground); font-size: 12px; }
+        svg rect { fill: var(--vscode-charts-green, #4caf50); }
+        blockquote { border-left: 4px solid var(--vscode-textBlockQuote-border); margin: 24px 0 0; padding: 8px 16px; font-style: italic; }
+    </style>
+</head>
+<body>
+    <h1>Typing Recap – ${escapeHtml(day.date)}</h1>
+    <div class="metrics">
+        ${metrics.map(([label, value]) => `<div class="metric"><strong>${escapeHtml(String(value))}</strong>${escapeHtml(String(label))}</div>`).join('')}
+    </div>
+    <h2>Keys per hour</h2>
+    ${renderHourChart(day.hours)}
+    <h2>Most typed characters</h2>
+    ${characters.length ? renderBarChart(characters) : '<p>No characters typed yet.</p>'}
+    <h2>Time per language</h2>
+    ${languages.length ? renderBarChart(languages, formatDuration) : '<p>Not enough typing to tell yet.</p>'}
+    <blockquote>${escapeHtml(recap)}</blockquote>
+</body>
+</html>`;
+}
+
+/**
+ * ### Shows the daily summary in a panel, then has the villager speak the recap in the current voice.
+ * @param extensionPath The path of the extension, used to locate the voice sounds.
+ * @param day The statistics of the day to summarize.
+ * @param pluginSettings The settings to speak the recap with.
+ */
+export function showRecapPanel(extensionPath: string, day: DailyStats, pluginSettings: PluginSettings): void {
+    if (!recapPanel) {
+        recapPanel = vscode.window.createWebviewPanel(
+            'vscode-animalese.typingRecap',
+            'Typing Recap',
+            vscode.ViewColumn.Active,
+            { enableScripts: false }
+        );
+        recapPanel.onDidDispose(() => {
+            recapPanel = null;
+        });
+    } else {
+        recapPanel.reveal();
+    }
+
+    const recap = getRecapText(day);
+    recapPanel.webview.html = renderRecapHtml(day, recap);
+    speakText(extensionPath, recap, pluginSettings);
+}
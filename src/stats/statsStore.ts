@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import path from 'path';
+import type { PluginSettings } from '../settings/pluginSettings';
+import {
+    createTypingSession,
+    createTypingStats,
+    recordKey,
+    TYPING_STATS_VERSION,
+    TypingStats,
+} from './typingStats';
+import { logMessage } from '../outputChannel';
+
+const STATS_FILE = 'typingStats.json';
+// How long to wait after a keypress before saving, in milliseconds, so typing doesn't write to disk constantly.
+const SAVE_DELAY = 30000;
+
+let statsPath: string | null = null;
+let stats: TypingStats = createTypingStats();
+let session = createTypingSession();
+let saveTimeout: NodeJS.Timeout | null = null;
+// Keys typed before the saved statistics finished loading, which are added to them once they have. `null` once loaded.
+let pendingKeys: { key: string; languageId: string; time: number }[] | null = [];
+
+/**
+ * ### Saves the statistics once typing has paused for a while, unless a save is already waiting.
+ */
+function scheduleSave(): void {
+    saveTimeout ??= setTimeout(
+        () =>
+            void saveTypingStats().catch((e) =>
+                logMessage(`Could not save the typing statistics: ${(e as Error).message}`)
+            ),
+        SAVE_DELAY
+    );
+}
+
+/**
+ * ### Loads the typing statistics kept in the extension's global storage. Missing or unreadable statistics start out empty.
+ * @param context The extension context, giving the location of the global storage.
+ */
+export async function loadTypingStats(context: vscode.ExtensionContext): Promise<void> {
+    statsPath = path.join(context.globalStorageUri.fsPath, STATS_FILE);
+    try {
+        const saved = JSON.parse(await fs.promises.readFile(statsPath, 'utf8')) as TypingStats;
+        if (saved.version === TYPING_STATS_VERSION && saved.days) stats = saved;
+    } catch (e) {
+        // Nothing has been recorded yet.
+    }
+
+    const keys = pendingKeys ?? [];
+    pendingKeys = null;
+    keys.forEach(({ key, languageId, time }) => recordKey(stats, session, key, languageId, time));
+    if (keys.length) scheduleSave();
+}
+
+/**
+ * ### Writes the typing statistics to the extension's global storage, if anything changed since they were last saved.
+ * A failed write, such as on a full or read-only disk, is logged, and the statistics are written again after the next keypress.
+ */
+export async function saveTypingStats(): Promise<void> {
+    if (!saveTimeout || !statsPath) return;
+    clearTimeout(saveTimeout);
+    saveTimeout = null;
+
+    try {
+        await fs.promises.mkdir(path.dirname(statsPath), { recursive: true });
+        await fs.promises.writeFile(statsPath, JSON.stringify(stats));
+    } catch (e) {
+        logMessage(`Could not save the typing statistics: ${(e as Error).message}`);
+    }
+}
+
+/**
+ * ### Adds a keypress to the typing statistics, if they are enabled. Nothing is sent anywhere; the statistics stay on this machine.
+ * @param key The typed key.
+ * @param languageId The language of the document being typed in.
+ * @param pluginSettings The settings of the document, deciding whether statistics are kept.
+ */
+export function recordTypingStats(key: string, languageId: string, pluginSettings: PluginSettings): void {
+    if (!pluginSettings.stats_enabled) return;
+    if (pendingKeys) {
+        pendingKeys.push({ key, languageId, time: Date.now() });
+        return;
+    }
+
+    recordKey(stats, session, key, languageId, Date.now());
+    scheduleSave();
+}
+
+/**
+ * ### Gets the typing statistics recorded so far.
+ * @returns {TypingStats} The statistics, which should not be modified.
+ */
+export function getTypingStats(): TypingStats {
+    return stats;
+}
+
+/**
+ * ### Deletes every recorded statistic, both in memory and on disk.
+ */
+export async function deleteTypingStats(): Promise<void> {
+    if (saveTimeout) clearTimeout(saveTimeout);
+    saveTimeout = null;
+    stats = createTypingStats();
+    session = createTypingSession();
+
+    if (statsPath) await fs.promises.rm(statsPath, { force: true });
+}
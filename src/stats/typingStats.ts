@@ -0,0 +1,218 @@
+export interface DailyStats {
+    /** The local date, as `YYYY-MM-DD`. */
+    date: string;
+    keys: number;
+    words: number;
+    backspaces: number;
+    /** How often each character was typed, with letters in lowercase. */
+    characters: Record<string, number>;
+    /** The most keys typed in a row without pressing backspace. */
+    longestStreak: number;
+    /** Time spent typing, in milliseconds. Pauses longer than `IDLE_TIMEOUT` aren't counted. */
+    activeTime: number;
+    /** Time spent typing in each language, in milliseconds. */
+    languages: Record<string, number>;
+    /** How many keys were typed in each hour of the day. */
+    hours: number[];
+}
+
+export interface TypingStats {
+    version: number;
+    days: Record<string, DailyStats>;
+}
+
+/** Where the current typing session is up to. Not saved, since it only matters while typing. */
+export interface TypingSession {
+    lastKeyTime: number | null;
+    streak: number;
+    inWord: boolean;
+}
+
+export const TYPING_STATS_VERSION = 1;
+
+// Pauses longer than this, in milliseconds, count as a break rather than time spent typing.
+const IDLE_TIMEOUT = 5000;
+
+/**
+ * ### Creates empty statistics.
+ * @returns {TypingStats} Statistics without any days.
+ */
+export function createTypingStats(): TypingStats {
+    return { version: TYPING_STATS_VERSION, days: {} };
+}
+
+/**
+ * ### Creates a session that hasn't typed anything yet.
+ * @returns {TypingSession} The session.
+ */
+export function createTypingSession(): TypingSession {
+    return { lastKeyTime: null, streak: 0, inWord: false };
+}
+
+/**
+ * ### Formats a time as a local date.
+ * @param time The time, in milliseconds since the epoch.
+ * @returns {string} The date, as `YYYY-MM-DD`.
+ */
+export function toDateKey(time: number): string {
+    const date = new Date(time);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * ### Gets the statistics of a day, adding the day if it hasn't been typed in yet.
+ * @param stats The statistics to look in.
+ * @param date The date, as `YYYY-MM-DD`.
+ * @returns {DailyStats} The statistics of the day.
+ */
+function getDay(stats: TypingStats, date: string): DailyStats {
+    stats.days[date] ??= {
+        date,
+        keys: 0,
+        words: 0,
+        backspaces: 0,
+        characters: {},
+        longestStreak: 0,
+        activeTime: 0,
+        languages: {},
+        hours: new Array(24).fill(0),
+    };
+    return stats.days[date];
+}
+
+/**
+ * ### Adds a keypress to the statistics.
+ * @param stats The statistics to update.
+ * @param session The current typing session, which is updated too.
+ * @param key The typed key, as passed to `playKey`.
+ * @param languageId The language of the document being typed in.
+ * @param time When the key was typed, in milliseconds since the epoch.
+ */
+export function recordKey(
+    stats: TypingStats,
+    session: TypingSession,
+    key: string,
+    languageId: string,
+    time: number
+): void {
+    const day = getDay(stats, toDateKey(time));
+    day.keys++;
+    day.hours[new Date(time).getHours()]++;
+
+    if (session.lastKeyTime !== null && time - session.lastKeyTime <= IDLE_TIMEOUT) {
+        const elapsed = time - session.lastKeyTime;
+        day.activeTime += elapsed;
+        day.languages[languageId] = (day.languages[languageId] ?? 0) + elapsed;
+    }
+    session.lastKeyTime = time;
+
+    if (key === 'backspace') {
+        day.backspaces++;
+        session.streak = 0;
+        return;
+    }
+    session.streak++;
+    day.longestStreak = Math.max(day.longestStreak, session.streak);
+
+    // A word is counted once it ends, so backspacing over a half-typed word doesn't count it.
+    const isWordCharacter = /^\p{L}$/u.test(key);
+    if (!isWordCharacter && session.inWord) day.words++;
+    session.inWord = isWordCharacter;
+
+    const character = key.includes('\n') ? '\n' : key.toLowerCase();
+    if ([...character].length === 1) {
+        day.characters[character] = (day.characters[character] ?? 0) + 1;
+    }
+}
+
+/**
+ * ### Gets how many keys were typed per minute of typing.
+ * @param day The statistics of the day.
+ * @returns {number} The keys per minute, rounded.
+ */
+export function getKeysPerMinute(day: DailyStats): number {
+    return day.activeTime ? Math.round(day.keys / (day.activeTime / 60000)) : 0;
+}
+
+/**
+ * ### Gets how many words were typed per minute of typing.
+ * @param day The statistics of the day.
+ * @returns {number} The words per minute, rounded.
+ */
+export function getWordsPerMinute(day: DailyStats): number {
+    return day.activeTime ? Math.round(day.words / (day.activeTime / 60000)) : 0;
+}
+
+/**
+ * ### Gets which share of keypresses were backspaces.
+ * @param day The statistics of the day.
+ * @returns {number} The ratio, between 0 and 1.
+ */
+export function getBackspaceRatio(day: DailyStats): number {
+    return day.keys ? day.backspaces / day.keys : 0;
+}
+
+/**
+ * ### Gets the most typed characters of a day, most typed first.
+ * @param day The statistics of the day.
+ * @param count How many characters to get.
+ * @returns The characters and how often they were typed.
+ */
+export function getTopCharacters(day: DailyStats, count: number): [string, number][] {
+    return Object.entries(day.characters)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, count);
+}
+
+/**
+ * ### Quotes a CSV field if needed.
+ * @param value The value of the field.
+ */
+function toCsvField(value: string | number): string {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * ### Turns statistics into CSV, with one row per day.
+ * @param stats The statistics to export.
+ * @returns {string} The CSV text.
+ */
+export function typingStatsToCsv(stats: TypingStats): string {
+    const header = [
+        'date',
+        'keys',
+        'words',
+        'backspaces',
+        'keysPerMinute',
+        'wordsPerMinute',
+        'backspaceRatio',
+        'longestStreak',
+        'activeMinutes',
+        'topCharacters',
+        'languageMinutes',
+    ];
+    const rows = Object.values(stats.days)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map((day) => [
+            day.date,
+            day.keys,
+            day.words,
+            day.backspaces,
+            getKeysPerMinute(day),
+            getWordsPerMinute(day),
+            getBackspaceRatio(day).toFixed(3),
+            day.longestStreak,
+            (day.activeTime / 60000).toFixed(1),
+            getTopCharacters(day, 10)
+                .map(([character, count]) => `${JSON.stringify(character)}:${count}`)
+                .join(' '),
+            Object.entries(day.languages)
+                .map(([language, time]) => `${language}:${(time / 60000).toFixed(1)}`)
+                .join(' '),
+        ]);
+
+    return [header, ...rows].map((row) => row.map(toCsvField).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { DEFAULT_SETTINGS, PluginSettings } from './settings/pluginSettings';
+import { watchSettings } from './settings/settingsEvents';
+import { resolveProfileSettings } from './settings/profiles';
+import { getVoicePack } from './voicePack';
+import { extensionEnabled } from './extension';
+import { getMuteReason, getSnoozedUntil, isAutoMuteOverridden } from './autoMute/autoMuteState';
+import { MUTE_RULE_LABELS } from './autoMute/muteRules';
+
+let statusBarItem: vscode.StatusBarItem | null = null;
+// The settings as of the last change, shown when no editor is active.
+let statusSettings: Readonly<PluginSettings> = DEFAULT_SETTINGS;
+
+/**
+ * ### Creates the status bar item showing whether sounds are on, the current voice and the volume.
+ * Clicking it opens the quick controls menu, and it refreshes by itself whenever the settings change.
+ * @returns {vscode.Disposable} The status bar item and its settings watcher, which should be disposed of when the extension deactivates.
+ */
+export function createStatusBarItem(): vscode.Disposable {
+    statusBarItem = vscode.window.createStatusBarItem(
+        'vscode-animalese.status',
+        vscode.StatusBarAlignment.Right,
+        100
+    );
+    statusBarItem.name = 'Animalese';
+    statusBarItem.command = 'vscode-animalese.showMenu';
+    const settingsWatcher = watchSettings((newSettings) => {
+        statusSettings = newSettings;
+        updateStatusBarItem();
+    });
+    statusBarItem.show();
+    return vscode.Disposable.from(settingsWatcher, statusBarItem);
+}
+
+/**
+ * ### Refreshes the status bar item after the enabled state, mute reason, voice, volume or active editor changed.
+ */
+export function updateStatusBarItem(): void {
+    if (!statusBarItem) return;
+
+    const document = vscode.window.activeTextEditor?.document;
+    const profileSettings = document ? resolveProfileSettings(document) : statusSettings;
+    const voice = getVoicePack(profileSettings.voicePack)?.name ?? profileSettings.voice;
+
+    if (!extensionEnabled) {
+        statusBarItem.text = '$(mute) Animalese Off';
+        statusBarItem.tooltip = 'Animalese sounds are off. Click for quick controls.';
+        return;
+    }
+
+    const muteReason = getMuteReason();
+    if (muteReason === 'snooze') {
+        const snoozedUntil = getSnoozedUntil()!.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        statusBarItem.text = `$(mute) Muted until ${snoozedUntil}`;
+        statusBarItem.tooltip = `Animalese sounds are snoozed until ${snoozedUntil}. Click for quick controls.`;
+        return;
+    }
+    if (muteReason) {
+        statusBarItem.text = `$(mute) Muted ${MUTE_RULE_LABELS[muteReason]}`;
+        statusBarItem.tooltip = `Animalese sounds are muted ${MUTE_RULE_LABELS[muteReason]}. Toggle sounds to play them anyway until this changes, or click for quick controls.`;
+        return;
+    }
+
+    const override = isAutoMuteOverridden() ? ' Auto-mute is overridden until it changes.' : '';
+    statusBarItem.text = `$(unmute) ${voice} · ${profileSettings.volume}%`;
+    statusBarItem.tooltip = `Animalese sounds are on, using ${voice} at ${profileSettings.volume}% volume.${override} Click for quick controls.`;
+}
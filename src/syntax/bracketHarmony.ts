@@ -0,0 +1,96 @@
+import { CLOSING_BRACKETS, HARMONIC_CHARACTERS, OPENING_BRACKETS } from '../constants/charTypes';
+import { LanguageSyntax } from './languageSyntax';
+import { scanRegion } from './scanner';
+
+export type BracketScale = 'major' | 'minor' | 'pentatonic' | 'chromatic';
+
+// Semitones above the root of every step of each scale.
+const SCALES: Record<BracketScale, number[]> = {
+    major: [0, 2, 4, 5, 7, 9, 11],
+    minor: [0, 2, 3, 5, 7, 8, 10],
+    pentatonic: [0, 2, 4, 7, 9],
+    chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+// An unmatched closing bracket plays a tritone above the note it should have resolved to.
+const DISSONANT_INTERVAL = 6;
+
+// Languages without a known syntax are scanned as if they had no strings or comments.
+const PLAIN_SYNTAX: LanguageSyntax = {
+    lineComments: [],
+    blockComments: [],
+    quotes: [],
+    multilineQuotes: [],
+    keywords: new Set(),
+};
+
+/**
+ * ### Finds the brackets that are still open at the end of some text, ignoring brackets in strings and comments.
+ * Closing brackets that don't match the innermost open bracket are ignored.
+ * @param text The text before the cursor, which is assumed to start in code.
+ * @param syntax The comment and string syntax of the document's language, or `null` if it isn't known.
+ * @returns {string[]} The open brackets, from outermost to innermost.
+ */
+export function getOpenBrackets(text: string, syntax: LanguageSyntax | null): string[] {
+    const openBrackets: string[] = [];
+    scanRegion(text, text.length, syntax ?? PLAIN_SYNTAX, (char) => {
+        if (OPENING_BRACKETS.includes(char)) {
+            openBrackets.push(char);
+        } else if (
+            CLOSING_BRACKETS.includes(char) &&
+            openBrackets[openBrackets.length - 1] === OPENING_BRACKETS[CLOSING_BRACKETS.indexOf(char)]
+        ) {
+            openBrackets.pop();
+        }
+    });
+    return openBrackets;
+}
+
+/**
+ * ### Gets the note of a nesting depth, going one step up the scale for every level.
+ * @param depth How many brackets are open around the note, starting at 0.
+ * @param scale The scale to climb.
+ * @returns {number} The note in semitones above the root, which may go past an octave.
+ */
+export function getDepthNote(depth: number, scale: BracketScale): number {
+    const steps = SCALES[scale];
+    return steps[depth % steps.length] + 12 * Math.floor(depth / steps.length);
+}
+
+/**
+ * ### Gets the note a bracket plays, following how deeply it is nested.
+ * A closing bracket plays the same note as the bracket it closes, or a dissonant note if it doesn't close anything.
+ * @param key The typed bracket.
+ * @param openBrackets The brackets open before the typed one, as returned by `getOpenBrackets`.
+ * @param scale The scale to climb.
+ * @returns {number | null} The note in semitones above the root, or `null` if the key isn't a bracket.
+ */
+export function getBracketNote(key: string, openBrackets: string[], scale: BracketScale): number | null {
+    if (OPENING_BRACKETS.includes(key)) {
+        return getDepthNote(openBrackets.length, scale);
+    }
+    if (!CLOSING_BRACKETS.includes(key)) return null;
+
+    const depth = Math.max(0, openBrackets.length - 1);
+    const isMatched =
+        openBrackets[openBrackets.length - 1] === OPENING_BRACKETS[CLOSING_BRACKETS.indexOf(key)];
+    return getDepthNote(depth, scale) + (isMatched ? 0 : DISSONANT_INTERVAL);
+}
+
+/**
+ * ### Gets the harmonic key whose sound plays a note, wrapping around to the same octave.
+ * @param note The note in semitones above the root.
+ * @returns {string} The harmonic key, one of `HARMONIC_CHARACTERS`.
+ */
+export function getNoteKey(note: number): string {
+    return HARMONIC_CHARACTERS[note % HARMONIC_CHARACTERS.length];
+}
+
+/**
+ * ### Gets how far a note has to be shifted up to make up for the octaves `getNoteKey` wraps around.
+ * @param note The note in semitones above the root.
+ * @returns {number} The shift in cents.
+ */
+export function getNoteOctaveDetune(note: number): number {
+    return Math.floor(note / HARMONIC_CHARACTERS.length) * 1200;
+}
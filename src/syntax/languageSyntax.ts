@@ -0,0 +1,126 @@
+export interface LanguageSyntax {
+    lineComments: string[];
+    blockComments: [string, string][];
+    /** Characters that open and close a string. */
+    quotes: string[];
+    /** Whether or not a string may span several lines, like JavaScript template literals. */
+    multilineQuotes: string[];
+    keywords: Set<string>;
+}
+
+const C_LIKE_KEYWORDS = [
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else', 'enum',
+    'export', 'extends', 'false', 'finally', 'for', 'if', 'import', 'in', 'interface', 'new',
+    'null', 'private', 'protected', 'public', 'return', 'static', 'struct', 'super', 'switch',
+    'this', 'throw', 'true', 'try', 'void', 'while',
+];
+
+const C_LIKE: LanguageSyntax = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', "'"],
+    multilineQuotes: [],
+    keywords: new Set(C_LIKE_KEYWORDS),
+};
+
+const JAVASCRIPT_LIKE: LanguageSyntax = {
+    ...C_LIKE,
+    multilineQuotes: ['`'],
+    keywords: new Set([
+        ...C_LIKE_KEYWORDS,
+        'async', 'await', 'function', 'let', 'of', 'type', 'typeof', 'undefined', 'var', 'yield',
+    ]),
+};
+
+const PYTHON: LanguageSyntax = {
+    lineComments: ['#'],
+    blockComments: [],
+    quotes: ['"', "'"],
+    multilineQuotes: [],
+    keywords: new Set([
+        'and', 'as', 'async', 'await', 'break', 'class', 'continue', 'def', 'elif', 'else', 'except',
+        'False', 'finally', 'for', 'from', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or',
+        'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield',
+    ]),
+};
+
+const HASH_COMMENTS: LanguageSyntax = {
+    lineComments: ['#'],
+    blockComments: [],
+    quotes: ['"', "'"],
+    multilineQuotes: [],
+    keywords: new Set([
+        'case', 'do', 'done', 'elif', 'else', 'end', 'esac', 'fi', 'for', 'function', 'if', 'in',
+        'then', 'until', 'while',
+    ]),
+};
+
+const DASH_COMMENTS: LanguageSyntax = {
+    lineComments: ['--'],
+    blockComments: [],
+    quotes: ['"', "'"],
+    multilineQuotes: [],
+    keywords: new Set([
+        'and', 'else', 'elseif', 'end', 'for', 'function', 'if', 'local', 'not', 'or', 'return',
+        'then', 'while', 'select', 'from', 'where', 'join', 'insert', 'update', 'delete', 'create',
+    ]),
+};
+
+const MARKUP: LanguageSyntax = {
+    lineComments: [],
+    blockComments: [['<!--', '-->']],
+    quotes: ['"', "'"],
+    multilineQuotes: [],
+    keywords: new Set(),
+};
+
+const STYLESHEET: LanguageSyntax = {
+    lineComments: [],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', "'"],
+    multilineQuotes: [],
+    keywords: new Set(['important', 'media', 'import', 'keyframes', 'supports']),
+};
+
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+    javascript: JAVASCRIPT_LIKE,
+    javascriptreact: JAVASCRIPT_LIKE,
+    typescript: JAVASCRIPT_LIKE,
+    typescriptreact: JAVASCRIPT_LIKE,
+    c: C_LIKE,
+    cpp: C_LIKE,
+    csharp: C_LIKE,
+    java: C_LIKE,
+    kotlin: C_LIKE,
+    go: { ...C_LIKE, multilineQuotes: ['`'] },
+    rust: C_LIKE,
+    swift: C_LIKE,
+    dart: C_LIKE,
+    php: { ...C_LIKE, lineComments: ['//', '#'] },
+    scss: { ...STYLESHEET, lineComments: ['//'] },
+    less: { ...STYLESHEET, lineComments: ['//'] },
+    css: STYLESHEET,
+    python: PYTHON,
+    shellscript: HASH_COMMENTS,
+    ruby: HASH_COMMENTS,
+    perl: HASH_COMMENTS,
+    r: HASH_COMMENTS,
+    yaml: HASH_COMMENTS,
+    toml: HASH_COMMENTS,
+    powershell: HASH_COMMENTS,
+    lua: DASH_COMMENTS,
+    sql: DASH_COMMENTS,
+    haskell: { ...DASH_COMMENTS, blockComments: [['{-', '-}']] },
+    html: MARKUP,
+    xml: MARKUP,
+    markdown: MARKUP,
+};
+
+/**
+ * ### Gets the comment, string and keyword syntax of a language, for the fallback scanner.
+ * @param languageId The language ID of the document.
+ * @returns {LanguageSyntax | null} The syntax of the language, or `null` if it isn't known.
+ */
+export function getLanguageSyntax(languageId: string): LanguageSyntax | null {
+    return LANGUAGE_SYNTAX[languageId] ?? null;
+}
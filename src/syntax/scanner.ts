@@ -0,0 +1,68 @@
+import { LanguageSyntax } from './languageSyntax';
+
+export type ScannedRegion = 'code' | 'string' | 'comment';
+
+/**
+ * ### Works out whether a position in a document lies in code, a string or a comment, by scanning the text before it.
+ * @param text The text of the document, which is assumed to start in code.
+ * @param offset The position to check, as an offset into the text.
+ * @param syntax The comment and string syntax of the document's language.
+ * @param onCode Called with every character of code on the way, leaving out strings and comments.
+ * @returns {ScannedRegion} The kind of region the position lies in.
+ */
+export function scanRegion(
+    text: string,
+    offset: number,
+    syntax: LanguageSyntax,
+    onCode?: (char: string) => void
+): ScannedRegion {
+    let region: ScannedRegion = 'code';
+    let closer = ''; // What ends the current string or comment
+    let multiline = false;
+
+    for (let i = 0; i < offset; i++) {
+        const char = text[i];
+
+        if (region === 'code') {
+            const lineComment = syntax.lineComments.find((opener) => text.startsWith(opener, i));
+            if (lineComment) {
+                region = 'comment';
+                closer = '\n';
+                multiline = false;
+                i += lineComment.length - 1;
+                continue;
+            }
+            const blockComment = syntax.blockComments.find(([opener]) => text.startsWith(opener, i));
+            if (blockComment) {
+                region = 'comment';
+                closer = blockComment[1];
+                multiline = true;
+                i += blockComment[0].length - 1;
+                continue;
+            }
+            if (syntax.quotes.includes(char) || syntax.multilineQuotes.includes(char)) {
+                region = 'string';
+                closer = char;
+                multiline = syntax.multilineQuotes.includes(char);
+                continue;
+            }
+            onCode?.(char);
+            continue;
+        }
+
+        if (region === 'string' && char === '\\') {
+            i++; // Skip the escaped character
+            continue;
+        }
+        if (char === '\n' && !multiline) {
+            region = 'code'; // Unterminated strings and line comments end with the line
+            continue;
+        }
+        if (text.startsWith(closer, i)) {
+            region = 'code';
+            i += closer.length - 1;
+        }
+    }
+
+    return region;
+}
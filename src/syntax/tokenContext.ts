@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { getLanguageSyntax } from './languageSyntax';
+import { scanRegion } from './scanner';
+import { getBracketNote, getOpenBrackets } from './bracketHarmony';
+import { CLOSING_BRACKETS, OPENING_BRACKETS } from '../constants/charTypes';
+
+export type TokenType = 'code' | 'keyword' | 'string' | 'comment';
+
+export interface TokenContext {
+    type: TokenType;
+    /** With bracket harmony on, the note a bracket typed in code plays, in semitones above the root. */
+    bracketNote?: number;
+}
+
+// How many lines back the fallback scanner looks, so huge files don't slow down every keypress.
+const SCAN_LINE_LIMIT = 2000;
+// How long to wait for a semantic tokens provider before falling back to the scanner, in milliseconds.
+const SEMANTIC_TOKENS_TIMEOUT = 50;
+// How long before a language without a semantic tokens provider is asked again, in case its provider registers later, in milliseconds.
+const LEGEND_RETRY_INTERVAL = 10000;
+
+const SEMANTIC_TOKEN_TYPES: Record<string, TokenType> = {
+    string: 'string',
+    regexp: 'string',
+    comment: 'comment',
+    keyword: 'keyword',
+    modifier: 'keyword',
+};
+
+// Semantic token legends, keyed by language, as a provider's legend doesn't change while it runs.
+const LEGEND_CACHE: Map<string, { legend: vscode.SemanticTokensLegend | null; time: number }> = new Map();
+// The semantic tokens last requested, so every lookup on the same line of the same document version shares one request.
+let lastTokens: { key: string; tokens: Promise<vscode.SemanticTokens | undefined> } | null = null;
+
+/**
+ * ### Resolves to `undefined` if a promise takes too long.
+ * @param promise The promise to wait for.
+ * @param timeout How long to wait, in milliseconds.
+ */
+function withTimeout<T>(promise: Thenable<T>, timeout: number): Promise<T | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    return Promise.race([
+        Promise.resolve(promise),
+        new Promise<undefined>((resolve) => {
+            timer = setTimeout(() => resolve(undefined), timeout);
+        }),
+    ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * ### Gets the semantic tokens legend of a document's language, asking its provider only the first time.
+ * @param document The document being typed in.
+ * @param range The range the tokens will be requested for.
+ * @returns {vscode.SemanticTokensLegend | null} The legend, or `null` if the language has no semantic tokens provider.
+ */
+async function getSemanticTokensLegend(
+    document: vscode.TextDocument,
+    range: vscode.Range
+): Promise<vscode.SemanticTokensLegend | null> {
+    const cached = LEGEND_CACHE.get(document.languageId);
+    if (cached && (cached.legend || Date.now() - cached.time < LEGEND_RETRY_INTERVAL)) {
+        return cached.legend;
+    }
+
+    let answered = false;
+    const legend = await withTimeout(
+        Promise.resolve(
+            vscode.commands.executeCommand<vscode.SemanticTokensLegend | undefined>(
+                'vscode.provideDocumentRangeSemanticTokensLegend',
+                document.uri,
+                range
+            )
+        ).then((legend) => {
+            answered = true;
+            return legend;
+        }),
+        SEMANTIC_TOKENS_TIMEOUT
+    );
+    // A slow provider is asked again next time, rather than being taken for a missing one.
+    if (answered) LEGEND_CACHE.set(document.languageId, { legend: legend ?? null, time: Date.now() });
+    return legend ?? null;
+}
+
+/**
+ * ### Gets the semantic tokens of a line, sharing the request between lookups in the same version of the document.
+ * @param document The document being typed in.
+ * @param range The range of the line.
+ */
+function getSemanticTokens(
+    document: vscode.TextDocument,
+    range: vscode.Range
+): Promise<vscode.SemanticTokens | undefined> {
+    const key = `${document.uri.toString()}|${document.version}|${range.start.line}`;
+    if (lastTokens?.key !== key) {
+        lastTokens = {
+            key,
+            tokens: withTimeout(
+                vscode.commands.executeCommand<vscode.SemanticTokens | undefined>(
+                    'vscode.provideDocumentRangeSemanticTokens',
+                    document.uri,
+                    range
+                ),
+                SEMANTIC_TOKENS_TIMEOUT
+            ),
+        };
+    }
+    return lastTokens.tokens;
+}
+
+/**
+ * ### Finds the semantic token at a position, using whichever semantic tokens provider the document's language has.
+ * @param document The document being typed in.
+ * @param position The position of the typed character.
+ * @returns {TokenType | null} The type of the token, or `null` if no provider knows of a string, comment or keyword there.
+ */
+async function getSemanticTokenType(
+    document: vscode.TextDocument,
+    position: vscode.Position
+): Promise<TokenType | null> {
+    const range = document.lineAt(position.line).range;
+    try {
+        const legend = await getSemanticTokensLegend(document, range);
+        if (!legend) return null;
+        const tokens = await getSemanticTokens(document, range);
+        if (!tokens) return null;
+
+        // Tokens are encoded as groups of five numbers, each relative to the previous token.
+        let line = 0;
+        let character = 0;
+        for (let i = 0; i + 4 < tokens.data.length; i += 5) {
+            const [deltaLine, deltaStart, length, tokenType] = tokens.data.slice(i, i + 4);
+            line += deltaLine;
+            character = deltaLine ? deltaStart : character + deltaStart;
+            if (line !== position.line || position.character < character) continue;
+            if (position.character < character + length) {
+                return SEMANTIC_TOKEN_TYPES[legend.tokenTypes[tokenType]] ?? null;
+            }
+        }
+    } catch (e) {
+        // The provider failed, so fall back to the scanner.
+    }
+    return null;
+}
+
+/**
+ * ### Works out what kind of token a character was typed into, using the document's semantic tokens or the scanner.
+ * @param document The document being typed in.
+ * @param position The position of the typed character.
+ * @param pluginSettings Settings of the plugin, deciding whether semantic tokens are used.
+ * @returns {TokenType} The type of the token.
+ */
+async function getTokenType(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    pluginSettings: PluginSettings
+): Promise<TokenType> {
+    if (pluginSettings.syntaxSounds_useSemanticTokens) {
+        const semanticType = await getSemanticTokenType(document, position);
+        if (semanticType) return semanticType;
+    }
+
+    const syntax = getLanguageSyntax(document.languageId);
+    if (!syntax) return 'code';
+
+    const textBefore = getTextBefore(document, position);
+    const region = scanRegion(textBefore, textBefore.length, syntax);
+    if (region !== 'code') return region;
+
+    const wordRange = document.getWordRangeAtPosition(position);
+    if (wordRange && syntax.keywords.has(document.getText(wordRange))) {
+        return 'keyword';
+    }
+    return 'code';
+}
+
+/**
+ * ### Gets the text before a position, up to `SCAN_LINE_LIMIT` lines back.
+ * @param document The document being typed in.
+ * @param position The position to stop at.
+ */
+function getTextBefore(document: vscode.TextDocument, position: vscode.Position): string {
+    const scanStart = new vscode.Position(Math.max(0, position.line - SCAN_LINE_LIMIT), 0);
+    return document.getText(new vscode.Range(scanStart, position));
+}
+
+/**
+ * ### Works out what kind of token a character was typed into, so the sound can follow the syntax.
+ * Semantic tokens are used when the language provides them, with a lightweight scanner for comments, strings and keywords as a fallback.
+ * Brackets typed in code also get the note of their nesting depth when bracket harmony is on.
+ * @param document The document being typed in.
+ * @param position The position of the typed character.
+ * @param key The typed key.
+ * @param pluginSettings Settings of the plugin, deciding whether syntax-aware sounds and bracket harmony are on.
+ * @returns {TokenContext | null} The token context, or `null` if neither syntax-aware sounds nor bracket harmony apply.
+ */
+export async function getTokenContext(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    key: string,
+    pluginSettings: PluginSettings
+): Promise<TokenContext | null> {
+    const isHarmonicBracket =
+        pluginSettings.bracketHarmony_enabled &&
+        (OPENING_BRACKETS.includes(key) || CLOSING_BRACKETS.includes(key));
+    if (!pluginSettings.syntaxSounds_enabled && !isHarmonicBracket) return null;
+
+    const type = pluginSettings.syntaxSounds_enabled
+        ? await getTokenType(document, position, pluginSettings)
+        : 'code';
+    if (!isHarmonicBracket || type === 'string' || type === 'comment') return { type };
+
+    // Brackets in strings and comments don't nest, so the scanner checks where the bracket is even when syntax-aware sounds are off.
+    const syntax = getLanguageSyntax(document.languageId);
+    const textBefore = getTextBefore(document, position);
+    const region = syntax ? scanRegion(textBefore, textBefore.length, syntax) : 'code';
+    if (region !== 'code') return { type: region };
+
+    const openBrackets = getOpenBrackets(textBefore, syntax);
+    const bracketNote = getBracketNote(key, openBrackets, pluginSettings.bracketHarmony_scale);
+    return bracketNote === null ? { type } : { type, bracketNote };
+}
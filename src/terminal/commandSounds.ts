@@ -0,0 +1,34 @@
+import path from 'path';
+
+export type CommandResult = 'success' | 'failure';
+
+// The start of a command is announced by speaking the first few letters of its name.
+const PHRASE_LENGTH = 4;
+
+/**
+ * ### Works out which sound a finished command should play.
+ * @param exitCode The exit code of the command, or `undefined` if the shell didn't report one.
+ * @param duration How long the command ran, in milliseconds.
+ * @param minimumDuration How many seconds a command has to run to be announced.
+ * @returns {CommandResult | null} The result to announce, or `null` if the command shouldn't be announced.
+ */
+export function getCommandResult(
+    exitCode: number | undefined,
+    duration: number,
+    minimumDuration: number
+): CommandResult | null {
+    if (exitCode === undefined || duration < minimumDuration * 1000) return null;
+    return exitCode === 0 ? 'success' : 'failure';
+}
+
+/**
+ * ### Gets the letters spoken when a command starts, taken from the name of the program it runs.
+ * @param commandLine The command line, as reported by shell integration.
+ * @returns {string[]} The letters to speak, which may be empty.
+ */
+export function getCommandPhrase(commandLine: string): string[] {
+    const program = commandLine.trim().split(/\s+/)[0] ?? '';
+    return [...path.basename(program.replaceAll('\\', '/'))]
+        .filter((character) => /^[a-z]$/i.test(character))
+        .slice(0, PHRASE_LENGTH);
+}
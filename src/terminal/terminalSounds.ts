@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import { getVoiceFilePath } from '../get/filePath';
+import { playAudio } from '../audio';
+import type { PluginSettings } from '../settings/pluginSettings';
+import { watchSettings } from '../settings/settingsEvents';
+import { VOICE_LIST } from '../constants/voiceList';
+import { CHANNEL_MAP } from '../constants/channels';
+import { isSoundOn } from '../extension';
+import { getAudioEngine } from '../engine/engineState';
+import { logMessage } from '../outputChannel';
+import { CommandResult, getCommandPhrase, getCommandResult } from './commandSounds';
+
+const RESULT_KEYS: Record<CommandResult, string> = { success: 'phrase_OK', failure: 'phrase_Gwah' };
+const PHRASE_INTERVAL = 70; // In milliseconds
+
+const START_TIMES: Map<vscode.TerminalShellExecution, number> = new Map();
+// Start announcements waiting for their command to have run for the minimum duration.
+const START_ANNOUNCEMENTS: Map<vscode.TerminalShellExecution, NodeJS.Timeout> = new Map();
+// Terminals silenced with the `toggleTerminalSounds` command. Not remembered across window reloads, as terminals aren't either.
+const MUTED_TERMINALS: Set<vscode.Terminal> = new Set();
+
+/**
+ * ### Checks whether sounds should play for a terminal.
+ * @param terminal The terminal that ran a command.
+ * @param pluginSettings Settings of the plugin, containing the terminal sound settings.
+ */
+function shouldPlayForTerminal(terminal: vscode.Terminal, pluginSettings: PluginSettings): boolean {
+    return (
+        pluginSettings.terminalSounds_enabled &&
+        // Commands are run from the terminal, so muting while it is focused would silence nearly all of them.
+        isSoundOn(['terminal']) &&
+        !MUTED_TERMINALS.has(terminal) &&
+        !pluginSettings.terminalSounds_excludedTerminals.includes(terminal.name)
+    );
+}
+
+/**
+ * ### Plays a run of voice sounds one after the other, in the current voice.
+ * @param context The extension context, used to locate the bundled sounds.
+ * @param keys The keys whose sounds to play.
+ * @param pluginSettings Settings of the plugin, containing the voice.
+ */
+function playKeys(context: vscode.ExtensionContext, keys: string[], pluginSettings: PluginSettings): void {
+    keys.forEach((key, i) =>
+        setTimeout(() => {
+            const filePath = getVoiceFilePath(
+                context.extensionPath,
+                key,
+                VOICE_LIST.indexOf(pluginSettings.voice),
+                pluginSettings
+            );
+            playAudio(getAudioEngine(), filePath, key, CHANNEL_MAP.reaction, pluginSettings).catch((e) =>
+                logMessage(`Could not play the terminal sound of "${key}": ${(e as Error).message}`)
+            );
+        }, i * PHRASE_INTERVAL)
+    );
+}
+
+/**
+ * ### Silences or unsilences the active terminal until it is closed.
+ * @returns {boolean | null} Whether the terminal is now silenced, or `null` if there is no active terminal.
+ */
+export function toggleActiveTerminalSounds(): boolean | null {
+    const terminal = vscode.window.activeTerminal;
+    if (!terminal) return null;
+
+    if (MUTED_TERMINALS.delete(terminal)) return false;
+    MUTED_TERMINALS.add(terminal);
+    return true;
+}
+
+/**
+ * ### Starts announcing commands run in terminals with shell integration.
+ * @param context The extension context, used to locate the bundled sounds.
+ * @returns {vscode.Disposable[]} The listeners, which should be disposed of when the extension deactivates.
+ */
+export function trackTerminalCommands(context: vscode.ExtensionContext): vscode.Disposable[] {
+    let pluginSettings: Readonly<PluginSettings>;
+
+    return [
+        watchSettings((newSettings) => (pluginSettings = newSettings)),
+        vscode.window.onDidStartTerminalShellExecution((event) => {
+            START_TIMES.set(event.execution, Date.now());
+            if (!pluginSettings.terminalSounds_announceStart) return;
+
+            // Like the result, the start is only announced for commands that run for the minimum duration.
+            const announce = () => {
+                START_ANNOUNCEMENTS.delete(event.execution);
+                if (!shouldPlayForTerminal(event.terminal, pluginSettings)) return;
+                playKeys(context, getCommandPhrase(event.execution.commandLine.value), pluginSettings);
+            };
+            if (pluginSettings.terminalSounds_minimumDuration > 0) {
+                START_ANNOUNCEMENTS.set(
+                    event.execution,
+                    setTimeout(announce, pluginSettings.terminalSounds_minimumDuration * 1000)
+                );
+            } else {
+                announce();
+            }
+        }),
+        vscode.window.onDidEndTerminalShellExecution((event) => {
+            const startTime = START_TIMES.get(event.execution) ?? Date.now();
+            START_TIMES.delete(event.execution);
+            clearTimeout(START_ANNOUNCEMENTS.get(event.execution));
+            START_ANNOUNCEMENTS.delete(event.execution);
+            if (!shouldPlayForTerminal(event.terminal, pluginSettings)) return;
+
+            const result = getCommandResult(
+                event.exitCode,
+                Date.now() - startTime,
+                pluginSettings.terminalSounds_minimumDuration
+            );
+            if (result) playKeys(context, [RESULT_KEYS[result]], pluginSettings);
+        }),
+        vscode.window.onDidCloseTerminal((terminal) => MUTED_TERMINALS.delete(terminal)),
+        new vscode.Disposable(() => {
+            START_ANNOUNCEMENTS.forEach((timeout) => clearTimeout(timeout));
+            START_ANNOUNCEMENTS.clear();
+        }),
+    ];
+}
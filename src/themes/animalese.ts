@@ -0,0 +1,26 @@
+import { SoundTheme } from './types';
+import { getVoiceFilePath } from '../get/filePath';
+import { isAlphabetical, isHarmonic } from '../charTypeChecks';
+import { ARROW_KEYS } from '../constants/charTypes';
+import { CHANNEL_MAP } from '../constants/channels';
+
+export const ANIMALESE_THEME: SoundTheme = {
+    id: 'animalese',
+    label: 'Animalese',
+    description: 'Villager voices for letters, sung notes for numbers and sound effects for symbols.',
+    getFilePath: (extensionPath, key, vocalIndex, pluginSettings) =>
+        getVoiceFilePath(extensionPath, key, vocalIndex, pluginSettings),
+    getTone: () => [],
+    assignKeyToChannel: (key) => {
+        switch (true) {
+            case isAlphabetical(key):
+                return CHANNEL_MAP.voice;
+            case isHarmonic(key):
+                return CHANNEL_MAP.melodic;
+            case ARROW_KEYS.includes(key):
+                return CHANNEL_MAP.cursor;
+            default:
+                return CHANNEL_MAP.sfx;
+        }
+    },
+};
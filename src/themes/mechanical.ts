@@ -0,0 +1,45 @@
+import { SoundTheme, ToneLayer } from './types';
+import { ARROW_KEYS } from '../constants/charTypes';
+import { CHANNEL_MAP } from '../constants/channels';
+
+const KEY_SOUND: ToneLayer[] = [
+    { waveform: 'noise', detune: 0, duration: 0.02, gain: 0.5 },
+    { waveform: 'sine', detune: -2100, duration: 0.04, gain: 0.6 },
+];
+
+const SPACE_SOUND: ToneLayer[] = [
+    { waveform: 'noise', detune: 0, duration: 0.035, gain: 0.4 },
+    { waveform: 'sine', detune: -3300, duration: 0.09, gain: 0.9 },
+];
+
+const ENTER_SOUND: ToneLayer[] = [
+    { waveform: 'noise', detune: 0, duration: 0.03, gain: 0.6 },
+    { waveform: 'square', detune: -2700, duration: 0.07, gain: 0.25 },
+];
+
+const BACKSPACE_SOUND: ToneLayer[] = [
+    { waveform: 'noise', detune: 0, duration: 0.015, gain: 0.45 },
+    { waveform: 'triangle', detune: -1500, duration: 0.03, gain: 0.5 },
+];
+
+// Every sound is synthesized rather than sampled, so the theme has no files of its own to replace.
+export const MECHANICAL_THEME: SoundTheme = {
+    id: 'mechanical',
+    label: 'Mechanical Keyboard',
+    description: 'Synthesized switch clicks, with a deeper thock for space, enter and backspace.',
+    getFilePath: () => null,
+    getTone: (key) => {
+        switch (true) {
+            case key === ' ' || key === 'tab':
+                return SPACE_SOUND;
+            case key.includes('\n'):
+                return ENTER_SOUND;
+            case key === 'backspace':
+                return BACKSPACE_SOUND;
+            default:
+                return KEY_SOUND;
+        }
+    },
+    assignKeyToChannel: (key) =>
+        ARROW_KEYS.includes(key) ? CHANNEL_MAP.cursor : CHANNEL_MAP.sfx,
+};
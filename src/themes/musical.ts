@@ -0,0 +1,89 @@
+import { SoundTheme, ToneLayer } from './types';
+import { isAlphabetical, isHarmonic } from '../charTypeChecks';
+import { ARROW_KEYS, HARMONIC_CHARACTERS } from '../constants/charTypes';
+import { CHANNEL_MAP } from '../constants/channels';
+import { NOTE_NAMES, SCALES } from '../constants/scales';
+import type { PluginSettings } from '../settings/pluginSettings';
+
+const C4_DETUNE = -900; // C4 in cents relative to A4
+const NOTE_DURATION = 0.4;
+
+/**
+ * ### Gets the pitch of a degree of the configured scale.
+ * Degrees past the end of the scale continue into the next octave, wrapping around after two octaves.
+ * @param degree The zero-based degree of the scale.
+ * @param pluginSettings Settings of the plugin, containing the key and scale.
+ * @returns {number} The pitch in cents relative to A4.
+ */
+export function getScaleDetune(degree: number, pluginSettings: PluginSettings): number {
+    const scale = SCALES[pluginSettings.soundThemes_musical_scale] ?? SCALES.major;
+    const root = Math.max(0, NOTE_NAMES.indexOf(pluginSettings.soundThemes_musical_key));
+    const wrappedDegree = ((degree % (scale.length * 2)) + scale.length * 2) % (scale.length * 2);
+    const semitones =
+        root + scale[wrappedDegree % scale.length] + 12 * Math.floor(wrappedDegree / scale.length);
+    return C4_DETUNE + semitones * 100;
+}
+
+/**
+ * ### Picks the scale degree a key plays.
+ * @param key The keyboard input character.
+ * @returns {number} The zero-based degree of the scale.
+ */
+function getKeyDegree(key: string): number {
+    switch (true) {
+        case isAlphabetical(key):
+            return key.toLowerCase().charCodeAt(0) - 'a'.charCodeAt(0);
+        case isHarmonic(key):
+            return HARMONIC_CHARACTERS.indexOf(key);
+        default:
+            return 0;
+    }
+}
+
+/**
+ * ### Picks the octave a key plays in, relative to the scale.
+ * Uppercase letters are played an octave higher, whitespace an octave lower and backspace two octaves lower.
+ * @param key The keyboard input character.
+ * @returns {number} The octave shift in cents.
+ */
+function getOctaveShift(key: string): number {
+    switch (true) {
+        case /^[A-Z]$/.test(key):
+            return 1200;
+        case key === 'backspace':
+            return -2400;
+        case key === 'tab' || /^\s+$/.test(key):
+            return -1200;
+        default:
+            return 0;
+    }
+}
+
+export const MUSICAL_THEME: SoundTheme = {
+    id: 'musical',
+    label: 'Musical Scale',
+    description: 'Every character plays a synthesized note from the configured key and scale.',
+    getFilePath: () => null,
+    getTone: (key, pluginSettings): ToneLayer[] => {
+        return [
+            {
+                waveform: 'triangle',
+                detune: getScaleDetune(getKeyDegree(key), pluginSettings) + getOctaveShift(key),
+                duration: NOTE_DURATION,
+                gain: 0.6,
+            },
+        ];
+    },
+    assignKeyToChannel: (key) => {
+        switch (true) {
+            case isAlphabetical(key):
+                return CHANNEL_MAP.voice;
+            case isHarmonic(key):
+                return CHANNEL_MAP.melodic;
+            case ARROW_KEYS.includes(key):
+                return CHANNEL_MAP.cursor;
+            default:
+                return CHANNEL_MAP.sfx;
+        }
+    },
+};
@@ -0,0 +1,21 @@
+import { SoundTheme } from './types';
+import { ANIMALESE_THEME } from './animalese';
+import { MECHANICAL_THEME } from './mechanical';
+import { TYPEWRITER_THEME } from './typewriter';
+import { MUSICAL_THEME } from './musical';
+
+export const SOUND_THEMES: SoundTheme[] = [
+    ANIMALESE_THEME,
+    MECHANICAL_THEME,
+    TYPEWRITER_THEME,
+    MUSICAL_THEME,
+];
+
+/**
+ * ### Finds a sound theme by its id.
+ * @param id The id of the theme, as stored in the `soundTheme` setting.
+ * @returns {SoundTheme} The theme, or the Animalese theme if no theme has this id.
+ */
+export function getSoundTheme(id: string): SoundTheme {
+    return SOUND_THEMES.find((theme) => theme.id === id) ?? ANIMALESE_THEME;
+}
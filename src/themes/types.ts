@@ -0,0 +1,39 @@
+import type { PluginSettings } from '../settings/pluginSettings';
+
+/** Information about where a key was typed. */
+export interface KeyContext {
+    /** The column of the cursor after the key was typed. */
+    column: number;
+}
+
+/** A single synthesized layer of a sound, which decays to silence over its duration. */
+export interface ToneLayer {
+    waveform: OscillatorType | 'noise';
+    /** Pitch in cents relative to A4 (440 Hz). Ignored for noise. */
+    detune: number;
+    /** Time in seconds until the layer is silent. */
+    duration: number;
+    /** Multiplier applied to the usual key volume. */
+    gain: number;
+}
+
+export interface SoundTheme {
+    id: string;
+    label: string;
+    description: string;
+    /**
+     * Gets the file that should be played for a key.
+     * Returning `null` means the key is synthesized with `getTone` instead.
+     */
+    getFilePath(
+        extensionPath: string,
+        key: string,
+        vocalIndex: number,
+        pluginSettings: PluginSettings,
+        keyContext: KeyContext
+    ): string | null;
+    /** Gets the synthesized layers of a key that has no file. */
+    getTone(key: string, pluginSettings: PluginSettings, keyContext: KeyContext): ToneLayer[];
+    /** Gets the channel a key plays on. Keys on the same channel cut each other off. */
+    assignKeyToChannel(key: string, pluginSettings: PluginSettings, keyContext: KeyContext): number;
+}
@@ -0,0 +1,74 @@
+import { KeyContext, SoundTheme, ToneLayer } from './types';
+import { ARROW_KEYS, SFX_KEYS } from '../constants/charTypes';
+import { CHANNEL_MAP } from '../constants/channels';
+import type { PluginSettings } from '../settings/pluginSettings';
+
+const KEY_SOUND: ToneLayer[] = [
+    { waveform: 'noise', detune: 0, duration: 0.025, gain: 0.7 },
+    { waveform: 'square', detune: -1200, duration: 0.015, gain: 0.15 },
+];
+
+const SPACE_SOUND: ToneLayer[] = [
+    { waveform: 'noise', detune: 0, duration: 0.03, gain: 0.35 },
+];
+
+const CARRIAGE_RETURN_SOUND: ToneLayer[] = [
+    { waveform: 'noise', detune: 0, duration: 0.25, gain: 0.3 },
+    { waveform: 'sawtooth', detune: -3600, duration: 0.2, gain: 0.15 },
+];
+
+const BACKSPACE_SOUND: ToneLayer[] = [
+    { waveform: 'noise', detune: 0, duration: 0.02, gain: 0.4 },
+];
+
+const BELL_SOUND: ToneLayer[] = [
+    { waveform: 'sine', detune: 2400, duration: 1.2, gain: 0.6 },
+    { waveform: 'sine', detune: 3100, duration: 0.8, gain: 0.2 },
+];
+
+/**
+ * ### Checks whether a key rings the margin bell, like a typewriter nearing the end of a line.
+ * @param key The keyboard input character.
+ * @param keyContext Where the key was typed.
+ * @param pluginSettings Settings of the plugin, containing the bell column.
+ * @returns {boolean} Whether or not the bell should ring.
+ */
+function ringsBell(key: string, keyContext: KeyContext, pluginSettings: PluginSettings): boolean {
+    return (
+        pluginSettings.soundThemes_typewriter_bellColumn > 0 &&
+        keyContext.column === pluginSettings.soundThemes_typewriter_bellColumn &&
+        !SFX_KEYS.includes(key) &&
+        !key.includes('\n')
+    );
+}
+
+export const TYPEWRITER_THEME: SoundTheme = {
+    id: 'typewriter',
+    label: 'Typewriter',
+    description: 'Synthesized typebar strikes, a carriage return on enter and a bell at a configurable column.',
+    getFilePath: () => null,
+    getTone: (key, pluginSettings, keyContext) => {
+        switch (true) {
+            case ringsBell(key, keyContext, pluginSettings):
+                return [...KEY_SOUND, ...BELL_SOUND];
+            case key === ' ' || key === 'tab':
+                return SPACE_SOUND;
+            case key.includes('\n'):
+                return CARRIAGE_RETURN_SOUND;
+            case key === 'backspace':
+                return BACKSPACE_SOUND;
+            default:
+                return KEY_SOUND;
+        }
+    },
+    assignKeyToChannel: (key, pluginSettings, keyContext) => {
+        switch (true) {
+            case ARROW_KEYS.includes(key):
+                return CHANNEL_MAP.cursor;
+            case ringsBell(key, keyContext, pluginSettings):
+                return CHANNEL_MAP.melodic; // Keeps the bell ringing while typing continues.
+            default:
+                return CHANNEL_MAP.sfx;
+        }
+    },
+};
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import path from 'path';
+import { isAlphabetical, isHarmonic, isSymbolic } from './charTypeChecks';
+import type { PluginSettings } from './settings/pluginSettings';
+import { AudioEngine } from './engine/types';
+
+export const VOICE_PACK_MANIFEST = 'voicepack.json';
+
+const MANIFEST_GROUPS = {
+    letters: (key: string) => isAlphabetical(key),
+    harmonics: (key: string) => isHarmonic(key),
+    symbols: (key: string) => isSymbolic(key) || key === '!' || key === '?',
+} as const;
+
+const MANIFEST_SOUNDS = ['tab', 'backspace', 'enter', 'fallback'] as const;
+
+export interface VoicePackManifest {
+    name: string;
+    letters?: Record<string, string>;
+    harmonics?: Record<string, string>;
+    symbols?: Record<string, string>;
+    tab?: string;
+    backspace?: string;
+    enter?: string;
+    fallback?: string;
+}
+
+export interface VoicePack {
+    name: string;
+    directory: string;
+    /** Absolute sound paths, keyed by the same key strings `getFilePath` receives. */
+    sounds: Map<string, string>;
+    /** Played for letters, harmonics and symbols the pack doesn't list. Other keys, such as arrows and phrases, never use it. */
+    fallback: string | null;
+}
+
+interface VoicePackLoadResult {
+    voicePack: VoicePack | null;
+    problems: string[];
+}
+
+// Every successfully loaded voice pack, keyed by its directory.
+let LOADED_VOICE_PACKS: Map<string, VoicePack> = new Map();
+// Counts calls to `loadVoicePacks`, so a reload that finishes after a newer one doesn't replace its result.
+let loadGeneration = 0;
+
+/**
+ * ### Checks that a parsed `voicepack.json` follows the manifest schema.
+ * @param manifest The parsed contents of the manifest.
+ * @returns {string[]} A list of human readable problems. An empty list means the manifest is valid.
+ */
+export function validateManifest(manifest: unknown): string[] {
+    if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+        return ['The manifest must be a JSON object.'];
+    }
+
+    const problems: string[] = [];
+    const entries = manifest as Record<string, unknown>;
+
+    if (typeof entries.name !== 'string' || !entries.name.trim()) {
+        problems.push('"name" must be a non-empty string.');
+    }
+
+    (Object.keys(MANIFEST_GROUPS) as Array<keyof typeof MANIFEST_GROUPS>).forEach((group) => {
+        const value = entries[group];
+        if (value === undefined) return;
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            problems.push(`"${group}" must be an object mapping characters to sound files.`);
+            return;
+        }
+        Object.entries(value).forEach(([key, file]) => {
+            if (!MANIFEST_GROUPS[group](key)) {
+                problems.push(`"${group}" contains "${key}", which is not a valid key for this group.`);
+            }
+            if (typeof file !== 'string' || !file) {
+                problems.push(`"${group}.${key}" must be a path to a sound file.`);
+            }
+        });
+    });
+
+    MANIFEST_SOUNDS.forEach((sound) => {
+        const value = entries[sound];
+        if (value !== undefined && (typeof value !== 'string' || !value)) {
+            problems.push(`"${sound}" must be a path to a sound file.`);
+        }
+    });
+
+    Object.keys(entries)
+        .filter((key) => key !== 'name' && !(key in MANIFEST_GROUPS) && !(MANIFEST_SOUNDS as readonly string[]).includes(key))
+        .forEach((key) => problems.push(`Unknown property "${key}".`));
+
+    return problems;
+}
+
+/**
+ * ### Flattens a valid manifest into a list of keys and the files they should play.
+ * @param manifest The validated manifest.
+ * @returns {Array<[string, string, string]>} Tuples of the manifest entry name, the key string, and the file as written in the manifest.
+ */
+function listManifestSounds(manifest: VoicePackManifest): Array<[string, string, string]> {
+    const sounds: Array<[string, string, string]> = [];
+
+    (Object.keys(MANIFEST_GROUPS) as Array<keyof typeof MANIFEST_GROUPS>).forEach((group) => {
+        Object.entries(manifest[group] ?? {}).forEach(([key, file]) => {
+            sounds.push([`${group}.${key}`, group === 'letters' ? key.toLowerCase() : key, file]);
+        });
+    });
+
+    if (manifest.tab) sounds.push(['tab', 'tab', manifest.tab]);
+    if (manifest.backspace) sounds.push(['backspace', 'backspace', manifest.backspace]);
+    if (manifest.enter) sounds.push(['enter', '\n', manifest.enter]);
+
+    return sounds;
+}
+
+/**
+ * ### Reads, validates and decodes every sound of the voice pack in the given directory.
+ * @param directory The absolute path to the folder containing `voicepack.json`.
+ * @param engine The audio engine used to check that every sound can be decoded.
+ * @returns The loaded voice pack, or `null` alongside the list of problems that prevented it from loading.
+ */
+export async function loadVoicePack(
+    directory: string,
+    engine: AudioEngine
+): Promise<VoicePackLoadResult> {
+    let manifest: unknown;
+    try {
+        const contents = await fs.promises.readFile(path.join(directory, VOICE_PACK_MANIFEST), 'utf8');
+        manifest = JSON.parse(contents);
+    } catch (e) {
+        return {
+            voicePack: null,
+            problems: [`Could not read ${VOICE_PACK_MANIFEST}: ${(e as Error).message}`],
+        };
+    }
+
+    const schemaProblems = validateManifest(manifest);
+    if (schemaProblems.length) {
+        return { voicePack: null, problems: schemaProblems };
+    }
+
+    const validManifest = manifest as VoicePackManifest;
+    const problems: string[] = [];
+
+    const resolveSound = async (entry: string, file: string): Promise<string | null> => {
+        const filePath = path.resolve(directory, file);
+        let fileContents: Buffer;
+        try {
+            fileContents = await fs.promises.readFile(filePath);
+        } catch (e) {
+            const reason =
+                (e as NodeJS.ErrnoException).code === 'ENOENT'
+                    ? 'does not exist'
+                    : `could not be read (${(e as Error).message})`;
+            problems.push(`"${entry}": the file "${file}" ${reason}.`);
+            return null;
+        }
+        try {
+            await engine.decodeAudioData(
+                fileContents.buffer.slice(
+                    fileContents.byteOffset,
+                    fileContents.byteOffset + fileContents.byteLength
+                )
+            );
+        } catch (e) {
+            problems.push(`"${entry}": the file "${file}" is not a valid audio file.`);
+            return null;
+        }
+        return filePath;
+    };
+
+    const sounds: Map<string, string> = new Map();
+    for (const [entry, key, file] of listManifestSounds(validManifest)) {
+        const filePath = await resolveSound(entry, file);
+        if (filePath) sounds.set(key, filePath);
+    }
+    const fallback = validManifest.fallback
+        ? await resolveSound('fallback', validManifest.fallback)
+        : null;
+
+    if (problems.length) {
+        return { voicePack: null, problems };
+    }
+
+    return {
+        voicePack: { name: validManifest.name.trim(), directory, sounds, fallback },
+        problems,
+    };
+}
+
+/**
+ * ### (IMPURE) Loads every voice pack listed in the settings, reporting any that fail to load.
+ * @param engine The audio engine used to check that every sound can be decoded.
+ * @param pluginSettings Settings of the plugin, listing the voice packs.
+ */
+export async function loadVoicePacks(engine: AudioEngine, pluginSettings: PluginSettings): Promise<void> {
+    const directories = [
+        ...new Set([...pluginSettings.voicePacks, pluginSettings.voicePack].filter(Boolean)),
+    ];
+    const generation = ++loadGeneration;
+
+    // The packs loaded so far stay in use until every pack of this reload is ready.
+    const voicePacks: Map<string, VoicePack> = new Map();
+    for (const directory of directories) {
+        const { voicePack, problems } = await loadVoicePack(directory, engine);
+        if (generation !== loadGeneration) return;
+        if (!voicePack) {
+            vscode.window.showErrorMessage(
+                `The voice pack at "${directory}" could not be loaded. ${problems.join(' ')}`
+            );
+            continue;
+        }
+        voicePacks.set(directory, voicePack);
+    }
+    LOADED_VOICE_PACKS = voicePacks;
+}
+
+/**
+ * ### Lists the voice packs that loaded successfully.
+ * @returns {VoicePack[]} The loaded voice packs, in the order they were configured.
+ */
+export function getLoadedVoicePacks(): VoicePack[] {
+    return [...LOADED_VOICE_PACKS.values()];
+}
+
+/**
+ * ### Finds the loaded voice pack stored in the given directory.
+ * @param directory The directory of the voice pack, as stored in the `voicePack` setting.
+ * @returns {VoicePack | null} The voice pack, or `null` if no pack is selected or it failed to load.
+ */
+export function getVoicePack(directory: string): VoicePack | null {
+    if (!directory) return null;
+    return LOADED_VOICE_PACKS.get(directory) ?? null;
+}
+
+/**
+ * ### Gets the sound a voice pack plays for the given key.
+ * The pack's `fallback` only stands in for the characters a manifest can list, so arrows, phrases, pastes and spaces keep their built-in sounds.
+ * @param voicePack The voice pack to look the key up in.
+ * @param key The keyboard input that will determine the file used.
+ * @returns {string | null} The path of the sound, or `null` if the pack leaves this key to the built-in sounds.
+ */
+export function getVoicePackFilePath(voicePack: VoicePack, key: string): string | null {
+    const lookupKey = isAlphabetical(key) ? key.toLowerCase() : key.includes('\n') ? '\n' : key;
+    const mappedPath = voicePack.sounds.get(lookupKey);
+    if (mappedPath) return mappedPath;
+
+    const hasFallback = Object.values(MANIFEST_GROUPS).some((isInGroup) => isInGroup(key));
+    return hasFallback ? voicePack.fallback : null;
+}
@@ -0,0 +1,43 @@
+import { AudioBuffer } from 'node-web-audio-api';
+
+const WAV_HEADER_SIZE = 44;
+const BYTES_PER_SAMPLE = 2; // 16-bit PCM
+
+/**
+ * ### Encodes an audio buffer as a 16-bit PCM `.wav` file.
+ * @param audioBuffer The audio to encode. Every channel is kept and interleaved.
+ * @returns {Buffer} The contents of the `.wav` file.
+ */
+export function encodeWav(audioBuffer: AudioBuffer): Buffer {
+    const { numberOfChannels, sampleRate, length } = audioBuffer;
+    const dataSize = length * numberOfChannels * BYTES_PER_SAMPLE;
+    const wav = Buffer.alloc(WAV_HEADER_SIZE + dataSize);
+
+    wav.write('RIFF', 0, 'ascii');
+    wav.writeUInt32LE(WAV_HEADER_SIZE - 8 + dataSize, 4);
+    wav.write('WAVE', 8, 'ascii');
+    wav.write('fmt ', 12, 'ascii');
+    wav.writeUInt32LE(16, 16); // Size of the format chunk
+    wav.writeUInt16LE(1, 20); // PCM
+    wav.writeUInt16LE(numberOfChannels, 22);
+    wav.writeUInt32LE(sampleRate, 24);
+    wav.writeUInt32LE(sampleRate * numberOfChannels * BYTES_PER_SAMPLE, 28);
+    wav.writeUInt16LE(numberOfChannels * BYTES_PER_SAMPLE, 32);
+    wav.writeUInt16LE(BYTES_PER_SAMPLE * 8, 34);
+    wav.write('data', 36, 'ascii');
+    wav.writeUInt32LE(dataSize, 40);
+
+    const channels = Array.from({ length: numberOfChannels }, (_, i) =>
+        audioBuffer.getChannelData(i)
+    );
+    let offset = WAV_HEADER_SIZE;
+    for (let i = 0; i < length; i++) {
+        channels.forEach((channel) => {
+            const sample = Math.max(-1, Math.min(1, channel[i]));
+            wav.writeInt16LE(Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff), offset);
+            offset += BYTES_PER_SAMPLE;
+        });
+    }
+
+    return wav;
+}
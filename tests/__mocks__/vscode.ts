@@ -0,0 +1,92 @@
+// A small stand-in for the parts of the vscode API used by the modules under test.
+
+export class Position {
+    constructor(readonly line: number, readonly character: number) {}
+
+    compareTo(other: Position): number {
+        return this.line - other.line || this.character - other.character;
+    }
+
+    translate(lineDelta = 0, characterDelta = 0): Position {
+        return new Position(this.line + lineDelta, this.character + characterDelta);
+    }
+}
+
+export class Range {
+    constructor(readonly start: Position, readonly end: Position) {}
+
+    contains(position: Position): boolean {
+        return this.start.compareTo(position) <= 0 && this.end.compareTo(position) >= 0;
+    }
+
+    union(other: Range): Range {
+        return new Range(
+            this.start.compareTo(other.start) <= 0 ? this.start : other.start,
+            this.end.compareTo(other.end) >= 0 ? this.end : other.end
+        );
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners: ((event: T) => void)[] = [];
+
+    event = (listener: (event: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => (this.listeners = this.listeners.filter((l) => l !== listener)) };
+    };
+
+    fire(event: T): void {
+        this.listeners.forEach((listener) => listener(event));
+    }
+}
+
+export class Disposable {
+    constructor(private readonly callOnDispose: () => void) {}
+
+    dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+export enum TextDocumentChangeReason {
+    Undo = 1,
+    Redo = 2,
+}
+
+export enum ConfigurationTarget {
+    Global = 1,
+    Workspace = 2,
+    WorkspaceFolder = 3,
+}
+
+export const window = {
+    activeTextEditor: undefined as unknown,
+    visibleTextEditors: [] as unknown[],
+    showErrorMessage: jest.fn(),
+    showWarningMessage: jest.fn(async () => undefined),
+    showInformationMessage: jest.fn(),
+    showQuickPick: jest.fn(),
+    createOutputChannel: jest.fn(() => ({ appendLine: jest.fn(), show: jest.fn(), dispose: jest.fn() })),
+};
+
+export const workspace = {
+    workspaceFolders: undefined as unknown[] | undefined,
+    workspaceFile: undefined as unknown,
+    getWorkspaceFolder: jest.fn(() => undefined as unknown),
+    getConfiguration: jest.fn(() => ({ get: jest.fn(), inspect: jest.fn(), update: jest.fn() })),
+    onWillSaveTextDocument: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidSaveTextDocument: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidCloseTextDocument: jest.fn(() => ({ dispose: jest.fn() })),
+};
+
+export const commands = {
+    executeCommand: jest.fn(async () => undefined),
+};
+
+export const languages = {
+    match: jest.fn(() => 0),
+};
+
+export const env = {
+    clipboard: { readText: jest.fn(async () => '') },
+};
@@ -0,0 +1,148 @@
+import path from 'path';
+import { calculatePitch, calculateVolume, getFalloffTime, playAudio, playTone } from '../src/audio';
+import { cleanupChannels, getChannelVoices } from '../src/mixer';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+import { CHANNEL_MAP } from '../src/constants/channels';
+import { createRecordingAudioEngine, RecordedEvent, RecordingAudioEngine } from '../src/engine/recordingEngine';
+
+const EXTENSION_PATH = path.resolve(__dirname, '..');
+const LETTER_FILE = path.join(EXTENSION_PATH, 'audio', 'animalese', 'female', 'voice_1', 'a.mp3');
+const NOTE_FILE = path.join(EXTENSION_PATH, 'audio', 'vocals', 'female', 'voice_1', '0.mp3');
+
+function settingsWith(overrides: Partial<typeof DEFAULT_SETTINGS> = {}): typeof DEFAULT_SETTINGS {
+    return { ...structuredClone(DEFAULT_SETTINGS), ...overrides };
+}
+
+function eventsOfType<T extends RecordedEvent['type']>(
+    engine: RecordingAudioEngine,
+    type: T
+): Extract<RecordedEvent, { type: T }>[] {
+    return engine.events.filter((event): event is Extract<RecordedEvent, { type: T }> => event.type === type);
+}
+
+describe('calculatePitch', () => {
+    const pluginSettings = settingsWith({
+        intonation_pitchShift: 2,
+        intonation_pitchVariation: 100,
+        intonation_louderUppercase: 50,
+    });
+
+    it('only applies the pitch shift to melodic keys', () => {
+        expect(calculatePitch('5', pluginSettings, () => 0)).toBe(200);
+        expect(calculatePitch('?', pluginSettings, () => 1)).toBe(200);
+    });
+
+    it('varies other keys randomly within the pitch variation', () => {
+        expect(calculatePitch('a', pluginSettings, () => 0)).toBe(100);
+        expect(calculatePitch('a', pluginSettings, () => 0.5)).toBe(200);
+        expect(calculatePitch('a', pluginSettings, () => 1)).toBe(300);
+    });
+
+    it('raises uppercase letters by a fixed amount', () => {
+        expect(calculatePitch('A', pluginSettings, () => 0)).toBe(200 + 1.5 * 100 * 1.5);
+        expect(calculatePitch('A', pluginSettings, () => 1)).toBe(200 + 1.5 * 100 * 1.5);
+    });
+
+    it('treats uppercase letters like any other when the boost is off', () => {
+        expect(calculatePitch('A', { ...pluginSettings, intonation_louderUppercase: 0 }, () => 0)).toBe(100);
+    });
+});
+
+describe('calculateVolume', () => {
+    it('converts the volume percentage to a gain', () => {
+        expect(calculateVolume('a', settingsWith({ volume: 40 }))).toBeCloseTo(0.4);
+    });
+
+    it('boosts uppercase letters', () => {
+        const pluginSettings = settingsWith({ volume: 40, intonation_louderUppercase: 50 });
+        expect(calculateVolume('A', pluginSettings)).toBeCloseTo(0.6);
+        expect(calculateVolume('1', pluginSettings)).toBeCloseTo(0.4);
+    });
+});
+
+describe('getFalloffTime', () => {
+    it('only lets melodic keys fall off', () => {
+        expect(getFalloffTime('1')).toBe(0.5);
+        expect(getFalloffTime('=')).toBe(0.5);
+        expect(getFalloffTime('a')).toBeNull();
+        expect(getFalloffTime('tab')).toBeNull();
+    });
+});
+
+describe('channels', () => {
+    let engine: RecordingAudioEngine;
+
+    beforeEach(() => {
+        engine = createRecordingAudioEngine();
+    });
+
+    afterEach(() => {
+        cleanupChannels();
+    });
+
+    it('schedules a sound with the calculated pitch, volume and falloff', async () => {
+        await playAudio(engine, NOTE_FILE, '1', CHANNEL_MAP.melodic, settingsWith({ volume: 80 }));
+
+        const [played] = eventsOfType(engine, 'playBuffer');
+        expect(played.playback).toMatchObject({ startTime: 0, detune: 0, falloff: 0.5, fadeIn: 0, duration: null });
+        expect(played.playback.volume).toBeCloseTo(0.8);
+    });
+
+    it('cuts off the previous sound on the same channel with a short fade', async () => {
+        await playAudio(engine, LETTER_FILE, 'a', CHANNEL_MAP.voice, DEFAULT_SETTINGS);
+        engine.advanceTime(0.01);
+        await playAudio(engine, LETTER_FILE, 'b', CHANNEL_MAP.voice, DEFAULT_SETTINGS);
+
+        const [first, second] = eventsOfType(engine, 'playBuffer');
+        expect(eventsOfType(engine, 'fadeOut')).toEqual([
+            { type: 'fadeOut', time: 0.01, id: first.id, duration: 0.025 },
+        ]);
+
+        engine.advanceTime(0.025);
+        expect(eventsOfType(engine, 'ended').map(({ id }) => id)).toEqual([first.id]);
+        expect(getChannelVoices(CHANNEL_MAP.voice)).toHaveLength(1);
+        expect(second.id).not.toBe(first.id);
+    });
+
+    it('leaves sounds on other channels alone', async () => {
+        await playAudio(engine, LETTER_FILE, 'a', CHANNEL_MAP.voice, DEFAULT_SETTINGS);
+        await playAudio(engine, NOTE_FILE, '1', CHANNEL_MAP.melodic, DEFAULT_SETTINGS);
+        playTone(engine, [{ waveform: 'sine', detune: 0, duration: 0.2, gain: 1 }], 'tab', CHANNEL_MAP.sfx, DEFAULT_SETTINGS);
+
+        expect(eventsOfType(engine, 'fadeOut')).toEqual([]);
+    });
+
+    it('lets synthesized tones cut off sounds on the same channel', async () => {
+        await playAudio(engine, LETTER_FILE, 'a', CHANNEL_MAP.voice, DEFAULT_SETTINGS);
+        playTone(engine, [{ waveform: 'square', detune: 0, duration: 0.2, gain: 1 }], 'b', CHANNEL_MAP.voice, DEFAULT_SETTINGS);
+
+        const [played] = eventsOfType(engine, 'playBuffer');
+        expect(eventsOfType(engine, 'fadeOut').map(({ id }) => id)).toEqual([played.id]);
+    });
+
+    it('frees the channel once the sound has ended', () => {
+        playTone(engine, [{ waveform: 'sine', detune: 0, duration: 0.2, gain: 1 }], 'a', CHANNEL_MAP.voice, DEFAULT_SETTINGS);
+        expect(getChannelVoices(CHANNEL_MAP.voice)).toHaveLength(1);
+
+        engine.advanceTime(0.2);
+        expect(getChannelVoices(CHANNEL_MAP.voice)).toEqual([]);
+    });
+
+    it('lets sounds played without a channel overlap', async () => {
+        await playAudio(engine, LETTER_FILE, 'a', undefined, DEFAULT_SETTINGS);
+        await playAudio(engine, LETTER_FILE, 'a', undefined, DEFAULT_SETTINGS);
+
+        expect(eventsOfType(engine, 'playBuffer')).toHaveLength(2);
+        expect(eventsOfType(engine, 'fadeOut')).toEqual([]);
+    });
+
+    it('stops every channel on cleanup', async () => {
+        await playAudio(engine, LETTER_FILE, 'a', CHANNEL_MAP.voice, DEFAULT_SETTINGS);
+        await playAudio(engine, NOTE_FILE, '1', CHANNEL_MAP.melodic, DEFAULT_SETTINGS);
+        cleanupChannels();
+
+        expect(eventsOfType(engine, 'stop')).toHaveLength(2);
+        expect(getChannelVoices(CHANNEL_MAP.voice)).toEqual([]);
+        expect(getChannelVoices(CHANNEL_MAP.melodic)).toEqual([]);
+    });
+});
@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import path from 'path';
+import getAudioData, {
+    getSampleCacheStats,
+    invalidateAudioData,
+    preloadAudioData,
+    setSampleCacheBudget,
+} from '../src/get/audioData';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+import { createRecordingAudioEngine, RecordingAudioEngine } from '../src/engine/recordingEngine';
+
+const SAMPLE_SIZE = Float32Array.BYTES_PER_ELEMENT; // The recording engine decodes every byte into one sample.
+
+let directory: string;
+let engine: RecordingAudioEngine;
+
+/**
+ * Writes a fake sound file, where every byte becomes one sample when decoded by the recording engine.
+ */
+function writeSound(name: string, bytes: number[]): string {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, Buffer.from(bytes));
+    return filePath;
+}
+
+function decodeCount(): number {
+    return engine.events.filter((event) => event.type === 'decode').length;
+}
+
+beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'animalese-'));
+    engine = createRecordingAudioEngine();
+    invalidateAudioData();
+});
+
+afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    setSampleCacheBudget(DEFAULT_SETTINGS.sampleCache_memoryBudget);
+});
+
+describe('getAudioData', () => {
+    it('skips leading silence', async () => {
+        const filePath = writeSound('quiet.mp3', [0, 0, 0, 255]);
+        const { delay } = await getAudioData(filePath, engine);
+
+        expect(delay).toBeCloseTo(3 / 44100);
+    });
+
+    it('caches sounds without leading silence', async () => {
+        const filePath = writeSound('loud.mp3', [255, 255]);
+        await getAudioData(filePath, engine);
+        const { delay } = await getAudioData(filePath, engine);
+
+        expect(delay).toBe(0);
+        expect(decodeCount()).toBe(1);
+    });
+
+    it('decodes a file only once when it is requested several times at once', async () => {
+        const filePath = writeSound('a.mp3', [1, 2, 3]);
+        const [first, second] = await Promise.all([
+            getAudioData(filePath, engine),
+            getAudioData(filePath, engine),
+        ]);
+
+        expect(first.audioBuffer).toBe(second.audioBuffer);
+        expect(decodeCount()).toBe(1);
+    });
+
+    it('keeps the buffers of engines at other sample rates apart', async () => {
+        const filePath = writeSound('a.mp3', [1, 2, 3]);
+        const offlineEngine = createRecordingAudioEngine(22050);
+
+        const live = await getAudioData(filePath, engine);
+        const offline = await getAudioData(filePath, offlineEngine);
+
+        expect(live.audioBuffer.sampleRate).toBe(44100);
+        expect(offline.audioBuffer.sampleRate).toBe(22050);
+        expect((await getAudioData(filePath, engine)).audioBuffer).toBe(live.audioBuffer);
+    });
+
+    it('reports files that cannot be decoded', async () => {
+        const filePath = writeSound('empty.mp3', []);
+
+        await expect(getAudioData(filePath, engine)).rejects.toThrow('not a valid audio type');
+    });
+
+    it('reloads a file once it has been invalidated', async () => {
+        const filePath = writeSound('custom.mp3', [255]);
+        await getAudioData(filePath, engine);
+        writeSound('custom.mp3', [0, 255]);
+        invalidateAudioData(filePath);
+        const { delay } = await getAudioData(filePath, engine);
+
+        expect(delay).toBeCloseTo(1 / 44100);
+        expect(decodeCount()).toBe(2);
+    });
+});
+
+describe('sample cache', () => {
+    it('only throws away the decodes of the file that was invalidated', async () => {
+        const [changed, unchanged] = ['a', 'b'].map((name) => writeSound(`${name}.mp3`, [1]));
+
+        const decodes = Promise.all([getAudioData(changed, engine), getAudioData(unchanged, engine)]);
+        invalidateAudioData(changed);
+        await decodes;
+
+        expect(getSampleCacheStats().samples).toBe(1);
+        await getAudioData(unchanged, engine);
+        expect(decodeCount()).toBe(2);
+    });
+
+    it('evicts the least recently used sounds to stay within its budget', async () => {
+        setSampleCacheBudget((2.5 * 1024 * SAMPLE_SIZE) / 1024 / 1024);
+        const sounds = ['a', 'b', 'c'].map((name) => writeSound(`${name}.mp3`, new Array(1024).fill(1)));
+
+        await getAudioData(sounds[0], engine);
+        await getAudioData(sounds[1], engine);
+        await getAudioData(sounds[0], engine); // `a` is now more recently used than `b`
+        await getAudioData(sounds[2], engine);
+
+        expect(getSampleCacheStats()).toMatchObject({ samples: 2, memory: 2 * 1024 * SAMPLE_SIZE });
+
+        await getAudioData(sounds[0], engine);
+        expect(decodeCount()).toBe(3);
+        await getAudioData(sounds[1], engine);
+        expect(decodeCount()).toBe(4);
+    });
+
+    it('counts hits and misses, but not preloads', async () => {
+        const sounds = ['a', 'b'].map((name) => writeSound(`${name}.mp3`, [1]));
+        const before = getSampleCacheStats();
+
+        await preloadAudioData(sounds, engine);
+        await getAudioData(sounds[0], engine);
+        await getAudioData(sounds[1], engine);
+        await getAudioData(writeSound('c.mp3', [1]), engine);
+
+        const after = getSampleCacheStats();
+        expect(after.hits - before.hits).toBe(2);
+        expect(after.misses - before.misses).toBe(1);
+        expect(after.samples).toBe(3);
+    });
+
+    it('skips files that fail to preload', async () => {
+        const sound = writeSound('a.mp3', [1]);
+
+        await expect(
+            preloadAudioData([path.join(directory, 'missing.mp3'), writeSound('empty.mp3', []), sound], engine)
+        ).resolves.toBeUndefined();
+        expect(getSampleCacheStats().samples).toBe(1);
+    });
+});
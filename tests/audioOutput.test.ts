@@ -0,0 +1,27 @@
+import { restartAudioOutput } from '../src/audioOutput';
+import { cleanupChannels } from '../src/mixer';
+import { closeAudioEngine, setAudioEngineFactory } from '../src/engine/engineState';
+import { createRecordingAudioEngine } from '../src/engine/recordingEngine';
+
+// Listing the output devices needs the real audio output, which the restart itself doesn't use.
+jest.mock('../src/engine/outputDevice', () => ({ listOutputDevices: jest.fn(async () => []) }));
+
+describe('restartAudioOutput', () => {
+    afterEach(async () => {
+        cleanupChannels();
+        await closeAudioEngine();
+    });
+
+    it('restarts once more when asked again during a restart, however often it is asked', async () => {
+        const createEngine = jest.fn(() => createRecordingAudioEngine());
+        setAudioEngineFactory(createEngine);
+
+        await Promise.all([
+            restartAudioOutput('', 'the output settings changed'),
+            restartAudioOutput('', 'the output device changed'),
+            restartAudioOutput('', 'the output device changed again'),
+        ]);
+
+        expect(createEngine).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,103 @@
+import { getActiveMuteRules, getMutingRule, isInQuietHours, MuteConditions, WEEKDAYS } from '../src/autoMute/muteRules';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+
+// 1 May 2024 was a Wednesday.
+const WEDNESDAY = (hours: number, minutes = 0) => new Date(2024, 4, 1, hours, minutes);
+
+const IDLE: MuteConditions = {
+    debugState: 'none',
+    terminalFocused: false,
+    webviewFocused: false,
+    windowFocused: true,
+    snoozedUntil: null,
+};
+
+describe('isInQuietHours', () => {
+    it('covers times between the start and the end of the same day', () => {
+        expect(isInQuietHours('12:00', '13:30', WEEKDAYS, WEDNESDAY(12))).toBe(true);
+        expect(isInQuietHours('12:00', '13:30', WEEKDAYS, WEDNESDAY(13, 29))).toBe(true);
+        expect(isInQuietHours('12:00', '13:30', WEEKDAYS, WEDNESDAY(13, 30))).toBe(false);
+        expect(isInQuietHours('12:00', '13:30', WEEKDAYS, WEDNESDAY(11, 59))).toBe(false);
+    });
+
+    it('runs overnight when the end is before the start', () => {
+        expect(isInQuietHours('22:00', '08:00', WEEKDAYS, WEDNESDAY(23))).toBe(true);
+        expect(isInQuietHours('22:00', '08:00', WEEKDAYS, WEDNESDAY(7, 59))).toBe(true);
+        expect(isInQuietHours('22:00', '08:00', WEEKDAYS, WEDNESDAY(12))).toBe(false);
+    });
+
+    it('only starts on the chosen days, but lasts past midnight', () => {
+        expect(isInQuietHours('22:00', '08:00', ['tue'], WEDNESDAY(2))).toBe(true);
+        expect(isInQuietHours('22:00', '08:00', ['tue'], WEDNESDAY(23))).toBe(false);
+        expect(isInQuietHours('22:00', '08:00', ['wed'], WEDNESDAY(2))).toBe(false);
+    });
+
+    it('lasts all day when it starts and ends at the same time', () => {
+        expect(isInQuietHours('09:00', '09:00', ['wed'], WEDNESDAY(15))).toBe(true);
+        expect(isInQuietHours('09:00', '09:00', ['thu'], WEDNESDAY(15))).toBe(false);
+    });
+});
+
+describe('getActiveMuteRules', () => {
+    it('ignores rules that are turned off', () => {
+        const conditions: MuteConditions = {
+            debugState: 'paused',
+            terminalFocused: true,
+            webviewFocused: true,
+            windowFocused: false,
+            snoozedUntil: null,
+        };
+
+        expect(getActiveMuteRules(conditions, DEFAULT_SETTINGS, WEDNESDAY(23))).toEqual([]);
+    });
+
+    it('mutes while debugging, or only while paused', () => {
+        const running = { ...IDLE, debugState: 'running' as const };
+        const paused = { ...IDLE, debugState: 'paused' as const };
+        const whileActive = { ...DEFAULT_SETTINGS, autoMute_debugging: 'active' as const };
+        const whilePaused = { ...DEFAULT_SETTINGS, autoMute_debugging: 'paused' as const };
+
+        expect(getActiveMuteRules(running, whileActive, WEDNESDAY(12))).toEqual(['debugging']);
+        expect(getActiveMuteRules(paused, whileActive, WEDNESDAY(12))).toEqual(['debugging']);
+        expect(getActiveMuteRules(running, whilePaused, WEDNESDAY(12))).toEqual([]);
+        expect(getActiveMuteRules(paused, whilePaused, WEDNESDAY(12))).toEqual(['debugging']);
+        expect(getActiveMuteRules(IDLE, whileActive, WEDNESDAY(12))).toEqual([]);
+    });
+
+    it('lists every rule that applies, most important first', () => {
+        const pluginSettings = {
+            ...DEFAULT_SETTINGS,
+            autoMute_terminalFocus: true,
+            autoMute_windowUnfocused: true,
+            autoMute_quietHours_enabled: true,
+        };
+        const conditions = { ...IDLE, terminalFocused: true, windowFocused: false };
+
+        expect(getActiveMuteRules(conditions, pluginSettings, WEDNESDAY(23))).toEqual([
+            'quietHours',
+            'terminal',
+            'windowUnfocused',
+        ]);
+        expect(getActiveMuteRules(conditions, pluginSettings, WEDNESDAY(12))).toEqual(['terminal', 'windowUnfocused']);
+    });
+
+    it('snoozes until the snooze ends', () => {
+        const now = WEDNESDAY(12);
+        const snoozed = { ...IDLE, snoozedUntil: now.getTime() + 60000 };
+
+        expect(getActiveMuteRules(snoozed, DEFAULT_SETTINGS, now)).toEqual(['snooze']);
+        expect(getActiveMuteRules(snoozed, DEFAULT_SETTINGS, WEDNESDAY(12, 1))).toEqual([]);
+    });
+});
+
+describe('getMutingRule', () => {
+    it('picks the most important rule that applies', () => {
+        expect(getMutingRule(['quietHours', 'terminal'])).toBe('quietHours');
+        expect(getMutingRule([])).toBeNull();
+    });
+
+    it('lets terminal command sounds play while the terminal is focused, but not during other rules', () => {
+        expect(getMutingRule(['terminal'], ['terminal'])).toBeNull();
+        expect(getMutingRule(['terminal', 'windowUnfocused'], ['terminal'])).toBe('windowUnfocused');
+    });
+});
@@ -0,0 +1,76 @@
+import path from 'path';
+import { mapCharacter, transliterateKey } from '../src/characterMapping';
+import { getVoiceFilePath } from '../src/get/filePath';
+import { ASCII_SOUND_MAP } from '../src/constants/characterMap';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+
+const EXTENSION_PATH = path.resolve(__dirname, '..');
+const FEMALE_VOICE_1 = path.join(EXTENSION_PATH, 'audio', 'animalese', 'female', 'voice_1');
+const SFX_PATH = path.join(EXTENSION_PATH, 'audio', 'sfx');
+
+describe('mapCharacter', () => {
+    it('covers every printable ASCII character', () => {
+        for (let code = 0x20; code <= 0x7e; code++) {
+            expect(ASCII_SOUND_MAP).toHaveProperty([String.fromCharCode(code)]);
+        }
+    });
+
+    it('borrows sounds for characters without one of their own', () => {
+        expect(mapCharacter('<', DEFAULT_SETTINGS)).toBe('(');
+        expect(mapCharacter('_', DEFAULT_SETTINGS)).toBe('-');
+        expect(mapCharacter('`', DEFAULT_SETTINGS)).toBe('~');
+        expect(mapCharacter('a', DEFAULT_SETTINGS)).toBe('a');
+        expect(mapCharacter('tab', DEFAULT_SETTINGS)).toBe('tab');
+    });
+
+    it('transliterates accented Latin letters to their base letter', () => {
+        expect(mapCharacter('é', DEFAULT_SETTINGS)).toBe('e');
+        expect(mapCharacter('Ü', DEFAULT_SETTINGS)).toBe('U');
+        expect(mapCharacter('ß', DEFAULT_SETTINGS)).toBe('s');
+        expect(mapCharacter('ｂ', DEFAULT_SETTINGS)).toBe('b'); // Full-width
+    });
+
+    it('romanizes kana and hangul', () => {
+        expect(mapCharacter('か', DEFAULT_SETTINGS)).toBe('k');
+        expect(mapCharacter('が', DEFAULT_SETTINGS)).toBe('g');
+        expect(mapCharacter('カ', DEFAULT_SETTINGS)).toBe('k');
+        expect(mapCharacter('あ', DEFAULT_SETTINGS)).toBe('a');
+        expect(mapCharacter('ん', DEFAULT_SETTINGS)).toBe('n');
+        expect(mapCharacter('한', DEFAULT_SETTINGS)).toBe('h');
+        expect(mapCharacter('아', DEFAULT_SETTINGS)).toBe('a'); // Silent initial consonant
+    });
+
+    it('gives letters of other scripts a consistent letter', () => {
+        const letter = mapCharacter('ж', DEFAULT_SETTINGS);
+
+        expect(letter).toMatch(/^[a-z]$/);
+        expect(mapCharacter('ж', DEFAULT_SETTINGS)).toBe(letter);
+        expect(mapCharacter('字', DEFAULT_SETTINGS)).toMatch(/^[a-z]$/);
+        expect(mapCharacter('😀', DEFAULT_SETTINGS)).toBe('😀');
+    });
+
+    it('lets users override individual characters', () => {
+        const pluginSettings = { ...structuredClone(DEFAULT_SETTINGS), characterMap: { ';': 'tab', é: 'i' } };
+
+        expect(mapCharacter(';', pluginSettings)).toBe('tab');
+        expect(mapCharacter('é', pluginSettings)).toBe('i');
+    });
+});
+
+describe('transliterateKey', () => {
+    it('only replaces non-ASCII letters', () => {
+        expect(transliterateKey('é', DEFAULT_SETTINGS)).toBe('e');
+        expect(transliterateKey('か', DEFAULT_SETTINGS)).toBe('k');
+        expect(transliterateKey('.', DEFAULT_SETTINGS)).toBe('.');
+        expect(transliterateKey(' ', DEFAULT_SETTINGS)).toBe(' ');
+        expect(transliterateKey('backspace', DEFAULT_SETTINGS)).toBe('backspace');
+    });
+});
+
+describe('getVoiceFilePath with mapped characters', () => {
+    it('plays the sound of the mapped key', () => {
+        expect(getVoiceFilePath(EXTENSION_PATH, 'ñ', 0, DEFAULT_SETTINGS)).toBe(path.join(FEMALE_VOICE_1, 'n.mp3'));
+        expect(getVoiceFilePath(EXTENSION_PATH, '|', 0, DEFAULT_SETTINGS)).toBe(path.join(SFX_PATH, 'slash_back.mp3'));
+        expect(getVoiceFilePath(EXTENSION_PATH, ' ', 0, DEFAULT_SETTINGS)).toBe(path.join(SFX_PATH, 'default.mp3'));
+    });
+});
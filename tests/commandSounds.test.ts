@@ -0,0 +1,31 @@
+import { getCommandPhrase, getCommandResult } from '../src/terminal/commandSounds';
+
+describe('getCommandResult', () => {
+    it('announces success and failure by exit code', () => {
+        expect(getCommandResult(0, 500, 0)).toBe('success');
+        expect(getCommandResult(1, 500, 0)).toBe('failure');
+        expect(getCommandResult(130, 500, 0)).toBe('failure');
+    });
+
+    it("stays quiet if the shell didn't report an exit code", () => {
+        expect(getCommandResult(undefined, 500, 0)).toBeNull();
+    });
+
+    it('only announces commands that ran for the minimum duration', () => {
+        expect(getCommandResult(0, 9999, 10)).toBeNull();
+        expect(getCommandResult(2, 10000, 10)).toBe('failure');
+    });
+});
+
+describe('getCommandPhrase', () => {
+    it('speaks the first letters of the program name', () => {
+        expect(getCommandPhrase('npm run build')).toEqual(['n', 'p', 'm']);
+        expect(getCommandPhrase('  cargo test --release')).toEqual(['c', 'a', 'r', 'g']);
+    });
+
+    it('leaves out the path and anything that isn\'t a letter', () => {
+        expect(getCommandPhrase('./scripts/deploy-all.sh')).toEqual(['d', 'e', 'p', 'l']);
+        expect(getCommandPhrase('C:\\tools\\go.exe build')).toEqual(['g', 'o', 'e', 'x']);
+        expect(getCommandPhrase('')).toEqual([]);
+    });
+});
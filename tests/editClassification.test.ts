@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { classifyEdit, trackDocumentSaves } from '../src/editClassification';
+
+const document = { uri: { toString: () => 'file:///test.ts' } } as vscode.TextDocument;
+
+/**
+ * Builds a change event made of edits on the first line, each given as its text, start character and replaced length.
+ */
+function changeEvent(
+    edits: [text: string, character: number, rangeLength?: number][],
+    reason?: vscode.TextDocumentChangeReason
+): vscode.TextDocumentChangeEvent {
+    return {
+        document,
+        reason,
+        contentChanges: edits.map(([text, character, rangeLength = 0]) => {
+            const start = new vscode.Position(0, character);
+            return { text, range: new vscode.Range(start, start.translate(0, rangeLength)), rangeOffset: character, rangeLength };
+        }),
+    };
+}
+
+/**
+ * Shows the document in an editor with a cursor at each of the given characters of the first line.
+ */
+function placeCursors(...characters: number[]) {
+    Object.assign(vscode.window, {
+        visibleTextEditors: [{ document, selections: characters.map((c) => ({ active: new vscode.Position(0, c) })) }],
+    });
+}
+
+describe('classifyEdit', () => {
+    let readClipboard: jest.Mock;
+
+    beforeEach(() => {
+        readClipboard = jest.fn(async () => 'hello world');
+        placeCursors(5);
+    });
+
+    it('recognises undo, redo and programmatic edits without reading the clipboard', async () => {
+        expect(await classifyEdit(changeEvent([['hello world', 0]], vscode.TextDocumentChangeReason.Undo), readClipboard)).toBe('undoRedo');
+        expect(await classifyEdit(changeEvent([['hello world', 40]]), readClipboard)).toBe('programmatic');
+        expect(readClipboard).not.toHaveBeenCalled();
+    });
+
+    it("doesn't read the clipboard for anything that could have been typed", async () => {
+        expect(await classifyEdit(changeEvent([['a', 4]]), readClipboard)).toBe('typed');
+        expect(await classifyEdit(changeEvent([['()', 4]]), readClipboard)).toBe('typed');
+        expect(await classifyEdit(changeEvent([['é', 4, 1]]), readClipboard)).toBe('replacement');
+        expect(await classifyEdit(changeEvent([['hello world', 0]]), readClipboard)).toBe('paste');
+        expect(readClipboard).not.toHaveBeenCalled();
+    });
+
+    it('tells pastes over a selection apart from other replacements', async () => {
+        expect(await classifyEdit(changeEvent([['hello world', 0, 5]]), readClipboard)).toBe('paste');
+        expect(await classifyEdit(changeEvent([['console.log', 0, 5]]), readClipboard)).toBe('replacement');
+    });
+
+    it('tells multi-cursor typing apart from multi-cursor pastes', async () => {
+        placeCursors(1, 5);
+
+        expect(await classifyEdit(changeEvent([['a', 1], ['a', 5]]), readClipboard)).toBe('multiCursor');
+        expect(readClipboard).not.toHaveBeenCalled();
+        expect(await classifyEdit(changeEvent([['hello world', 1], ['hello world', 5]]), readClipboard)).toBe('paste');
+    });
+});
+
+describe('trackDocumentSaves', () => {
+    let disposables: vscode.Disposable[];
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        placeCursors(5);
+        disposables = trackDocumentSaves();
+    });
+
+    afterEach(() => {
+        disposables.forEach((disposable) => disposable.dispose());
+        jest.useRealTimers();
+    });
+
+    /**
+     * Fires the most recently registered listener of a workspace event.
+     */
+    function fire(event: 'onWillSaveTextDocument' | 'onDidSaveTextDocument' | 'onDidCloseTextDocument', arg: unknown) {
+        const register = vscode.workspace[event] as jest.Mock;
+        register.mock.calls[register.mock.calls.length - 1][0](arg);
+    }
+
+    it('treats edits made while saving as bulk edits', async () => {
+        fire('onWillSaveTextDocument', { document });
+        expect(await classifyEdit(changeEvent([['a', 4]]))).toBe('bulk');
+
+        fire('onDidSaveTextDocument', document);
+        expect(await classifyEdit(changeEvent([['a', 4]]))).toBe('typed');
+    });
+
+    it('stops treating a document as being saved when the save never completes', async () => {
+        fire('onWillSaveTextDocument', { document });
+        jest.advanceTimersByTime(5000);
+
+        expect(await classifyEdit(changeEvent([['a', 4]]))).toBe('typed');
+    });
+
+    it('stops treating a document as being saved when it is closed', async () => {
+        fire('onWillSaveTextDocument', { document });
+        fire('onDidCloseTextDocument', document);
+
+        expect(await classifyEdit(changeEvent([['a', 4]]))).toBe('typed');
+    });
+});
@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { getColumnPan, getMasterBusOptions } from '../src/effects';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+
+function settingsWith(overrides: Partial<typeof DEFAULT_SETTINGS> = {}): typeof DEFAULT_SETTINGS {
+    return { ...structuredClone(DEFAULT_SETTINGS), ...overrides };
+}
+
+describe('getMasterBusOptions', () => {
+    it('leaves the sound untouched by default', () => {
+        expect(getMasterBusOptions(settingsWith())).toEqual({
+            lowShelf: { frequency: 250, gain: 0 },
+            highShelf: { frequency: 4000, gain: 0 },
+            reverbMix: 0,
+            reverbDecay: 1.5,
+            compressor: false,
+        });
+    });
+
+    it('converts the reverb mix to a fraction and clamps it', () => {
+        expect(getMasterBusOptions(settingsWith({ effects_reverb_mix: 30 })).reverbMix).toBeCloseTo(0.3);
+        expect(getMasterBusOptions(settingsWith({ effects_reverb_mix: 250 })).reverbMix).toBe(1);
+        expect(getMasterBusOptions(settingsWith({ effects_reverb_mix: -5 })).reverbMix).toBe(0);
+    });
+});
+
+describe('getColumnPan', () => {
+    const panning = settingsWith({ effects_panning_enabled: true });
+
+    it('keeps sounds centred when panning is off', () => {
+        expect(getColumnPan(0, settingsWith(), 80)).toBe(0);
+    });
+
+    it('places sounds from left to right across the visible columns', () => {
+        expect(getColumnPan(0, panning, 80)).toBe(-1);
+        expect(getColumnPan(40, panning, 80)).toBe(0);
+        expect(getColumnPan(80, panning, 80)).toBe(1);
+        expect(getColumnPan(200, panning, 80)).toBe(1);
+    });
+
+    it('narrows the stereo field with the panning width', () => {
+        expect(getColumnPan(0, { ...panning, effects_panning_width: 50 }, 80)).toBe(-0.5);
+    });
+
+    it('uses the word wrap column as the width of the editor when wrapping at it', () => {
+        const config: Record<string, unknown> = { wordWrap: 'wordWrapColumn', wordWrapColumn: 120 };
+        (vscode.workspace.getConfiguration as jest.Mock).mockReturnValueOnce({ get: (key: string) => config[key] });
+        Object.assign(vscode.window, { activeTextEditor: { document: {} } });
+
+        try {
+            expect(getColumnPan(60, panning)).toBe(0);
+        } finally {
+            Object.assign(vscode.window, { activeTextEditor: undefined });
+        }
+    });
+
+    it('assumes 80 columns otherwise', () => {
+        expect(getColumnPan(40, panning)).toBe(0);
+    });
+});
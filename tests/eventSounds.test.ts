@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import path from 'path';
+import { playEventSound } from '../src/eventSounds';
+import { cleanupChannels } from '../src/mixer';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+import { closeAudioEngine, setAudioEngineFactory } from '../src/engine/engineState';
+import { createRecordingAudioEngine, RecordingAudioEngine } from '../src/engine/recordingEngine';
+import { logMessage } from '../src/outputChannel';
+
+// The extension entry point sets up the real audio output, so only the state event sounds ask for is faked.
+jest.mock('../src/extension', () => ({ isSoundOn: jest.fn(() => true) }));
+jest.mock('../src/outputChannel', () => ({ logMessage: jest.fn() }));
+
+const EXTENSION_PATH = path.resolve(__dirname, '..');
+const context = { extensionPath: EXTENSION_PATH } as vscode.ExtensionContext;
+
+/**
+ * Turns event sounds on, with the given sound played on save.
+ */
+function withSaveSound(sound: string): typeof DEFAULT_SETTINGS {
+    return {
+        ...structuredClone(DEFAULT_SETTINGS),
+        eventSounds_enabled: true,
+        eventSounds_sounds: { ...DEFAULT_SETTINGS.eventSounds_sounds, save: { sound, volume: 50 } },
+    };
+}
+
+describe('playEventSound', () => {
+    let engine: RecordingAudioEngine;
+
+    beforeEach(() => {
+        engine = createRecordingAudioEngine();
+        setAudioEngineFactory(() => engine);
+    });
+
+    afterEach(async () => {
+        cleanupChannels();
+        await closeAudioEngine();
+    });
+
+    it('plays the sound configured for the event', async () => {
+        await playEventSound(context, 'save', withSaveSound('phrase:OK'));
+
+        expect(engine.events.filter((event) => event.type === 'playBuffer')).toHaveLength(1);
+    });
+
+    it('reports a custom sound that does not exist instead of failing', async () => {
+        const missingPath = path.join(EXTENSION_PATH, 'missing', 'fanfare.wav');
+
+        await expect(playEventSound(context, 'save', withSaveSound(missingPath))).resolves.toBeUndefined();
+
+        expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('save event'));
+        expect(engine.events.filter((event) => event.type === 'playBuffer')).toHaveLength(0);
+    });
+
+    it('reports a sound that names no known sound effect or phrase', async () => {
+        await playEventSound(context, 'save', withSaveSound('sfx:fanfare'));
+
+        expect(logMessage).toHaveBeenCalledWith(expect.stringContaining('"sfx:fanfare"'));
+        expect(engine.events.filter((event) => event.type === 'playBuffer')).toHaveLength(0);
+    });
+
+    it('stays silent without reporting anything for none', async () => {
+        (logMessage as jest.Mock).mockClear();
+
+        await playEventSound(context, 'save', withSaveSound('none'));
+
+        expect(logMessage).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import path from 'path';
+import { getEventFilePath, getFilePath } from '../src/get/filePath';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+import { HARMONIC_CHARACTERS, PHRASE_KEYS, SFX_KEYS, SFX_NAMES, SYMBOLS } from '../src/constants/charTypes';
+import { ASCII_SOUND_MAP } from '../src/constants/characterMap';
+import { getVoicePackFilePath, loadVoicePack, VoicePack } from '../src/voicePack';
+import { createRecordingAudioEngine } from '../src/engine/recordingEngine';
+
+const EXTENSION_PATH = path.resolve(__dirname, '..');
+const FEMALE_VOICE_1 = path.join(EXTENSION_PATH, 'audio', 'animalese', 'female', 'voice_1');
+const SFX = path.join(EXTENSION_PATH, 'audio', 'sfx');
+
+function settingsWith(overrides: Partial<typeof DEFAULT_SETTINGS> = {}): typeof DEFAULT_SETTINGS {
+    return { ...structuredClone(DEFAULT_SETTINGS), ...overrides };
+}
+
+describe('getFilePath', () => {
+    it.each([...'abcxyzABCXYZ'])('maps the letter %p to its syllable', (key) => {
+        expect(getFilePath(EXTENSION_PATH, key, 0, settingsWith())).toBe(
+            path.join(FEMALE_VOICE_1, `${key.toLowerCase()}.mp3`)
+        );
+    });
+
+    it.each(HARMONIC_CHARACTERS)('maps the harmonic key %p to a sung note', (key) => {
+        expect(getFilePath(EXTENSION_PATH, key, 5, settingsWith())).toBe(
+            path.join(
+                EXTENSION_PATH,
+                'audio',
+                'vocals',
+                'male',
+                'voice_2',
+                `${HARMONIC_CHARACTERS.indexOf(key)}.mp3`
+            )
+        );
+    });
+
+    it.each(SYMBOLS)('maps the symbol %p to a sound effect', (key) => {
+        const filePath = getFilePath(EXTENSION_PATH, key, 0, settingsWith());
+        expect(path.dirname(filePath!)).toBe(SFX);
+        expect(filePath).not.toBe(path.join(SFX, 'default.mp3'));
+    });
+
+    it.each(SFX_KEYS)('maps the special key %p to its own sound effect', (key) => {
+        expect(getFilePath(EXTENSION_PATH, key, 0, settingsWith())).toBe(path.join(SFX, `${key}.mp3`));
+    });
+
+    it.each(PHRASE_KEYS)('maps the phrase %p to a villager phrase', (key) => {
+        expect(getFilePath(EXTENSION_PATH, key, 0, settingsWith())).toBe(
+            path.join(FEMALE_VOICE_1, `${key.replace('phrase_', '')}.mp3`)
+        );
+    });
+
+    it('maps pastes to the OK phrase', () => {
+        expect(getFilePath(EXTENSION_PATH, 'paste', 0, settingsWith())).toBe(
+            path.join(FEMALE_VOICE_1, 'OK.mp3')
+        );
+    });
+
+    it.each([
+        ['!', 'Gwah.mp3'],
+        ['?', 'Deska.mp3'],
+        ['\n', 'OK.mp3'],
+    ])('maps %p to a phrase when special punctuation is on', (key, file) => {
+        expect(getFilePath(EXTENSION_PATH, key, 0, settingsWith({ specialPunctuation: true }))).toBe(
+            path.join(FEMALE_VOICE_1, file)
+        );
+    });
+
+    it.each([
+        ['!', 'exclamation.mp3'],
+        ['?', 'question.mp3'],
+        ['\n', 'enter.mp3'],
+    ])('maps %p to a sound effect when special punctuation is off', (key, file) => {
+        expect(getFilePath(EXTENSION_PATH, key, 0, settingsWith({ specialPunctuation: false }))).toBe(
+            path.join(SFX, file)
+        );
+    });
+
+    it.each([' ', '😀'])('falls back to the default sound for %p', (key) => {
+        expect(getFilePath(EXTENSION_PATH, key, 0, settingsWith())).toBe(path.join(SFX, 'default.mp3'));
+    });
+
+    it.each([
+        [',', 'dollar.mp3'],
+        ['.', 'at.mp3'],
+        [';', 'ampersand.mp3'],
+    ])('borrows a sound for %p', (key, file) => {
+        expect(getFilePath(EXTENSION_PATH, key, 0, settingsWith())).toBe(path.join(SFX, file));
+    });
+
+    it('only points at files that exist', () => {
+        const keys = [
+            ...'aZ09-=~!?\n,',
+            ...Object.keys(ASCII_SOUND_MAP),
+            ...SYMBOLS,
+            ...SFX_KEYS,
+            ...PHRASE_KEYS,
+            'paste',
+        ];
+        for (let vocalIndex = 0; vocalIndex < 8; vocalIndex++) {
+            for (const specialPunctuation of [true, false]) {
+                for (const key of keys) {
+                    const filePath = getFilePath(
+                        EXTENSION_PATH,
+                        key,
+                        vocalIndex,
+                        settingsWith({ specialPunctuation })
+                    );
+                    expect(fs.existsSync(filePath!)).toBe(true);
+                }
+            }
+        }
+    });
+
+    it('always uses the sound override when one is set', () => {
+        const pluginSettings = settingsWith({ soundOverride: '/sounds/custom.mp3' });
+        for (const key of ['a', '1', '~', 'tab', 'paste']) {
+            expect(getFilePath(EXTENSION_PATH, key, 0, pluginSettings)).toBe('/sounds/custom.mp3');
+        }
+    });
+
+    it('lets synthesized themes return no file', () => {
+        expect(getFilePath(EXTENSION_PATH, 'a', 0, settingsWith({ soundTheme: 'mechanical' }))).toBeNull();
+    });
+});
+
+describe('getEventFilePath', () => {
+    it('finds every built-in sound effect', () => {
+        for (const name of SFX_NAMES) {
+            const filePath = getEventFilePath(EXTENSION_PATH, `sfx:${name}`, 0, settingsWith());
+            expect(filePath).toBe(path.join(SFX, `${name}.mp3`));
+            expect(fs.existsSync(filePath!)).toBe(true);
+        }
+    });
+
+    it('speaks phrases in the current voice', () => {
+        expect(getEventFilePath(EXTENSION_PATH, 'phrase:Gwah', 0, settingsWith())).toBe(
+            path.join(FEMALE_VOICE_1, 'Gwah.mp3')
+        );
+    });
+
+    it('plays custom files as they are', () => {
+        const customPath = path.resolve('/sounds/done.wav');
+        expect(getEventFilePath(EXTENSION_PATH, customPath, 0, settingsWith())).toBe(customPath);
+    });
+
+    it("stays silent for 'none' and sounds that don't exist", () => {
+        for (const sound of ['none', '', 'sfx:kazoo', 'phrase:Hello', 'relative/file.mp3']) {
+            expect(getEventFilePath(EXTENSION_PATH, sound, 0, settingsWith())).toBeNull();
+        }
+    });
+});
+
+describe('getVoicePackFilePath', () => {
+    const voicePack: VoicePack = {
+        name: 'Test Pack',
+        directory: '/packs/test',
+        sounds: new Map([
+            ['a', '/packs/test/a.wav'],
+            ['\n', '/packs/test/enter.wav'],
+        ]),
+        fallback: '/packs/test/default.wav',
+    };
+
+    it('plays the listed sound of a key', () => {
+        expect(getVoicePackFilePath(voicePack, 'A')).toBe('/packs/test/a.wav');
+        expect(getVoicePackFilePath(voicePack, '\n    ')).toBe('/packs/test/enter.wav');
+    });
+
+    it.each(['b', '1', '(', '!'])('plays the fallback for the unlisted character %p', (key) => {
+        expect(getVoicePackFilePath(voicePack, key)).toBe('/packs/test/default.wav');
+    });
+
+    it.each(['arrow_up', 'phrase_OK', 'paste', ' ', 'tab'])('leaves %p to the built-in sounds', (key) => {
+        expect(getVoicePackFilePath(voicePack, key)).toBeNull();
+    });
+});
+
+describe('loadVoicePack', () => {
+    it('tells missing sounds apart from sounds that cannot be read', async () => {
+        const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'voice-pack-'));
+        await fs.promises.mkdir(path.join(directory, 'b.wav'));
+        await fs.promises.writeFile(
+            path.join(directory, 'voicepack.json'),
+            JSON.stringify({ name: 'Broken Pack', letters: { a: 'a.wav', b: 'b.wav' } })
+        );
+
+        const { voicePack, problems } = await loadVoicePack(directory, createRecordingAudioEngine());
+
+        expect(voicePack).toBeNull();
+        expect(problems).toContainEqual('"letters.a": the file "a.wav" does not exist.');
+        expect(problems).toContainEqual(expect.stringMatching(/^"letters.b": the file "b.wav" could not be read \(EISDIR/));
+
+        await fs.promises.rm(directory, { recursive: true });
+    });
+});
@@ -0,0 +1,100 @@
+import { createIntonationEngine, getExcitement, Intonation } from '../src/intonation';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+
+const SETTINGS = { ...structuredClone(DEFAULT_SETTINGS), intonation_pitchVariation: 0 };
+
+/**
+ * Types the given text one key per `interval` milliseconds and collects the intonation of every key.
+ */
+function typeText(
+    text: string,
+    preset: 'classic' | 'conversational' | 'monotone',
+    interval: number = 400,
+    pluginSettings: typeof SETTINGS = SETTINGS,
+    seed: number = 1
+): Intonation[] {
+    const engine = createIntonationEngine(preset, seed);
+    return [...text].map((key, i) => engine.next(key, i * interval, pluginSettings));
+}
+
+describe('getExcitement', () => {
+    it('goes from calm to excited as typing speeds up', () => {
+        expect(getExcitement(null)).toBe(0);
+        expect(getExcitement(400)).toBe(0);
+        expect(getExcitement(165)).toBeCloseTo(0.5);
+        expect(getExcitement(50)).toBe(1);
+    });
+});
+
+describe('intonation engine', () => {
+    it('is deterministic for the same seed and input', () => {
+        const settingsWithVariation = { ...SETTINGS, intonation_pitchVariation: 100 };
+        for (const preset of ['classic', 'conversational', 'monotone'] as const) {
+            expect(typeText('Hello there, friend?', preset, 90, settingsWithVariation, 7)).toEqual(
+                typeText('Hello there, friend?', preset, 90, settingsWithVariation, 7)
+            );
+        }
+    });
+
+    it('picks random pitches within the variation in the classic preset', () => {
+        const settingsWithVariation = { ...SETTINGS, intonation_pitchVariation: 100 };
+        const detunes = typeText('aaaaaaaaaa', 'classic', 200, settingsWithVariation).map(({ detune }) => detune);
+
+        expect(new Set(detunes).size).toBeGreaterThan(1);
+        detunes.forEach((detune) => expect(Math.abs(detune)).toBeLessThanOrEqual(100));
+    });
+
+    it('keeps every key at the same pitch in the monotone preset', () => {
+        const intonations = typeText('Why, hello!?', 'monotone', 50, { ...SETTINGS, intonation_pitchShift: 1 });
+
+        intonations.forEach((intonation) =>
+            expect(intonation).toEqual({ detune: 100, volumeMultiplier: 1, duration: null })
+        );
+    });
+
+    it('drifts upward across a word', () => {
+        const detunes = typeText('hello', 'conversational').map(({ detune }) => detune);
+
+        expect(detunes).toEqual([0, 25, 50, 75, 100]);
+    });
+
+    it('drops at spaces and full stops, and starts every word a little lower', () => {
+        const detunes = typeText('ab cd. ef', 'conversational').map(({ detune }) => detune);
+
+        expect(detunes).toEqual([0, 25, -100, -10, 15, -200, -100, 0, 25]);
+    });
+
+    it('rises at question marks', () => {
+        const [, , question] = typeText('ok?', 'conversational');
+
+        expect(question.detune).toBe(300);
+    });
+
+    it('keeps numbers in tune', () => {
+        const [, , number] = typeText('ab1', 'conversational', 50);
+
+        expect(number.detune).toBe(0);
+    });
+
+    it('sounds excited when typing fast and calm when typing slowly', () => {
+        const fast = typeText('aaaaaaaa', 'conversational', 60);
+        const slow = typeText('aaaaaaaa', 'conversational', 400);
+
+        const lastFast = fast[fast.length - 1];
+        const lastSlow = slow[slow.length - 1];
+        expect(lastFast.volumeMultiplier).toBeGreaterThan(lastSlow.volumeMultiplier);
+        expect(lastFast.duration).toBeCloseTo(0.09);
+        expect(lastSlow.duration).toBeNull();
+        expect(lastFast.detune - lastSlow.detune).toBeCloseTo(100);
+    });
+
+    it('forgets the tempo after a long pause', () => {
+        const engine = createIntonationEngine('conversational', 1);
+        engine.next('a', 0, SETTINGS);
+        engine.next('a', 60, SETTINGS);
+        const afterPause = engine.next('a', 5000, SETTINGS);
+
+        expect(afterPause.duration).toBeNull();
+        expect(afterPause.volumeMultiplier).toBe(1);
+    });
+});
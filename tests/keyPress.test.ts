@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import path from 'path';
+import { handleKeyPress, playKey } from '../src/keyPress';
+import { cleanupChannels } from '../src/mixer';
+import { DEFAULT_SETTINGS, settings } from '../src/settings/pluginSettings';
+import { closeAudioEngine, setAudioEngineFactory } from '../src/engine/engineState';
+import { createRecordingAudioEngine, RecordingAudioEngine } from '../src/engine/recordingEngine';
+import { isSoundOn } from '../src/extension';
+import { invalidateAudioData } from '../src/get/audioData';
+import { preloadVoice } from '../src/samplePreload';
+
+// The extension entry point sets up the real audio output, so only the state the key handler asks for is faked.
+jest.mock('../src/extension', () => ({ isSoundOn: jest.fn(() => true) }));
+
+const EXTENSION_PATH = path.resolve(__dirname, '..');
+const context = { extensionPath: EXTENSION_PATH } as vscode.ExtensionContext;
+const document = { uri: { toString: () => 'file:///test.ts' } } as vscode.TextDocument;
+
+/**
+ * Builds a change event for a single edit made at the cursor on the first line.
+ */
+function changeEvent(text: string, character: number, rangeLength: number = 0): vscode.TextDocumentChangeEvent {
+    const start = new vscode.Position(0, character);
+    return {
+        document,
+        reason: undefined,
+        contentChanges: [
+            {
+                text,
+                range: new vscode.Range(start, start.translate(0, rangeLength)),
+                rangeOffset: character,
+                rangeLength,
+            },
+        ],
+    };
+}
+
+/**
+ * Pastes text and lets the whole arpeggio play out on fake timers.
+ * Files are read from disk outside of the fake timers' control, so the voice is loaded into the sample cache beforehand.
+ */
+async function pasteAndPlayArpeggio(text: string, beforePlaying: () => void = () => {}) {
+    await preloadVoice(EXTENSION_PATH, settings);
+    jest.useFakeTimers();
+    try {
+        (vscode.env.clipboard.readText as jest.Mock).mockResolvedValue(text);
+        await handleKeyPress(context, changeEvent(text, 0));
+        beforePlaying();
+        await jest.advanceTimersByTimeAsync(1000);
+    } finally {
+        jest.useRealTimers();
+    }
+}
+
+/**
+ * The recording engine can't tell files apart, but their sizes are different enough for these tests.
+ */
+function decodedSizes(engine: RecordingAudioEngine): number[] {
+    return engine.events.flatMap((event) => (event.type === 'decode' ? [event.byteLength] : []));
+}
+
+function fileSize(...segments: string[]): number {
+    return fs.statSync(path.join(EXTENSION_PATH, 'audio', ...segments)).size;
+}
+
+describe('handleKeyPress', () => {
+    let engine: RecordingAudioEngine;
+
+    beforeEach(() => {
+        engine = createRecordingAudioEngine();
+        setAudioEngineFactory(() => engine);
+        Object.assign(vscode.window, {
+            visibleTextEditors: [{ document, selections: [{ active: new vscode.Position(0, 5) }] }],
+        });
+        (vscode.env.clipboard.readText as jest.Mock).mockResolvedValue('');
+        invalidateAudioData();
+    });
+
+    afterEach(async () => {
+        (isSoundOn as jest.Mock).mockReturnValue(true);
+        cleanupChannels();
+        await closeAudioEngine();
+        Object.assign(settings, structuredClone(DEFAULT_SETTINGS));
+    });
+
+    it('plays a typed letter on the voice channel', async () => {
+        await handleKeyPress(context, changeEvent('a', 4));
+
+        expect(engine.events.filter((event) => event.type === 'playBuffer')).toHaveLength(1);
+        expect(decodedSizes(engine)).toEqual([fileSize('animalese', 'female', 'voice_1', 'a.mp3')]);
+    });
+
+    it('cuts off the previous letter when typing quickly', async () => {
+        await handleKeyPress(context, changeEvent('a', 4));
+        engine.advanceTime(0.05);
+        await handleKeyPress(context, changeEvent('b', 5));
+
+        expect(engine.events.filter((event) => event.type === 'fadeOut')).toHaveLength(1);
+    });
+
+    it('lets letters and numbers ring out together', async () => {
+        await handleKeyPress(context, changeEvent('a', 4));
+        await handleKeyPress(context, changeEvent('1', 5));
+
+        expect(engine.events.filter((event) => event.type === 'playBuffer')).toHaveLength(2);
+        expect(engine.events.filter((event) => event.type === 'fadeOut')).toHaveLength(0);
+    });
+
+    it('plays the backspace sound for deletions', async () => {
+        await handleKeyPress(context, changeEvent('', 4, 1));
+
+        expect(decodedSizes(engine)).toEqual([fileSize('sfx', 'backspace.mp3')]);
+    });
+
+    it('stays silent for edits made away from the cursor', async () => {
+        await handleKeyPress(context, changeEvent('a', 40));
+
+        expect(engine.events).toEqual([]);
+    });
+
+    it('plays pasted text as an arpeggio', async () => {
+        await pasteAndPlayArpeggio('hello world');
+
+        expect(engine.events.filter((event) => event.type === 'playBuffer')).toHaveLength(8);
+    });
+
+    it('stops an arpeggio once sounds are turned off', async () => {
+        await pasteAndPlayArpeggio('hello world', () => (isSoundOn as jest.Mock).mockReturnValue(false));
+
+        expect(engine.events.filter((event) => event.type === 'playBuffer')).toHaveLength(0);
+    });
+
+    it('plays whitespace-only pastes once', async () => {
+        await handleKeyPress(context, changeEvent('\n\n    \n', 0));
+
+        expect(decodedSizes(engine)).toEqual([fileSize('sfx', 'enter.mp3')]);
+    });
+
+    it('plays the paste sound effect when pastes are set to it', async () => {
+        settings.editSounds_paste = 'sfx';
+        (vscode.env.clipboard.readText as jest.Mock).mockResolvedValue('hello world');
+        await handleKeyPress(context, changeEvent('hello world', 0));
+
+        expect(decodedSizes(engine)).toEqual([fileSize('animalese', 'female', 'voice_1', 'OK.mp3')]);
+    });
+
+    it('applies the falloff only to melodic keys', async () => {
+        await handleKeyPress(context, changeEvent('a', 4));
+        await handleKeyPress(context, changeEvent('1', 5));
+
+        const falloffs = engine.events.flatMap((event) =>
+            event.type === 'playBuffer' ? [event.playback.falloff] : []
+        );
+        expect(falloffs).toEqual([null, 0.5]);
+    });
+
+    it('keeps the place in the sentence when the cursor moves between letters', async () => {
+        const conversational = {
+            ...structuredClone(DEFAULT_SETTINGS),
+            intonation_preset: 'conversational' as const,
+            intonation_pitchVariation: 0,
+        };
+        // Starts a fresh conversational engine, and keeps the time still so the tempo stays the same throughout.
+        await playKey(context, 'a', DEFAULT_SETTINGS);
+        jest.useFakeTimers({ now: 0 });
+        try {
+            for (const key of ['a', 'b', 'c', 'arrow_left', 'd']) {
+                await playKey(context, key, conversational);
+            }
+        } finally {
+            jest.useRealTimers();
+        }
+
+        const [, , b, c, arrow, d] = engine.events.flatMap((event) =>
+            event.type === 'playBuffer' ? [event.playback.detune] : []
+        );
+        expect(arrow).toBe(0);
+        expect(d - c).toBe(c - b);
+    });
+});
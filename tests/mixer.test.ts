@@ -0,0 +1,142 @@
+import path from 'path';
+import { playAudio, playTone } from '../src/audio';
+import {
+    cleanupChannels,
+    estimateVoiceLevel,
+    getChannelVoices,
+    MixerVoice,
+    pickVoiceToSteal,
+} from '../src/mixer';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+import { CHANNEL_MAP } from '../src/constants/channels';
+import { ToneLayer } from '../src/themes/types';
+import { createRecordingAudioEngine, RecordedEvent, RecordingAudioEngine } from '../src/engine/recordingEngine';
+
+const EXTENSION_PATH = path.resolve(__dirname, '..');
+const LETTER_FILE = path.join(EXTENSION_PATH, 'audio', 'animalese', 'female', 'voice_1', 'a.mp3');
+const TONE: ToneLayer[] = [{ waveform: 'sine', detune: 0, duration: 1, gain: 1 }];
+
+function settingsWith(overrides: Partial<typeof DEFAULT_SETTINGS> = {}): typeof DEFAULT_SETTINGS {
+    return { ...structuredClone(DEFAULT_SETTINGS), ...overrides };
+}
+
+function eventsOfType<T extends RecordedEvent['type']>(
+    engine: RecordingAudioEngine,
+    type: T
+): Extract<RecordedEvent, { type: T }>[] {
+    return engine.events.filter((event): event is Extract<RecordedEvent, { type: T }> => event.type === type);
+}
+
+function fakeVoice(overrides: Partial<MixerVoice>): MixerVoice {
+    return {
+        key: 'a',
+        handle: { fadeOut: jest.fn(), stop: jest.fn(), onEnded: jest.fn() },
+        startTime: 0,
+        volume: 0.5,
+        falloff: null,
+        ...overrides,
+    };
+}
+
+describe('estimateVoiceLevel', () => {
+    it('follows the exponential falloff', () => {
+        const voice = fakeVoice({ volume: 1, falloff: 0.5 });
+
+        expect(estimateVoiceLevel(voice, 0)).toBe(1);
+        expect(estimateVoiceLevel(voice, 0.25)).toBeCloseTo(Math.sqrt(1e-5));
+        expect(estimateVoiceLevel(voice, 2)).toBeCloseTo(1e-5);
+    });
+
+    it('keeps sounds without falloff at their volume', () => {
+        expect(estimateVoiceLevel(fakeVoice({ volume: 0.3 }), 10)).toBe(0.3);
+    });
+});
+
+describe('pickVoiceToSteal', () => {
+    const loudOldVoice = fakeVoice({ startTime: 0, volume: 0.5 });
+    const fadedNewVoice = fakeVoice({ startTime: 0.2, volume: 1, falloff: 0.3 });
+
+    it('steals the oldest sound', () => {
+        expect(pickVoiceToSteal([fadedNewVoice, loudOldVoice], 'oldest', 0.4)).toBe(loudOldVoice);
+    });
+
+    it('steals the quietest sound', () => {
+        expect(pickVoiceToSteal([loudOldVoice, fadedNewVoice], 'quietest', 0.4)).toBe(fadedNewVoice);
+    });
+});
+
+describe('mixer policy', () => {
+    let engine: RecordingAudioEngine;
+
+    beforeEach(() => {
+        engine = createRecordingAudioEngine();
+    });
+
+    afterEach(() => {
+        cleanupChannels();
+    });
+
+    it('lets sounds overlap up to the channel limit', () => {
+        const pluginSettings = settingsWith({ mixer_maxVoices_voice: 3 });
+        for (const key of 'abcd') {
+            playTone(engine, TONE, key, CHANNEL_MAP.voice, pluginSettings);
+            engine.advanceTime(0.01);
+        }
+
+        const [first] = eventsOfType(engine, 'playTone');
+        expect(eventsOfType(engine, 'fadeOut').map(({ id }) => id)).toEqual([first.id]);
+        expect(getChannelVoices(CHANNEL_MAP.voice).map(({ key }) => key)).toEqual(['b', 'c', 'd']);
+    });
+
+    it('steals across channels once the overall limit is reached', () => {
+        const pluginSettings = settingsWith({ mixer_maxTotalVoices: 2 });
+        playTone(engine, TONE, 'a', CHANNEL_MAP.voice, pluginSettings);
+        playTone(engine, TONE, '1', CHANNEL_MAP.melodic, pluginSettings);
+        playTone(engine, TONE, 'tab', CHANNEL_MAP.sfx, pluginSettings);
+
+        expect(getChannelVoices(CHANNEL_MAP.voice)).toEqual([]);
+        expect(getChannelVoices(CHANNEL_MAP.melodic)).toHaveLength(1);
+        expect(getChannelVoices(CHANNEL_MAP.sfx)).toHaveLength(1);
+    });
+
+    it('fades stolen sounds out over the crossfade length', () => {
+        const pluginSettings = settingsWith({ mixer_crossfade: 80 });
+        playTone(engine, TONE, 'a', CHANNEL_MAP.voice, pluginSettings);
+        playTone(engine, TONE, 'b', CHANNEL_MAP.voice, pluginSettings);
+
+        expect(eventsOfType(engine, 'fadeOut').map(({ duration }) => duration)).toEqual([0.08]);
+    });
+
+    it('blends letters into each other in legato mode', async () => {
+        const pluginSettings = settingsWith({ mixer_legato: true, mixer_crossfade: 60 });
+        await playAudio(engine, LETTER_FILE, 'a', CHANNEL_MAP.voice, pluginSettings);
+        await playAudio(engine, LETTER_FILE, 'b', CHANNEL_MAP.voice, pluginSettings);
+        await playAudio(engine, LETTER_FILE, ';', CHANNEL_MAP.voice, pluginSettings);
+
+        expect(eventsOfType(engine, 'playBuffer').map(({ playback }) => playback.fadeIn)).toEqual([0, 0.06, 0]);
+    });
+
+    it('cuts letters off without blending outside legato mode', async () => {
+        await playAudio(engine, LETTER_FILE, 'a', CHANNEL_MAP.voice, DEFAULT_SETTINGS);
+        await playAudio(engine, LETTER_FILE, 'b', CHANNEL_MAP.voice, DEFAULT_SETTINGS);
+
+        expect(eventsOfType(engine, 'playBuffer').map(({ playback }) => playback.fadeIn)).toEqual([0, 0]);
+    });
+
+    it('never piles up sounds when typing very quickly', () => {
+        const pluginSettings = settingsWith({
+            mixer_maxVoices_voice: 8,
+            mixer_maxVoices_melodic: 8,
+            mixer_maxTotalVoices: 6,
+        });
+        for (let i = 0; i < 200; i++) {
+            // Around 150 words per minute
+            playTone(engine, TONE, i % 3 ? 'e' : '1', i % 3 ? CHANNEL_MAP.voice : CHANNEL_MAP.melodic, pluginSettings);
+            engine.advanceTime(0.08);
+
+            const playing =
+                getChannelVoices(CHANNEL_MAP.voice).length + getChannelVoices(CHANNEL_MAP.melodic).length;
+            expect(playing).toBeLessThanOrEqual(6);
+        }
+    });
+});
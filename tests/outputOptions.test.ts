@@ -0,0 +1,51 @@
+import { getOutputContextOptions, getOutputDeviceChange, OutputDevice } from '../src/engine/outputOptions';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+
+const SPEAKERS: OutputDevice = { deviceId: 'speakers', label: 'Speakers' };
+const HEADPHONES: OutputDevice = { deviceId: 'headphones', label: 'Headphones' };
+
+describe('getOutputContextOptions', () => {
+    it('leaves the device and sample rate to the system by default', () => {
+        expect(getOutputContextOptions(DEFAULT_SETTINGS)).toEqual({
+            sinkId: undefined,
+            latencyHint: 'interactive',
+            sampleRate: undefined,
+        });
+    });
+
+    it('uses the chosen device, latency and sample rate', () => {
+        const pluginSettings = {
+            ...DEFAULT_SETTINGS,
+            output_device: 'headphones',
+            output_latency: 'playback' as const,
+            output_sampleRate: 48000,
+        };
+
+        expect(getOutputContextOptions(pluginSettings)).toEqual({
+            sinkId: 'headphones',
+            latencyHint: 'playback',
+            sampleRate: 48000,
+        });
+    });
+});
+
+describe('getOutputDeviceChange', () => {
+    it('ignores the first check', () => {
+        expect(getOutputDeviceChange(null, [SPEAKERS], '')).toBeNull();
+    });
+
+    it('restarts when the chosen device disappears or comes back', () => {
+        expect(getOutputDeviceChange([SPEAKERS, HEADPHONES], [SPEAKERS], 'headphones')).toMatch(/disconnected/);
+        expect(getOutputDeviceChange([SPEAKERS], [SPEAKERS, HEADPHONES], 'headphones')).toMatch(/connected again/);
+    });
+
+    it('ignores other devices while a device is chosen', () => {
+        expect(getOutputDeviceChange([SPEAKERS, HEADPHONES], [HEADPHONES], 'headphones')).toBeNull();
+    });
+
+    it('follows any change while playing through the system default', () => {
+        expect(getOutputDeviceChange([SPEAKERS], [SPEAKERS, HEADPHONES], '')).toMatch(/changed/);
+        expect(getOutputDeviceChange([SPEAKERS, HEADPHONES], [SPEAKERS], '')).toMatch(/changed/);
+        expect(getOutputDeviceChange([SPEAKERS, HEADPHONES], [HEADPHONES, SPEAKERS], '')).toBeNull();
+    });
+});
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { forgetDocumentSettings, getDocumentSettings, loadSettings } from '../src/settings/loadSettings';
+import { setConfig } from '../src/settings/configState';
+import { getSettingsScopes, pickSettingsScope } from '../src/settings/settingsScope';
+import { resolveProfileSettings } from '../src/settings/profiles';
+import { DEFAULT_SETTINGS, settings } from '../src/settings/pluginSettings';
+
+const getConfiguration = vscode.workspace.getConfiguration as jest.Mock;
+
+/**
+ * Builds a document with just the fields the settings code looks at.
+ */
+function fakeDocument(path: string, languageId: string): vscode.TextDocument {
+    return { uri: { toString: () => `file://${path}` }, languageId } as unknown as vscode.TextDocument;
+}
+
+/**
+ * Makes `inspect` return the given values for every setting of a document in the given language.
+ */
+function mockInspect(values: Record<string, Record<string, unknown>>) {
+    getConfiguration.mockImplementation((_section: string, scope?: vscode.TextDocument) => ({
+        get: jest.fn(),
+        update: jest.fn(),
+        inspect: (key: string) => (scope ? values[scope.languageId]?.[key] : undefined),
+    }));
+}
+
+beforeEach(() => {
+    Object.assign(settings, structuredClone(DEFAULT_SETTINGS));
+    loadSettings(true);
+    Object.assign(vscode.workspace, { workspaceFolders: undefined, workspaceFile: undefined });
+});
+
+afterEach(() => {
+    getConfiguration.mockReset();
+    getConfiguration.mockImplementation(() => ({ get: jest.fn(), inspect: jest.fn(), update: jest.fn() }));
+});
+
+describe('getDocumentSettings', () => {
+    it('uses the global settings when nothing is scoped to the document', () => {
+        expect(getDocumentSettings(fakeDocument('/a.ts', 'typescript'))).toBe(settings);
+    });
+
+    it('applies workspace folder and language-specific values, the language winning', () => {
+        mockInspect({
+            markdown: {
+                volume: { workspaceFolderValue: 30, globalLanguageValue: 10 },
+                voice: { workspaceFolderValue: 'Male Voice 2 (Lazy)' },
+            },
+        });
+        loadSettings(false);
+
+        const documentSettings = getDocumentSettings(fakeDocument('/notes.md', 'markdown'));
+        expect(documentSettings.volume).toBe(10);
+        expect(documentSettings.voice).toBe('Male Voice 2 (Lazy)');
+        expect(settings.volume).toBe(DEFAULT_SETTINGS.volume);
+    });
+
+    it('prefers the language value of the most specific scope', () => {
+        mockInspect({
+            markdown: { volume: { globalLanguageValue: 10, workspaceLanguageValue: 20, workspaceFolderLanguageValue: 25 } },
+        });
+        loadSettings(false);
+
+        expect(getDocumentSettings(fakeDocument('/notes.md', 'markdown')).volume).toBe(25);
+    });
+
+    it('reads the document again once it has been closed', () => {
+        const document = fakeDocument('/notes.md', 'markdown');
+        mockInspect({ markdown: { volume: { workspaceFolderValue: 30 } } });
+        loadSettings(false);
+        expect(getDocumentSettings(document).volume).toBe(30);
+
+        mockInspect({ markdown: { volume: { workspaceFolderValue: 40 } } });
+        expect(getDocumentSettings(document).volume).toBe(30);
+        forgetDocumentSettings(document);
+        expect(getDocumentSettings(document).volume).toBe(40);
+    });
+
+    it('is picked up by voice profiles', () => {
+        mockInspect({ markdown: { volume: { workspaceFolderValue: 30 } } });
+        loadSettings(false);
+
+        expect(resolveProfileSettings(fakeDocument('/notes.md', 'markdown')).volume).toBe(30);
+    });
+});
+
+describe('loadSettings', () => {
+    it('lets workspace values win over user values after a change', () => {
+        getConfiguration.mockImplementation(() => ({
+            get: jest.fn(),
+            update: jest.fn(),
+            inspect: (key: string) => (key === 'volume' ? { globalValue: 30, workspaceValue: 70 } : undefined),
+        }));
+        loadSettings(false);
+
+        expect(settings.volume).toBe(70);
+    });
+});
+
+describe('setConfig', () => {
+    it('saves language-specific values for the document', () => {
+        const update = jest.fn();
+        getConfiguration.mockReturnValue({ update });
+        const document = fakeDocument('/notes.md', 'markdown');
+
+        setConfig('volume', 20, vscode.ConfigurationTarget.Workspace, document, true);
+
+        expect(getConfiguration).toHaveBeenCalledWith('vscode-animalese', document);
+        expect(update).toHaveBeenCalledWith('volume', 20, vscode.ConfigurationTarget.Workspace, true);
+        expect(settings.volume).toBe(DEFAULT_SETTINGS.volume);
+    });
+});
+
+describe('settings scopes', () => {
+    it('only offers the user settings without a workspace or document', () => {
+        expect(getSettingsScopes().map((scope) => scope.name)).toEqual(['global']);
+    });
+
+    it('offers the workspace, folder and language when they exist', () => {
+        const document = fakeDocument('/repo/a.py', 'python');
+        Object.assign(vscode.workspace, { workspaceFolders: [{}], workspaceFile: {} });
+        (vscode.workspace.getWorkspaceFolder as jest.Mock).mockReturnValueOnce({ name: 'repo' });
+
+        const scopes = getSettingsScopes(document);
+        expect(scopes.map((scope) => scope.name)).toEqual(['global', 'workspace', 'workspaceFolder', 'language']);
+        expect(scopes[3]).toMatchObject({
+            target: vscode.ConfigurationTarget.Workspace,
+            document,
+            overrideInLanguage: true,
+        });
+    });
+
+    it('uses the scope passed to a command without asking', async () => {
+        Object.assign(vscode.workspace, { workspaceFolders: [{}] });
+
+        await expect(pickSettingsScope('Title', 'workspace')).resolves.toMatchObject({
+            target: vscode.ConfigurationTarget.Workspace,
+        });
+        await expect(pickSettingsScope('Title', 'workspaceFolder')).resolves.toBeUndefined();
+        expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+import { validateSetting, validateSettings } from '../src/settings/settingsSchema';
+import { loadSettings } from '../src/settings/loadSettings';
+import { onDidChangeSettings, SettingsChangeEvent } from '../src/settings/settingsEvents';
+import { migrateSettings, SettingsMigration } from '../src/settings/migrations';
+import { DEFAULT_SETTINGS, settings } from '../src/settings/pluginSettings';
+
+const getConfiguration = vscode.workspace.getConfiguration as jest.Mock;
+
+/**
+ * Makes the configuration return the given values, keyed by setting id without the `vscode-animalese.` prefix.
+ */
+function mockConfig(values: Record<string, unknown>) {
+    getConfiguration.mockImplementation(() => ({
+        get: (key: string) => values[key],
+        inspect: (key: string) => ({ globalValue: values[key] }),
+        update: jest.fn(),
+    }));
+}
+
+afterEach(() => {
+    getConfiguration.mockReset();
+    getConfiguration.mockImplementation(() => ({ get: jest.fn(), inspect: jest.fn(), update: jest.fn() }));
+    Object.assign(settings, structuredClone(DEFAULT_SETTINGS));
+});
+
+describe('validateSetting', () => {
+    it('keeps valid values, including zero and false', () => {
+        expect(validateSetting('volume', 0)).toEqual({ value: 0, problem: null });
+        expect(validateSetting('intonation_pitchShift', 0)).toEqual({ value: 0, problem: null });
+        expect(validateSetting('showNotifications', false)).toEqual({ value: false, problem: null });
+    });
+
+    it('falls back to the default without a problem when nothing is configured', () => {
+        expect(validateSetting('volume', undefined)).toEqual({ value: 50, problem: null });
+    });
+
+    it('clamps numbers to their range', () => {
+        const { value, problem } = validateSetting('intonation_pitchShift', 30);
+
+        expect(value).toBe(12);
+        expect(problem).toBe('vscode-animalese.intonation.pitchShift: 30 is above the maximum of 12. Using 12 instead.');
+        expect(validateSetting('intonation_louderUppercase', -5).value).toBe(0);
+    });
+
+    it('rounds integers', () => {
+        expect(validateSetting('volume', 42.6)).toMatchObject({ value: 43, problem: expect.stringContaining('not a whole number') });
+    });
+
+    it('rejects values of the wrong type or outside their options', () => {
+        expect(validateSetting('volume', 'loud')).toMatchObject({ value: 50, problem: expect.any(String) });
+        expect(validateSetting('voice', 'Robot Voice')).toMatchObject({
+            value: 'Female Voice 1 (Sweet)',
+            problem: expect.stringContaining('"Robot Voice" is not one of'),
+        });
+        expect(validateSetting('soundTheme', 'musical').problem).toBeNull();
+    });
+
+    it('drops invalid items of lists and objects', () => {
+        expect(validateSetting('voicePacks', ['/a', 3])).toMatchObject({ value: ['/a'], problem: expect.any(String) });
+        expect(validateSetting('characterMap', { a: 'b', c: 1 }).value).toEqual({ a: 'b' });
+    });
+
+    it('checks the fields of voice profiles like the settings they override', () => {
+        const { value, problem } = validateSetting('profiles', [
+            { language: 'markdown', volume: 500, pitchVariation: -3, pitchShift: 2 },
+            { pattern: '**/*.md', voice: 'Robot', specialPunctuation: 'yes' },
+            'python',
+        ]);
+
+        expect(value).toEqual([
+            { language: 'markdown', volume: 100, pitchVariation: 0, pitchShift: 2 },
+            { pattern: '**/*.md', voice: DEFAULT_SETTINGS.voice, specialPunctuation: DEFAULT_SETTINGS.specialPunctuation },
+        ]);
+        expect(problem).toContain('Profile 1 volume: 500 is above the maximum of 100');
+        expect(problem).toContain('Profile 1 pitchVariation: -3 is below the minimum of 0');
+        expect(problem).toContain('Profile 2 voice');
+        expect(problem).toContain('Profile 3 is not an object');
+    });
+
+    it('keeps the default sound of events left out or set up wrong', () => {
+        const { value, problem } = validateSetting('eventSounds_sounds', {
+            save: { sound: 'none' },
+            taskFailure: { sound: 'sfx:tilde', volume: 150 },
+            lunch: { sound: 'phrase:OK' },
+            debugStart: { sound: 'sfx:fanfare' },
+            debugStop: { sound: 'phrase:Hello' },
+            breakpoint: { sound: 'sounds/ding.wav' },
+        });
+
+        expect(value.save).toEqual({ sound: 'none', volume: 50 });
+        expect(value.taskFailure).toEqual(DEFAULT_SETTINGS.eventSounds_sounds.taskFailure);
+        expect(value.taskSuccess).toEqual(DEFAULT_SETTINGS.eventSounds_sounds.taskSuccess);
+        expect(value.debugStart).toEqual(DEFAULT_SETTINGS.eventSounds_sounds.debugStart);
+        expect(value.breakpoint).toEqual(DEFAULT_SETTINGS.eventSounds_sounds.breakpoint);
+        expect(problem).toContain('"taskFailure", "lunch", "debugStart", "debugStop", "breakpoint"');
+    });
+});
+
+describe('validateSettings', () => {
+    it('validates every setting', () => {
+        const result = validateSettings({ volume: 150, voice: 'Male Voice 2 (Lazy)' });
+
+        expect(result.settings.volume).toBe(100);
+        expect(result.settings.voice).toBe('Male Voice 2 (Lazy)');
+        expect(result.settings.soundTheme).toBe('animalese');
+        expect(result.problems).toHaveLength(1);
+    });
+});
+
+describe('loadSettings', () => {
+    it('reports problems and fires a change event for the settings that changed', () => {
+        const events: SettingsChangeEvent[] = [];
+        const listener = onDidChangeSettings((event) => events.push(event));
+        mockConfig({ volume: 0, 'effects.reverb.mix': 150 });
+
+        loadSettings(false);
+        listener.dispose();
+
+        expect(settings.volume).toBe(0);
+        expect(settings.effects_reverb_mix).toBe(100);
+        expect(events).toHaveLength(1);
+        expect([...events[0].changedKeys]).toEqual(['volume', 'effects_reverb_mix']);
+        expect(events[0].affects('effects')).toBe(true);
+        expect(events[0].affects('mixer')).toBe(false);
+        expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+            expect.stringContaining('vscode-animalese.effects.reverb.mix'),
+            'Show Details'
+        );
+    });
+
+    it("doesn't fire when nothing changed", () => {
+        const listener = jest.fn();
+        const disposable = onDidChangeSettings(listener);
+
+        loadSettings(false);
+        disposable.dispose();
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+});
+
+describe('migrateSettings', () => {
+    /**
+     * Builds an extension context whose state starts out at the given settings versions.
+     */
+    function fakeContext(globalVersion = 0, workspaceVersion = 0) {
+        const state = (version: number) => {
+            const values = new Map<string, unknown>([['settingsVersion', version]]);
+            return {
+                get: (key: string, defaultValue: unknown) => values.get(key) ?? defaultValue,
+                update: jest.fn(async (key: string, value: unknown) => void values.set(key, value)),
+            };
+        };
+        return { globalState: state(globalVersion), workspaceState: state(workspaceVersion) } as unknown as vscode.ExtensionContext;
+    }
+
+    const MIGRATIONS: SettingsMigration[] = [
+        { version: 1, renames: { 'old.volume': 'volume' } },
+        { version: 2, renames: { loud: 'intonation.louderUppercase' }, transform: (_: string, value: unknown) => (value ? 20 : 0) },
+    ];
+
+    afterEach(() => {
+        Object.assign(vscode.workspace, { workspaceFolders: undefined, workspaceFile: undefined });
+    });
+
+    it('moves renamed user settings once, remembering the version', async () => {
+        const update = jest.fn();
+        getConfiguration.mockReturnValue({
+            inspect: (key: string) => ({ globalValue: { 'old.volume': 30, loud: true }[key] }),
+            update,
+        });
+        const context = fakeContext();
+
+        await migrateSettings(context, MIGRATIONS);
+
+        expect(update).toHaveBeenCalledWith('volume', 30, vscode.ConfigurationTarget.Global, false);
+        expect(update).toHaveBeenCalledWith('old.volume', undefined, vscode.ConfigurationTarget.Global, false);
+        expect(update).toHaveBeenCalledWith('intonation.louderUppercase', 20, vscode.ConfigurationTarget.Global, false);
+        expect(context.globalState.update).toHaveBeenCalledWith('settingsVersion', 2);
+
+        update.mockClear();
+        await migrateSettings(context, MIGRATIONS);
+        expect(update).not.toHaveBeenCalled();
+    });
+
+    it('only runs the migrations newer than the stored version, keeping values set under the new name', async () => {
+        const update = jest.fn();
+        getConfiguration.mockReturnValue({
+            inspect: (key: string) => ({ globalValue: { 'old.volume': 30, volume: 70, loud: false }[key] }),
+            update,
+        });
+
+        await migrateSettings(fakeContext(1), MIGRATIONS);
+
+        expect(update).not.toHaveBeenCalledWith('volume', expect.anything(), expect.anything(), expect.anything());
+        expect(update).toHaveBeenCalledWith('intonation.louderUppercase', 0, vscode.ConfigurationTarget.Global, false);
+        expect(update).toHaveBeenCalledWith('loud', undefined, vscode.ConfigurationTarget.Global, false);
+    });
+
+    it('moves the workspace settings and the settings of every folder in a multi-root workspace', async () => {
+        const folder = { name: 'project', uri: { fsPath: '/project' } };
+        Object.assign(vscode.workspace, { workspaceFolders: [folder], workspaceFile: {} });
+        const update = jest.fn();
+        getConfiguration.mockReturnValue({
+            inspect: (key: string) =>
+                key === 'old.volume' ? { workspaceValue: 40, workspaceFolderValue: 20 } : {},
+            update,
+        });
+        const context = fakeContext(2, 0);
+
+        await migrateSettings(context, MIGRATIONS);
+
+        expect(update).not.toHaveBeenCalledWith('volume', expect.anything(), vscode.ConfigurationTarget.Global, false);
+        expect(update).toHaveBeenCalledWith('volume', 40, vscode.ConfigurationTarget.Workspace, false);
+        expect(update).toHaveBeenCalledWith('volume', 20, vscode.ConfigurationTarget.WorkspaceFolder, false);
+        expect(getConfiguration).toHaveBeenCalledWith('vscode-animalese', folder.uri);
+        expect(context.workspaceState.update).toHaveBeenCalledWith('settingsVersion', 2);
+    });
+
+    it('moves values set for single languages', async () => {
+        const update = jest.fn();
+        const languageUpdate = jest.fn();
+        getConfiguration.mockImplementation((_: string, scope?: { languageId?: string }) =>
+            scope?.languageId === 'markdown'
+                ? {
+                      inspect: (key: string) => (key === 'old.volume' ? { globalLanguageValue: 10 } : {}),
+                      update: languageUpdate,
+                  }
+                : {
+                      inspect: (key: string) => (key === 'old.volume' ? { languageIds: ['markdown'] } : {}),
+                      update,
+                  }
+        );
+
+        await migrateSettings(fakeContext(), MIGRATIONS);
+
+        expect(update).not.toHaveBeenCalled();
+        expect(languageUpdate).toHaveBeenCalledWith('volume', 10, vscode.ConfigurationTarget.Global, true);
+        expect(languageUpdate).toHaveBeenCalledWith('old.volume', undefined, vscode.ConfigurationTarget.Global, true);
+    });
+});
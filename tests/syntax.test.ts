@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import path from 'path';
+import { scanRegion } from '../src/syntax/scanner';
+import { getLanguageSyntax, LanguageSyntax } from '../src/syntax/languageSyntax';
+import { getTokenContext } from '../src/syntax/tokenContext';
+import {
+    getBracketNote,
+    getDepthNote,
+    getNoteKey,
+    getNoteOctaveDetune,
+    getOpenBrackets,
+} from '../src/syntax/bracketHarmony';
+import { getFilePath } from '../src/get/filePath';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+
+const EXTENSION_PATH = path.resolve(__dirname, '..');
+const FEMALE_VOICE_1 = path.join(EXTENSION_PATH, 'audio', 'animalese', 'female', 'voice_1');
+const SYNTAX_SETTINGS = { ...structuredClone(DEFAULT_SETTINGS), syntaxSounds_enabled: true };
+
+/**
+ * Scans the text up to the `|` marker.
+ */
+function regionAt(textWithCursor: string, syntax: LanguageSyntax) {
+    const offset = textWithCursor.indexOf('|');
+    return scanRegion(textWithCursor.replace('|', ''), offset, syntax);
+}
+
+let documentVersion = 0;
+
+/**
+ * Builds a document out of plain text, with just enough of the API for the token context.
+ * Every document gets a new version, so cached semantic tokens are never shared between them.
+ */
+function fakeDocument(text: string, languageId: string): vscode.TextDocument {
+    const lines = text.split('\n');
+    const offsetAt = (position: vscode.Position) =>
+        lines.slice(0, position.line).reduce((sum, line) => sum + line.length + 1, 0) + position.character;
+
+    return {
+        uri: { toString: () => 'file:///test' },
+        languageId,
+        version: ++documentVersion,
+        lineAt: (line: number) => ({
+            range: new vscode.Range(new vscode.Position(line, 0), new vscode.Position(line, lines[line].length)),
+        }),
+        getText: (range?: vscode.Range) =>
+            range ? text.slice(offsetAt(range.start), offsetAt(range.end)) : text,
+        getWordRangeAtPosition: (position: vscode.Position) => {
+            const line = lines[position.line];
+            let start = position.character;
+            let end = position.character;
+            while (start > 0 && /\w/.test(line[start - 1])) start--;
+            while (end < line.length && /\w/.test(line[end])) end++;
+            return start === end
+                ? undefined
+                : new vscode.Range(new vscode.Position(position.line, start), new vscode.Position(position.line, end));
+        },
+    } as unknown as vscode.TextDocument;
+}
+
+describe('scanRegion', () => {
+    const typescript = getLanguageSyntax('typescript')!;
+    const python = getLanguageSyntax('python')!;
+    const html = getLanguageSyntax('html')!;
+
+    it('finds strings', () => {
+        expect(regionAt('const a = "hel|lo";', typescript)).toBe('string');
+        expect(regionAt('const a = "hello";|', typescript)).toBe('code');
+        expect(regionAt("const a = 'it\\'s |';", typescript)).toBe('string');
+    });
+
+    it('keeps strings left open until the end of the line', () => {
+        expect(regionAt('call("oops, |', typescript)).toBe('string');
+        expect(regionAt('call("oops\nnext|', typescript)).toBe('code');
+    });
+
+    it('lets template literals span lines', () => {
+        expect(regionAt('const a = `first\nsec|ond`', typescript)).toBe('string');
+    });
+
+    it('finds line and block comments', () => {
+        expect(regionAt('a(); // note |', typescript)).toBe('comment');
+        expect(regionAt('a(); // note\nb|', typescript)).toBe('code');
+        expect(regionAt('/* one\n two | */', typescript)).toBe('comment');
+        expect(regionAt('/* one */ two|', typescript)).toBe('code');
+        expect(regionAt('x = 1  # py|', python)).toBe('comment');
+        expect(regionAt('<!-- hi |-->', html)).toBe('comment');
+    });
+
+    it('ignores comment markers inside strings', () => {
+        expect(regionAt('const url = "http://|', typescript)).toBe('string');
+        expect(regionAt('const url = "http://a"; b|', typescript)).toBe('code');
+    });
+});
+
+describe('getTokenContext', () => {
+    it('is off unless syntax-aware sounds are enabled', async () => {
+        const document = fakeDocument('"abc"', 'typescript');
+
+        await expect(getTokenContext(document, new vscode.Position(0, 2), 'a', DEFAULT_SETTINGS)).resolves.toBeNull();
+    });
+
+    it('falls back to the scanner when there are no semantic tokens', async () => {
+        const document = fakeDocument('let a = "abc"; // done', 'typescript');
+
+        await expect(getTokenContext(document, new vscode.Position(0, 10), 'a', SYNTAX_SETTINGS)).resolves.toEqual({
+            type: 'string',
+        });
+        await expect(getTokenContext(document, new vscode.Position(0, 19), 'a', SYNTAX_SETTINGS)).resolves.toEqual({
+            type: 'comment',
+        });
+        await expect(getTokenContext(document, new vscode.Position(0, 1), 'a', SYNTAX_SETTINGS)).resolves.toEqual({
+            type: 'keyword',
+        });
+        await expect(getTokenContext(document, new vscode.Position(0, 4), 'a', SYNTAX_SETTINGS)).resolves.toEqual({
+            type: 'code',
+        });
+    });
+
+    it('prefers semantic tokens when the language provides them', async () => {
+        const document = fakeDocument('abc def', 'unknown');
+        (vscode.commands.executeCommand as jest.Mock)
+            .mockResolvedValueOnce({ tokenTypes: ['variable', 'comment'], tokenModifiers: [] })
+            .mockResolvedValueOnce({ data: new Uint32Array([0, 0, 3, 0, 0, 0, 4, 3, 1, 0]) });
+
+        await expect(getTokenContext(document, new vscode.Position(0, 5), 'a', SYNTAX_SETTINGS)).resolves.toEqual({
+            type: 'comment',
+        });
+    });
+
+    it('asks for the legend once per language, and for the tokens once per document version', async () => {
+        const executeCommand = vscode.commands.executeCommand as jest.Mock;
+        executeCommand.mockClear().mockImplementation(async (command: string) =>
+            command === 'vscode.provideDocumentRangeSemanticTokensLegend'
+                ? { tokenTypes: ['string'], tokenModifiers: [] }
+                : { data: new Uint32Array([0, 0, 5, 0, 0]) }
+        );
+        const document = fakeDocument('"abc" d', 'cached');
+
+        await getTokenContext(document, new vscode.Position(0, 1), 'a', SYNTAX_SETTINGS);
+        await getTokenContext(document, new vscode.Position(0, 6), 'd', SYNTAX_SETTINGS);
+        await getTokenContext(fakeDocument('"abc" de', 'cached'), new vscode.Position(0, 7), 'e', SYNTAX_SETTINGS);
+
+        expect(executeCommand.mock.calls.map(([command]) => command)).toEqual([
+            'vscode.provideDocumentRangeSemanticTokensLegend',
+            'vscode.provideDocumentRangeSemanticTokens',
+            'vscode.provideDocumentRangeSemanticTokens',
+        ]);
+        executeCommand.mockReset().mockImplementation(async () => undefined);
+    });
+});
+
+describe('getFilePath with a token context', () => {
+    it('speaks everything typed in strings and comments, whatever the theme', () => {
+        const pluginSettings = { ...SYNTAX_SETTINGS, soundTheme: 'mechanical' };
+
+        expect(getFilePath(EXTENSION_PATH, 'a', 0, pluginSettings, { column: 0 }, { type: 'string' })).toBe(
+            path.join(FEMALE_VOICE_1, 'a.mp3')
+        );
+        expect(getFilePath(EXTENSION_PATH, 'b', 0, pluginSettings, { column: 0 }, { type: 'comment' })).toBe(
+            path.join(FEMALE_VOICE_1, 'b.mp3')
+        );
+        expect(getFilePath(EXTENSION_PATH, 'a', 0, pluginSettings, { column: 0 }, { type: 'code' })).toBeNull();
+    });
+
+    it('resolves closing brackets to a sung note', () => {
+        for (const key of [')', ']', '}']) {
+            expect(getFilePath(EXTENSION_PATH, key, 0, SYNTAX_SETTINGS, { column: 0 }, { type: 'code' })).toBe(
+                path.join(EXTENSION_PATH, 'audio', 'vocals', 'female', 'voice_1', '0.mp3')
+            );
+        }
+    });
+
+    it('leaves closing brackets alone without a token context', () => {
+        expect(getFilePath(EXTENSION_PATH, ')', 0, SYNTAX_SETTINGS)).toBe(
+            path.join(EXTENSION_PATH, 'audio', 'sfx', 'parenthesis_closed.mp3')
+        );
+    });
+});
+
+describe('bracket harmony', () => {
+    const typescript = getLanguageSyntax('typescript')!;
+    const HARMONY_SETTINGS = { ...structuredClone(DEFAULT_SETTINGS), bracketHarmony_enabled: true };
+
+    it('tracks open brackets, skipping strings and comments', () => {
+        expect(getOpenBrackets('f(a, [b, {', typescript)).toEqual(['(', '[', '{']);
+        expect(getOpenBrackets('f(a[0]) + {x: "([" // (', typescript)).toEqual(['{']);
+        expect(getOpenBrackets('f(]', null)).toEqual(['(']);
+    });
+
+    it('climbs the scale with every level of nesting', () => {
+        expect([0, 1, 2, 3, 6, 7, 8].map((depth) => getDepthNote(depth, 'major'))).toEqual([
+            0, 2, 4, 5, 11, 12, 14,
+        ]);
+        expect([0, 1, 5].map((depth) => getDepthNote(depth, 'pentatonic'))).toEqual([0, 2, 12]);
+    });
+
+    it('gives closing brackets the note of their opener, and unmatched ones a dissonant note', () => {
+        const open = getBracketNote('(', ['{'], 'major');
+
+        expect(open).toBe(2);
+        expect(getBracketNote(')', ['{', '('], 'major')).toBe(open);
+        expect(getBracketNote(']', ['{', '('], 'major')).toBe(8);
+        expect(getBracketNote('}', [], 'major')).toBe(6);
+        expect(getBracketNote('a', [], 'major')).toBeNull();
+    });
+
+    it('maps notes past an octave back onto the harmonic sounds', () => {
+        expect(getNoteKey(0)).toBe('1');
+        expect(getNoteKey(11)).toBe('=');
+        expect(getNoteKey(14)).toBe('3');
+        expect(getNoteOctaveDetune(14)).toBe(1200);
+    });
+
+    it('adds the bracket note to the token context of brackets typed in code', async () => {
+        const document = fakeDocument('if (a) { f(x', 'typescript');
+
+        await expect(getTokenContext(document, new vscode.Position(0, 12), ')', HARMONY_SETTINGS)).resolves.toEqual({
+            type: 'code',
+            bracketNote: 2,
+        });
+        await expect(getTokenContext(document, new vscode.Position(0, 12), 'a', HARMONY_SETTINGS)).resolves.toBeNull();
+    });
+
+    it('leaves brackets in strings alone', async () => {
+        const document = fakeDocument('f("(', 'typescript');
+        const pluginSettings = { ...HARMONY_SETTINGS, syntaxSounds_enabled: true };
+
+        await expect(getTokenContext(document, new vscode.Position(0, 3), '(', pluginSettings)).resolves.toEqual({
+            type: 'string',
+        });
+    });
+
+    it('leaves brackets in strings and comments alone with syntax-aware sounds off', async () => {
+        await expect(
+            getTokenContext(fakeDocument('f("(', 'typescript'), new vscode.Position(0, 3), '(', HARMONY_SETTINGS)
+        ).resolves.toEqual({ type: 'string' });
+        await expect(
+            getTokenContext(fakeDocument('f(a) // )', 'typescript'), new vscode.Position(0, 8), ')', HARMONY_SETTINGS)
+        ).resolves.toEqual({ type: 'comment' });
+    });
+
+    it('plays the vocal note of the bracket', () => {
+        expect(getFilePath(EXTENSION_PATH, '{', 0, HARMONY_SETTINGS, { column: 0 }, { type: 'code', bracketNote: 4 })).toBe(
+            path.join(EXTENSION_PATH, 'audio', 'vocals', 'female', 'voice_1', '4.mp3')
+        );
+    });
+});
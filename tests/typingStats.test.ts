@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import path from 'path';
+import {
+    createTypingSession,
+    createTypingStats,
+    getBackspaceRatio,
+    getKeysPerMinute,
+    getTopCharacters,
+    getWordsPerMinute,
+    recordKey,
+    toDateKey,
+    typingStatsToCsv,
+} from '../src/stats/typingStats';
+import { getRecapText } from '../src/stats/recapPanel';
+import {
+    deleteTypingStats,
+    getTypingStats,
+    loadTypingStats,
+    recordTypingStats,
+    saveTypingStats,
+} from '../src/stats/statsStore';
+import { DEFAULT_SETTINGS } from '../src/settings/pluginSettings';
+
+const START = new Date(2024, 4, 1, 9, 30).getTime();
+
+/**
+ * Types the given keys one after the other, a fixed interval apart.
+ */
+function typeKeys(keys: string[], interval = 200, languageId = 'typescript') {
+    const stats = createTypingStats();
+    const session = createTypingSession();
+    keys.forEach((key, i) => recordKey(stats, session, key, languageId, START + i * interval));
+    return stats.days[toDateKey(START)];
+}
+
+describe('typing statistics', () => {
+    it('counts keys, words and backspaces', () => {
+        const day = typeKeys([...'hi there', 'backspace', 'e', ' ']);
+
+        expect(day.keys).toBe(11);
+        expect(day.words).toBe(2);
+        expect(day.backspaces).toBe(1);
+        expect(getBackspaceRatio(day)).toBeCloseTo(1 / 11);
+        expect(day.hours[9]).toBe(11);
+    });
+
+    it('works out the typing speed from the time spent typing', () => {
+        const day = typeKeys([...'ab cd ef '], 500);
+
+        expect(day.activeTime).toBe(4000);
+        expect(getKeysPerMinute(day)).toBe(135);
+        expect(getWordsPerMinute(day)).toBe(45);
+    });
+
+    it('leaves long pauses out of the time spent typing', () => {
+        const stats = createTypingStats();
+        const session = createTypingSession();
+        recordKey(stats, session, 'a', 'markdown', START);
+        recordKey(stats, session, 'b', 'markdown', START + 1000);
+        recordKey(stats, session, 'c', 'python', START + 60000);
+        recordKey(stats, session, 'd', 'python', START + 62000);
+
+        const day = stats.days[toDateKey(START)];
+        expect(day.activeTime).toBe(3000);
+        expect(day.languages).toEqual({ markdown: 1000, python: 2000 });
+    });
+
+    it('keeps the longest run of keys without a backspace', () => {
+        const day = typeKeys([...'abcd', 'backspace', ...'ef', 'backspace']);
+
+        expect(day.longestStreak).toBe(4);
+    });
+
+    it('ranks the most typed characters', () => {
+        const day = typeKeys([...'banana', 'A']);
+
+        expect(getTopCharacters(day, 2)).toEqual([
+            ['a', 4],
+            ['n', 2],
+        ]);
+    });
+
+    it('exports one CSV row per day', () => {
+        const stats = createTypingStats();
+        const session = createTypingSession();
+        recordKey(stats, session, '"', 'typescript', START);
+        recordKey(stats, session, 'a', 'typescript', START + 86400000);
+
+        const lines = typingStatsToCsv(stats).trim().split('\n');
+        expect(lines).toHaveLength(3);
+        expect(lines[0]).toMatch(/^date,keys,words/);
+        expect(lines[1]).toMatch(/^2024-05-01,1,0,0,/);
+        expect(lines[1]).toContain('"""\\"""":1"');
+        expect(lines[2]).toMatch(/^2024-05-02,1,/);
+    });
+});
+
+describe('getRecapText', () => {
+    it('sums up the day', () => {
+        const recap = getRecapText(typeKeys([...'hello world ']));
+
+        expect(recap).toContain('12 keys and 2 words');
+        expect(recap).toContain('Most of your time went to typescript.');
+    });
+});
+
+describe('the typing statistics store', () => {
+    it('keeps keys typed before the saved statistics were loaded', async () => {
+        const storage = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'typing-stats-'));
+        const saved = createTypingStats();
+        recordKey(saved, createTypingSession(), 'a', 'typescript', Date.now());
+        await fs.promises.writeFile(path.join(storage, 'typingStats.json'), JSON.stringify(saved));
+
+        recordTypingStats('b', 'typescript', { ...DEFAULT_SETTINGS, stats_enabled: true });
+        await loadTypingStats({ globalStorageUri: { fsPath: storage } } as vscode.ExtensionContext);
+
+        expect(getTypingStats().days[toDateKey(Date.now())].keys).toBe(2);
+
+        await deleteTypingStats();
+        await fs.promises.rm(storage, { recursive: true });
+    });
+
+    it('logs a failed save instead of rejecting', async () => {
+        const storage = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'typing-stats-'));
+        // The global storage sits inside a file, so it can't be created.
+        const blocker = path.join(storage, 'blocker');
+        await fs.promises.writeFile(blocker, '');
+        await loadTypingStats({ globalStorageUri: { fsPath: path.join(blocker, 'storage') } } as vscode.ExtensionContext);
+
+        recordTypingStats('a', 'typescript', { ...DEFAULT_SETTINGS, stats_enabled: true });
+        await expect(saveTypingStats()).resolves.toBeUndefined();
+
+        await loadTypingStats({ globalStorageUri: { fsPath: storage } } as vscode.ExtensionContext);
+        await deleteTypingStats();
+        await fs.promises.rm(storage, { recursive: true });
+    });
+});